@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Node entry for the meridian CLI: registers tsx so the TypeScript source runs as is
+import { register } from "tsx/esm/api";
+
+register();
+await import("./meridian.ts");
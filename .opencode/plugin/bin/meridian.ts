@@ -0,0 +1,473 @@
+#!/usr/bin/env bun
+/**
+ * meridian - Meridian tasks and memory from the terminal
+ *
+ * Uses the same workspace library as the OpenCode tools, including their
+ * validation and lock files, so it is safe to run next to an open session.
+ * Runs with Bun (`bun bin/meridian.ts`) or Node (`node bin/meridian.js`, which
+ * loads this file through tsx).
+ *
+ *   meridian task list [--status todo,in_progress] [--priority P0,P1] [--depends-on ID] [--search TEXT]
+ *   meridian task show TASK-001
+ *   meridian task create --title TEXT [--priority P1] [--brief FILE] [--plan FILE] [--context FILE] [--depends-on IDS] [--blocked-by IDS]
+ *   meridian task status TASK-001 in_progress [--note TEXT]
+ *   meridian task delete TASK-001
+ *   meridian memory add --summary TEXT | --summary-file FILE [--tags a,b] [--links x,y] [--supersedes mem-0001]
+ *   meridian memory search QUERY [--limit 5] [--min-score 0.5]
+ *   meridian memory show mem-0001
+ *   meridian backlog
+ *   meridian init [--project-type standard] [--tdd | --no-tdd] [--from DIR] [--yes]
+ *   meridian doctor [--fix] [--from DIR]
+ *
+ * Every command accepts --json for machine-readable output and --dir to point
+ * at the project (default: the nearest folder with a .meridian/ directory).
+ */
+import { existsSync, readFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+import { createInterface } from "readline/promises";
+import { parseArgs } from "util";
+import { dump } from "js-yaml";
+import { type BacklogStatus, BACKLOG_STATUSES, readBacklog, listBacklogEntries } from "../lib/backlog";
+import { nextActionableTasks } from "../lib/graph";
+import { type ProjectType, PROJECT_TYPES } from "../lib/config";
+import { BUNDLED_DEFAULTS, initMeridian, requireDefaults } from "../lib/scaffold";
+import { diagnose } from "../lib/doctor";
+import { type Workspace, type TaskRow, createWorkspace, describeProgress } from "../lib/workspace";
+
+const USAGE = `Usage: meridian <command> [options]
+
+Commands:
+  task list [--status S,..] [--priority P,..] [--depends-on ID] [--search TEXT]
+  task show <TASK-ID>
+  task create --title TEXT [--priority P0-P3] [--brief FILE] [--plan FILE] [--context FILE]
+              [--depends-on IDS] [--blocked-by IDS]
+  task status <TASK-ID> <${BACKLOG_STATUSES.join("|")}> [--note TEXT]
+  task delete <TASK-ID>
+  memory add (--summary TEXT | --summary-file FILE|-) [--tags T,..] [--links L,..] [--supersedes ID,..]
+  memory search <QUERY> [--limit N] [--min-score 0-1]
+  memory show <MEM-ID>
+  backlog
+  init [--project-type ${PROJECT_TYPES.join("|")}] [--tdd | --no-tdd] [--from DIR] [--yes]
+  doctor [--fix] [--from DIR]
+
+Options:
+  --json       Print JSON instead of text
+  --dir PATH   Project directory (default: nearest folder containing .meridian/;
+               for init, the current directory)
+  --from DIR   Folder with Meridian's default files for init and doctor
+               (default: the .meridian folder next to this checkout's .opencode/)
+  -h, --help   Show this help`;
+
+const OPTIONS = {
+  json: { type: "boolean" },
+  dir: { type: "string" },
+  help: { type: "boolean", short: "h" },
+  status: { type: "string" },
+  priority: { type: "string" },
+  "depends-on": { type: "string" },
+  "blocked-by": { type: "string" },
+  search: { type: "string" },
+  title: { type: "string" },
+  brief: { type: "string" },
+  plan: { type: "string" },
+  context: { type: "string" },
+  note: { type: "string" },
+  summary: { type: "string" },
+  "summary-file": { type: "string" },
+  tags: { type: "string" },
+  links: { type: "string" },
+  supersedes: { type: "string" },
+  limit: { type: "string" },
+  "min-score": { type: "string" },
+  "project-type": { type: "string" },
+  tdd: { type: "boolean" },
+  "no-tdd": { type: "boolean" },
+  from: { type: "string" },
+  yes: { type: "boolean", short: "y" },
+  fix: { type: "boolean" },
+} as const;
+
+type Options = Partial<Record<keyof typeof OPTIONS, string | boolean>>;
+
+interface Command {
+  /** Positional arguments after the command words */
+  args: string[];
+  options: Options;
+  workspace: Workspace;
+}
+
+/**
+ * Error for bad command-line input: prints the usage hint and exits with 2
+ */
+class UsageError extends Error {}
+
+function option(options: Options, name: keyof typeof OPTIONS): string | undefined {
+  const value = options[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+function list(value: string | undefined): string[] | undefined {
+  return value === undefined ? undefined : value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Ask on the terminal; only used when stdin is a TTY
+ */
+async function ask(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return (await rl.question(question)).trim();
+  } finally {
+    rl.close();
+  }
+}
+
+function interactive(options: Options): boolean {
+  return Boolean(process.stdin.isTTY) && !options.json && !options.yes;
+}
+
+function defaultsDir(options: Options): string {
+  const from = option(options, "from");
+  return from ? resolve(from) : BUNDLED_DEFAULTS;
+}
+
+/**
+ * Numeric option within [min, max]; anything else is a usage error
+ */
+function numberOption(options: Options, name: keyof typeof OPTIONS, range: { min: number; max?: number; integer?: boolean }): number | undefined {
+  const raw = option(options, name);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  const inRange = raw.trim() !== "" && Number.isFinite(value) && value >= range.min && (range.max === undefined || value <= range.max);
+  if (!inRange || (range.integer && !Number.isInteger(value))) {
+    const expected = range.integer ? `a whole number ≥ ${range.min}` : `a number between ${range.min} and ${range.max}`;
+    throw new UsageError(`--${name} must be ${expected}, got '${raw}'`);
+  }
+  return value;
+}
+
+function readInput(path: string): string {
+  return path === "-" ? readFileSync(0, "utf-8") : readFileSync(resolve(path), "utf-8");
+}
+
+function requireArg(args: string[], index: number, name: string): string {
+  if (!args[index]) throw new UsageError(`Missing ${name}`);
+  return args[index];
+}
+
+/**
+ * Nearest directory (from start upwards) that contains .meridian/
+ */
+function findProjectDir(start: string): string | null {
+  let dir = resolve(start);
+  while (true) {
+    if (existsSync(join(dir, ".meridian"))) return dir;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Plain-text table with padded columns
+ */
+function table(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map((row) => row[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+  return [line(headers), line(widths.map((width) => "-".repeat(width))), ...rows.map(line)].join("\n");
+}
+
+function taskRows(rows: TaskRow[]): string[][] {
+  return rows.map((row) => [
+    row.id,
+    row.status || "-",
+    row.priority || "-",
+    row.inBacklog ? row.title : `${row.title} (not in backlog)`.trim(),
+    row.dependsOn.join(", ") || "-",
+    describeProgress(row),
+  ]);
+}
+
+function taskList({ options, workspace }: Command): [unknown, string] {
+  const { rows, total } = workspace.listTasks({
+    status: list(option(options, "status")),
+    priority: list(option(options, "priority")),
+    dependsOn: option(options, "depends-on"),
+    search: option(options, "search"),
+  });
+  const text = rows.length === 0
+    ? `No tasks match the given filters (${total} task(s) total).`
+    : `${table(["ID", "Status", "Pri", "Title", "Depends on", "Reqs done"], taskRows(rows))}\n\n${rows.length} of ${total} task(s)`;
+  return [{ tasks: rows, total }, text];
+}
+
+function taskShow({ args, workspace }: Command): [unknown, string] {
+  const task = workspace.showTask(requireArg(args, 0, "task ID"));
+  const lines = [
+    `${task.id}  ${task.title || "(no title)"}${task.inBacklog ? "" : "  (not in backlog)"}`,
+    `Status: ${task.status || "-"}   Priority: ${task.priority || "-"}`,
+    `Depends on: ${task.dependsOn.join(", ") || "-"}   Blocked by: ${task.blockedBy.join(", ") || "-"}`,
+  ];
+  if (task.briefError) {
+    lines.push(`❌ Invalid brief: ${task.briefError}`);
+  } else if (task.brief?.requirements?.length) {
+    lines.push(`Requirements (${describeProgress(task)} done):`);
+    for (const req of task.brief.requirements) {
+      const mark = req.status === "done" ? "x" : req.status === "in_progress" ? "~" : " ";
+      lines.push(`  [${mark}] ${req.id ?? "?"} ${req.description ?? ""}`.trimEnd());
+    }
+  }
+  lines.push(`Path: ${task.path}`);
+  if (task.files.length > 0) lines.push("Files:", ...task.files.map((file) => `  - ${file}`));
+  return [task, lines.join("\n")];
+}
+
+async function taskCreate({ options, workspace }: Command): Promise<[unknown, string]> {
+  const title = option(options, "title");
+  if (!title?.trim()) throw new UsageError("--title is required");
+  const priority = option(options, "priority");
+  const brief = option(options, "brief");
+  const plan = option(options, "plan");
+  const context = option(options, "context");
+
+  const created = await workspace.createTask({
+    backlogEntry: priority ? dump({ title: title.trim(), priority }) : title.trim(),
+    taskBrief: brief ? readInput(brief) : undefined,
+    planContent: plan ? readInput(plan) : undefined,
+    contextContent: context ? readInput(context) : undefined,
+    dependsOn: list(option(options, "depends-on")),
+    blockedBy: list(option(options, "blocked-by")),
+  });
+  const hint = brief ? "" : `\nFill in ${created.taskId}.yaml (objective, requirements) before starting work.`;
+  return [created, `✅ Task created: ${created.taskId}\nWritten: ${created.written.join(", ")}\nPath: ${created.path}${hint}`];
+}
+
+async function taskStatus({ args, options, workspace }: Command): Promise<[unknown, string]> {
+  const taskId = requireArg(args, 0, "task ID");
+  const status = requireArg(args, 1, "status");
+  if (!BACKLOG_STATUSES.includes(status as BacklogStatus)) {
+    throw new UsageError(`Unknown status '${status}' (use ${BACKLOG_STATUSES.join(", ")})`);
+  }
+
+  const change = await workspace.setTaskStatus(taskId, status as BacklogStatus, option(options, "note"));
+  const lines = [change.from === change.to ? `✅ ${taskId} already ${change.to}; brief and backlog re-synced` : `✅ ${taskId}: ${change.from} → ${change.to}`];
+  if (change.unblocked.length > 0) lines.push(`No longer blocked by ${taskId}: ${change.unblocked.join(", ")}`);
+  if (change.to === "in_progress" && change.pendingDependencies.length > 0) {
+    lines.push(`⚠️  Dependencies not done yet: ${change.pendingDependencies.join(", ")}`);
+  }
+  if (change.to === "done" && !change.verified) lines.push("⚠️  Never verified");
+  if (change.git) lines.push(`Git: ${change.git.branch ?? "detached HEAD"} @ ${change.git.head}`);
+  if (change.linkedCommits.length > 0) lines.push(`Linked ${change.linkedCommits.length} commit(s) mentioning ${taskId}`);
+  if (change.linkWarning) lines.push(`⚠️  Commits not linked: ${change.linkWarning}`);
+  return [change, lines.join("\n")];
+}
+
+async function taskDelete({ args, workspace }: Command): Promise<[unknown, string]> {
+  const deleted = await workspace.deleteTask(requireArg(args, 0, "task ID"));
+  const backlog = deleted.removedFromBacklog ? "\nRemoved from backlog" : "";
+  return [deleted, `✅ Task moved to trash: ${deleted.taskId}\nTrash: ${deleted.trashPath}${backlog}\nRestore it with the task-deleter tool within ${workspace.config.trashRetentionDays} days.`];
+}
+
+async function memoryAdd({ options, workspace }: Command): Promise<[unknown, string]> {
+  const file = option(options, "summary-file");
+  const summary = file ? readInput(file) : option(options, "summary");
+  if (!summary?.trim()) throw new UsageError("--summary or --summary-file is required");
+
+  const added = await workspace.addMemory({
+    summary,
+    tags: list(option(options, "tags")),
+    links: list(option(options, "links")),
+    supersedes: list(option(options, "supersedes")),
+  });
+  const superseded = added.superseded.length > 0 ? `\nSuperseded: ${added.superseded.join(", ")}` : "";
+  return [added, `✅ Added ${added.entry.id} at ${added.entry.timestamp}${superseded}`];
+}
+
+function memorySearch({ args, options, workspace }: Command): [unknown, string] {
+  const query = args.join(" ");
+  if (!query.trim()) throw new UsageError("Missing search query");
+  const { indexed, results } = workspace.searchMemory(query, {
+    limit: numberOption(options, "limit", { min: 1, integer: true }),
+    minScore: numberOption(options, "min-score", { min: 0, max: 1 }),
+  });
+  if (indexed === 0) return [{ results: [] }, `No memories yet (${workspace.memoryPath}).`];
+  if (results.length === 0) return [{ results: [] }, `No memories found matching "${query}".`];
+
+  const text = results.map((result) => {
+    const mem = result.entry;
+    const status = mem.status === "active" ? "" : `  [${mem.status}${mem.supersededBy ? ` by ${mem.supersededBy}` : ""}]`;
+    const snippet = result.snippet.replace(/\*\*/g, "");
+    return `${mem.id}  ${mem.timestamp.slice(0, 10)}  score ${result.score.toFixed(2)}${status}\n  tags: ${mem.tags.join(", ") || "-"}\n  ${snippet}`;
+  }).join("\n\n");
+  return [{ results }, text];
+}
+
+function memoryShow({ args, workspace }: Command): [unknown, string] {
+  const memoryId = requireArg(args, 0, "memory ID");
+  const entry = workspace.findMemory(memoryId);
+  if (!entry) throw new Error(`Memory '${memoryId}' not found in ${workspace.memoryPath}`);
+
+  const lines = [`${entry.id}  ${entry.timestamp}  ${entry.status}`];
+  if (entry.supersededBy) lines.push(`Superseded by: ${entry.supersededBy}`);
+  if (entry.reason) lines.push(`Reason: ${entry.reason}`);
+  lines.push(`Tags: ${entry.tags.join(", ") || "-"}`, `Links: ${entry.links.join(", ") || "-"}`, "", entry.summary);
+  return [entry, lines.join("\n")];
+}
+
+function backlog({ workspace }: Command): [unknown, string] {
+  const entries = listBacklogEntries(readBacklog(workspace.backlogPath));
+  if (entries.length === 0) return [{ entries, next: [] }, `No tasks in backlog: ${workspace.backlogPath}`];
+
+  const next = nextActionableTasks(workspace.buildGraphWithArchive(entries)).map((entry) => entry.id);
+  const rows = entries.map((entry) => [
+    entry.id,
+    entry.status ?? "-",
+    entry.priority ?? "-",
+    entry.title ?? "",
+    entry.depends_on.join(", ") || "-",
+    entry.blocked_by.join(", ") || "-",
+  ]);
+  const text = `${table(["ID", "Status", "Pri", "Title", "Depends on", "Blocked by"], rows)}\n\nNext actionable: ${next.join(", ") || "(none)"}`;
+  return [{ entries, next }, text];
+}
+
+async function init(directory: string, options: Options): Promise<[unknown, string]> {
+  const source = defaultsDir(options);
+  requireDefaults(source);
+  if (options.tdd && options["no-tdd"]) throw new UsageError("Use either --tdd or --no-tdd");
+
+  let projectType = option(options, "project-type");
+  if (projectType === undefined && interactive(options)) {
+    projectType = (await ask(`Project type (${PROJECT_TYPES.join("/")}) [standard]: `)) || undefined;
+  }
+  projectType ??= "standard";
+  if (!PROJECT_TYPES.includes(projectType as ProjectType)) {
+    throw new UsageError(`Unknown project type '${projectType}' (use ${PROJECT_TYPES.join(", ")})`);
+  }
+
+  let tddMode = options.tdd ? true : options["no-tdd"] ? false : undefined;
+  if (tddMode === undefined && interactive(options)) {
+    tddMode = /^y(es)?$/i.test(await ask("Enable TDD mode? (y/N): "));
+  }
+  tddMode ??= false;
+
+  const result = initMeridian(directory, source, { projectType: projectType as ProjectType, tddMode });
+  const lines = result.created.length > 0
+    ? [`✅ Meridian initialized in ${directory} (${projectType}${tddMode ? ", TDD mode" : ""})`, "Created:", ...result.created.map((file) => `  + ${file}`)]
+    : [`✅ ${join(directory, ".meridian")} is already complete; nothing was written`];
+  if (result.kept.length > 0 && result.created.length > 0) {
+    lines.push(`Kept ${result.kept.length} existing file(s)${result.kept.includes(join(".meridian", "config.yaml")) ? ", including config.yaml (project type and TDD mode unchanged)" : ""}`);
+  }
+  return [{ directory, projectType, tddMode, ...result }, lines.join("\n")];
+}
+
+async function doctor({ options, workspace }: Command): Promise<[unknown, string, number]> {
+  const findings = diagnose(workspace, defaultsDir(options));
+  if (findings.length === 0) return [{ findings: [] }, `✅ No problems found in ${workspace.meridianDir}`, 0];
+
+  // Interactive runs print as they go, so each question follows its problem
+  const prompting = interactive(options) && !options.fix;
+  const lines: string[] = [];
+  const emit = (line: string) => (prompting ? console.log(line) : lines.push(line));
+  const outcomes: { fixed: boolean; result: string | null }[] = [];
+
+  for (const finding of findings) {
+    emit(`${finding.fix ? "⚠️ " : "❌"} [${finding.check}] ${finding.problem}`);
+    const approved = finding.repair && (options.fix || (prompting && /^y(es)?$/i.test(await ask(`   Fix: ${finding.fix}? (y/N): `))));
+    if (!approved) {
+      if (finding.fix && !prompting) emit(`   Fix: ${finding.fix}`);
+      outcomes.push({ fixed: false, result: null });
+      continue;
+    }
+    try {
+      const result = await finding.repair!();
+      emit(`   ✅ ${result}`);
+      outcomes.push({ fixed: true, result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      emit(`   ❌ ${message}`);
+      outcomes.push({ fixed: false, result: message });
+    }
+  }
+
+  const fixed = outcomes.filter((outcome) => outcome.fixed).length;
+  const fixable = findings.filter((finding, index) => finding.repair && !outcomes[index].fixed).length;
+  lines.push(`${prompting ? "" : "\n"}${findings.length} problem(s), ${fixed} fixed, ${findings.length - fixed} remaining`);
+  if (fixable > 0 && !options.fix && !prompting) lines.push("Run `meridian doctor --fix` to apply the fixes above.");
+  const data = findings.map(({ check, problem, fix }, index) => ({ check, problem, fix, ...outcomes[index] }));
+  return [{ findings: data }, lines.join("\n"), fixed === findings.length ? 0 : 1];
+}
+
+type Handler = (command: Command) => [unknown, string, number?] | Promise<[unknown, string, number?]>;
+
+const COMMANDS: Record<string, Handler> = {
+  "task list": taskList,
+  "task show": taskShow,
+  "task create": taskCreate,
+  "task status": taskStatus,
+  "task delete": taskDelete,
+  "memory add": memoryAdd,
+  "memory search": memorySearch,
+  "memory show": memoryShow,
+  backlog,
+  doctor,
+};
+
+/** Commands that set up a project and do not need an existing .meridian/ */
+const SETUP_COMMANDS: Record<string, (directory: string, options: Options) => Promise<[unknown, string]>> = {
+  init,
+};
+
+async function main(argv: string[]): Promise<number> {
+  let parsed: { values: Options; positionals: string[] };
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true }) as typeof parsed;
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values: options, positionals } = parsed;
+
+  const name = [positionals.slice(0, 2).join(" "), positionals[0]].find(
+    (candidate) => candidate && (COMMANDS[candidate] || SETUP_COMMANDS[candidate])
+  );
+  if (options.help || !name) {
+    (options.help ? console.log : console.error)(USAGE);
+    return options.help ? 0 : 2;
+  }
+
+  if (SETUP_COMMANDS[name]) {
+    return report(options, () => SETUP_COMMANDS[name](resolve(option(options, "dir") ?? process.cwd()), options));
+  }
+
+  const projectDir = option(options, "dir") ? resolve(option(options, "dir")!) : findProjectDir(process.cwd());
+  if (!projectDir || !existsSync(join(projectDir, ".meridian"))) {
+    console.error(`❌ No .meridian/ directory found in ${projectDir ?? `${process.cwd()} or its parents`}`);
+    return 1;
+  }
+
+  const workspace = createWorkspace(projectDir);
+  for (const issue of workspace.configIssues) console.error(`⚠️  config.yaml: ${issue}`);
+
+  const args = positionals.slice(name.split(" ").length);
+  return report(options, () => COMMANDS[name]({ args, options, workspace }));
+}
+
+/**
+ * Run a handler and print its result (or error); returns the exit code
+ */
+async function report(options: Options, run: () => [unknown, string, number?] | Promise<[unknown, string, number?]>): Promise<number> {
+  try {
+    const [data, text, code = 0] = await run();
+    console.log(options.json ? JSON.stringify(data, null, 2) : text);
+    return code;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) console.log(JSON.stringify({ error: message }, null, 2));
+    else console.error(`❌ ${message}`);
+    if (error instanceof UsageError) console.error(`\n${USAGE}`);
+    return error instanceof UsageError ? 2 : 1;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => process.exit(code));
@@ -0,0 +1,172 @@
+import { isAbsolute, relative } from "path";
+
+/**
+ * What a session did since its last idle reminder
+ *
+ * The post-tool hook feeds every tool call into recordActivity(). The idle
+ * handler only sends a reminder when something worth recording happened, and
+ * names the task and files it is about. Read-only calls (read, grep, questions)
+ * never trigger a reminder.
+ */
+
+export interface SessionActivity {
+  /** Project files edited, relative to the project root (excluding .meridian/) */
+  filesEdited: string[];
+  /** Test/lint/build commands run in the shell, with their outcome */
+  checks: { command: string; success: boolean }[];
+  /** Tasks changed through the task tools or by editing their files */
+  tasksTouched: string[];
+  /** Tasks whose folder was edited after the last project file edit */
+  taskFilesUpdated: string[];
+  /** Tasks verified with task-verify after the last project file edit */
+  tasksVerified: string[];
+  memoryWritten: boolean;
+  /** Edited files that often reflect a decision worth a memory entry */
+  decisionFiles: string[];
+}
+
+export interface ReminderContext {
+  activeTask: string | null;
+  /** Tasks directory relative to the project root */
+  tasksDir: string;
+  operatingManual: string;
+}
+
+export const EDIT_TOOLS = ["edit", "write", "patch", "multiedit"];
+const TASK_TOOLS = ["task-manager", "task-status", "task-verify", "task-archive", "task-deleter", "task-git"];
+const MEMORY_TOOLS = ["memory-curator", "memory-lifecycle"];
+const CHECK_COMMAND = /\b(test|tests|jest|vitest|mocha|pytest|cargo (test|build|clippy)|go (test|build|vet)|tsc|typecheck|lint|eslint|ruff|mypy|build)\b/;
+
+// Dependency manifests, schemas, migrations, infrastructure and ADRs
+const DECISION_FILE = /(^|\/)(package\.json|go\.mod|Cargo\.toml|pyproject\.toml|requirements[^/]*\.txt|Gemfile|pom\.xml|build\.gradle(\.kts)?|tsconfig[^/]*\.json|Dockerfile|docker-compose[^/]*\.ya?ml|schema\.prisma|[^/]+\.graphql|openapi[^/]*\.(ya?ml|json))$|(^|\/)(migrations?|\.github\/workflows|infra|terraform|docs\/adr)\//;
+
+const MAX_LISTED = 8;
+
+export function emptyActivity(): SessionActivity {
+  return { filesEdited: [], checks: [], tasksTouched: [], taskFilesUpdated: [], tasksVerified: [], memoryWritten: false, decisionFiles: [] };
+}
+
+function addUnique(list: string[], ...items: string[]): string[] {
+  return [...new Set([...list, ...items])];
+}
+
+/**
+ * Paths written by an edit-type tool call
+ */
+export function editedPaths(tool: string, args: Record<string, unknown>): string[] {
+  if (typeof args.filePath === "string") return [args.filePath];
+  if (tool === "patch" && typeof args.patchText === "string") {
+    return [...args.patchText.matchAll(/^\*\*\* (?:Add|Update|Delete) File: (.+)$/gm)].map((match) => match[1].trim());
+  }
+  return [];
+}
+
+/**
+ * Fold one tool call into the activity. Failed calls do not count, except shell checks.
+ */
+export function recordActivity(
+  activity: SessionActivity,
+  call: { tool: string; args: unknown; success: boolean; output: string },
+  directory: string,
+  tasksDir: string
+): SessionActivity {
+  const tool = call.tool.toLowerCase();
+  const args = (call.args && typeof call.args === "object" ? call.args : {}) as Record<string, unknown>;
+  const next = { ...activity };
+
+  if (EDIT_TOOLS.includes(tool) && call.success) {
+    for (const path of editedPaths(tool, args)) {
+      const file = isAbsolute(path) ? relative(directory, path) : path;
+      const taskFile = file.startsWith(`${tasksDir}/`) ? file.slice(tasksDir.length + 1).match(/^(TASK-\d+)\//) : null;
+      if (taskFile) {
+        next.tasksTouched = addUnique(next.tasksTouched, taskFile[1]);
+        next.taskFilesUpdated = addUnique(next.taskFilesUpdated, taskFile[1]);
+      } else if (file.startsWith(".meridian/") || file === ".meridian") {
+        if (file.startsWith(".meridian/memory.jsonl")) next.memoryWritten = true;
+      } else {
+        next.filesEdited = addUnique(next.filesEdited, file);
+        // Changed after the task notes and verification, so both are out of date again
+        next.taskFilesUpdated = [];
+        next.tasksVerified = [];
+        if (DECISION_FILE.test(file)) next.decisionFiles = addUnique(next.decisionFiles, file);
+      }
+    }
+  } else if (tool === "bash" && typeof args.command === "string" && CHECK_COMMAND.test(args.command)) {
+    const command = args.command.split("\n")[0].slice(0, 80);
+    next.checks = [...next.checks.filter((check) => check.command !== command), { command, success: call.success }];
+  } else if (TASK_TOOLS.includes(tool) && call.success) {
+    const ids = typeof args.taskId === "string" ? [args.taskId] : call.output.match(/TASK-\d+/g)?.slice(0, 1) ?? [];
+    next.tasksTouched = addUnique(next.tasksTouched, ...ids);
+    if (tool === "task-verify") next.tasksVerified = addUnique(next.tasksVerified, ...ids);
+  } else if (MEMORY_TOOLS.includes(tool) && call.success) {
+    next.memoryWritten = true;
+  }
+
+  return next;
+}
+
+/**
+ * Whether anything happened that task files or memory could need to reflect
+ */
+export function hasActivity(activity: SessionActivity): boolean {
+  return activity.filesEdited.length > 0 || activity.checks.length > 0 || activity.tasksTouched.length > 0;
+}
+
+function listFiles(files: string[]): string {
+  const shown = files.slice(0, MAX_LISTED).map((file) => `\`${file}\``).join(", ");
+  return files.length > MAX_LISTED ? `${shown} and ${files.length - MAX_LISTED} more` : shown;
+}
+
+/**
+ * Idle reminder naming the concrete task and files, or null when nothing changed
+ */
+export function buildIdleReminder(activity: SessionActivity, context: ReminderContext): string | null {
+  if (!hasActivity(activity)) return null;
+
+  const { filesEdited, checks, tasksTouched, taskFilesUpdated, tasksVerified, decisionFiles } = activity;
+  const task = context.activeTask ?? (tasksTouched.length === 1 ? tasksTouched[0] : null);
+  const happened: string[] = [];
+  const todo: string[] = [];
+
+  if (filesEdited.length > 0) happened.push(`Edited ${filesEdited.length} file(s): ${listFiles(filesEdited)}`);
+  const failedChecks = checks.filter((check) => !check.success);
+  if (checks.length > 0) {
+    happened.push(`Ran ${checks.map((check) => `\`${check.command}\` (${check.success ? "passed" : "failed"})`).join(", ")}`);
+  }
+  if (tasksTouched.length > 0) happened.push(`Task updates: ${tasksTouched.join(", ")}`);
+
+  if (task) {
+    const taskDir = `${context.tasksDir}/${task}`;
+    if (filesEdited.length > 0 && !taskFilesUpdated.includes(task)) {
+      todo.push(`Append a timestamped note to \`${taskDir}/${task}-context.md\`: what changed in ${listFiles(filesEdited)}, decisions, and next steps`);
+      todo.push(`Update requirement statuses in \`${taskDir}/${task}.yaml\` if any were completed`);
+    }
+    if (filesEdited.length > 0 && !tasksVerified.includes(task)) {
+      todo.push(`If the work is finished, run \`task-verify({ taskId: "${task}" })\` before marking it done`);
+    }
+  } else if (filesEdited.length > 0) {
+    todo.push("No active task: if this is non-trivial work, create one with `task-manager`; for a small fix, skip the task files");
+  }
+
+  if (failedChecks.length > 0) {
+    todo.push(`Fix the failing ${failedChecks.map((check) => `\`${check.command}\``).join(", ")} before marking anything complete`);
+  }
+  if (decisionFiles.length > 0 && !activity.memoryWritten) {
+    todo.push(`${listFiles(decisionFiles)} changed: if this reflects an architectural decision, record it with \`memory-curator\``);
+  }
+  if (todo.length === 0) return null;
+
+  return `[SYSTEM]: Before stopping, update the project records for this work.
+
+**Since the last reminder:**
+${happened.map((line) => `- ${line}`).join("\n")}
+
+**To do:**
+${todo.map((line) => `- ${line}`).join("\n")}
+
+See 'Definition of Done' in \`${context.operatingManual}\`.
+
+**If none of this applies:** Skip the updates and respond with the same message that was blocked.
+
+**If you did update something:** Resend the same message you sent before this hook interrupted you.`;
+}
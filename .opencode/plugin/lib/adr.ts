@@ -0,0 +1,226 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { isValid, parseISO } from "date-fns";
+import { type ResolvedMemory } from "./memory";
+
+/**
+ * Conversion between memory entries and Architecture Decision Records
+ *
+ * Export renders memory entries tagged decision/architecture as numbered ADRs
+ * (NNNN-title.md). The memory-curator labels map to ADR sections:
+ *   Problem → Context, Decision → Decision, Alternatives → Alternatives Considered,
+ *   Trade-offs and Impact/Scope → Consequences, Pattern → Pattern.
+ * Exported ADRs carry a `Memory: mem-####` line, so re-exporting updates the same file.
+ *
+ * Import turns hand-written ADRs into memory entries that link back to the ADR
+ * file. ADRs that came from memory, or that are already linked from an entry,
+ * are skipped, so running it again creates no duplicates.
+ */
+
+export const ADR_TAGS = ["decision", "architecture"];
+
+export interface AdrFile {
+  number: number;
+  fileName: string;
+  title: string;
+  /** Memory ID from the `Memory:` line of exported ADRs */
+  memoryId: string | null;
+  status: string | null;
+  date: string | null;
+  sections: Record<string, string>;
+  content: string;
+}
+
+const ADR_FILE_PATTERN = /^(\d{4})-[\w.-]*\.md$/;
+const SUMMARY_LABELS = ["Decision", "Problem", "Alternatives", "Trade-offs", "Impact/Scope", "Pattern"];
+const SECTION_MAX_CHARS = 400;
+
+/**
+ * Split a memory-curator summary into its bolded sections (keys lowercased).
+ * Text before the first label is returned under "".
+ */
+export function parseSummarySections(summary: string): Record<string, string> {
+  const sections: Record<string, string> = {};
+  let current = "";
+  for (const line of summary.split("\n")) {
+    const match = line.match(/^\s*(?:[-*]\s*)?\*\*([^*:]+):?\*\*:?\s*(.*)$/);
+    if (match) {
+      current = match[1].trim().toLowerCase();
+      sections[current] = match[2].trim();
+    } else if (line.trim()) {
+      sections[current] = sections[current] ? `${sections[current]}\n${line.trim()}` : line.trim();
+    }
+  }
+  return sections;
+}
+
+function firstSentence(text: string, maxLength: number = 72): string {
+  const line = text.split("\n")[0].trim();
+  const sentence = line.match(/^(.+?[.!?])(\s|$)/)?.[1] ?? line;
+  const clean = sentence.replace(/[.!?]$/, "");
+  return clean.length > maxLength ? `${clean.slice(0, maxLength - 1).trimEnd()}…` : clean;
+}
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 50)
+    .replace(/-+$/, "") || "decision";
+}
+
+export function adrFileName(number: number, title: string): string {
+  return `${number.toString().padStart(4, "0")}-${slugify(title)}.md`;
+}
+
+export function adrTitle(entry: ResolvedMemory): string {
+  const sections = parseSummarySections(entry.summary);
+  return firstSentence(sections["decision"] || sections[""] || entry.summary || entry.id);
+}
+
+function adrStatus(entry: ResolvedMemory, adrNumbers: Map<string, number>): string {
+  if (entry.status === "superseded") {
+    const number = entry.supersededBy ? adrNumbers.get(entry.supersededBy) : undefined;
+    const by = entry.supersededBy ? ` by ${entry.supersededBy}${number ? ` (ADR ${number.toString().padStart(4, "0")})` : ""}` : "";
+    return `Superseded${by}`;
+  }
+  if (entry.status === "deprecated") {
+    return `Deprecated${entry.reason ? ` — ${entry.reason}` : ""}`;
+  }
+  return "Accepted";
+}
+
+/**
+ * Render a memory entry as ADR Markdown
+ */
+export function renderAdr(entry: ResolvedMemory, number: number, adrNumbers: Map<string, number>): string {
+  const sections = parseSummarySections(entry.summary);
+  const title = adrTitle(entry);
+  const out: string[] = [`# ${number.toString().padStart(4, "0")}. ${title}`, ""];
+
+  out.push(`- Status: ${adrStatus(entry, adrNumbers)}`);
+  out.push(`- Date: ${(entry.timestamp ?? "").slice(0, 10) || "unknown"}`);
+  out.push(`- Memory: ${entry.id}`);
+  if (entry.tags.length > 0) out.push(`- Tags: ${entry.tags.join(", ")}`);
+  if (entry.links.length > 0) out.push(`- Links: ${entry.links.join(", ")}`);
+  out.push("");
+
+  const section = (heading: string, text: string | undefined) => {
+    if (text?.trim()) out.push(`## ${heading}`, "", text.trim(), "");
+  };
+  section("Context", sections["problem"]);
+  section("Decision", sections["decision"] || sections[""]);
+  section("Alternatives Considered", sections["alternatives"]);
+
+  const consequences = [sections["trade-offs"], sections["impact/scope"] && `**Impact/Scope:** ${sections["impact/scope"]}`]
+    .filter(Boolean)
+    .join("\n\n");
+  section("Consequences", consequences);
+  section("Pattern", sections["pattern"]);
+
+  // Labels outside the standard format are kept rather than dropped
+  for (const [label, text] of Object.entries(sections)) {
+    if (label && !SUMMARY_LABELS.some((known) => known.toLowerCase() === label)) {
+      section(label.replace(/^\w/, (c) => c.toUpperCase()), text);
+    }
+  }
+
+  out.push(`_Exported from .meridian/memory.jsonl. Edit the memory entry (memory-lifecycle amend) and export again instead of editing this file._`, "");
+  return out.join("\n");
+}
+
+/**
+ * Parse an ADR file: title line, `- Key: value` metadata and `##` sections
+ */
+export function parseAdr(fileName: string, content: string): AdrFile {
+  const number = parseInt(fileName.slice(0, 4), 10);
+  const lines = content.split("\n");
+  const titleLine = lines.find((line) => /^#\s+/.test(line)) ?? "";
+  const title = titleLine.replace(/^#\s+/, "").replace(/^(ADR[-\s]*)?\d+[.:]?\s*/i, "").trim() || fileName.replace(/\.md$/, "");
+
+  const metadata = (key: string) =>
+    content.match(new RegExp(`^[-*]?\\s*\\**${key}\\**:\\**\\s*(.+)$`, "im"))?.[1].trim() ?? null;
+
+  const sections: Record<string, string> = {};
+  let current: string | null = null;
+  for (const line of lines) {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      current = heading[1].toLowerCase();
+      sections[current] = "";
+    } else if (current !== null) {
+      sections[current] += `${line}\n`;
+    }
+  }
+  for (const key of Object.keys(sections)) sections[key] = sections[key].trim();
+
+  const memoryId = metadata("Memory");
+  return {
+    number,
+    fileName,
+    title,
+    memoryId: memoryId && /^mem-\d+$/.test(memoryId) ? memoryId : null,
+    status: metadata("Status") ?? (sections["status"]?.split("\n")[0].trim() || null),
+    date: metadata("Date"),
+    sections,
+    content,
+  };
+}
+
+export function listAdrs(adrDir: string): AdrFile[] {
+  if (!existsSync(adrDir)) return [];
+  return readdirSync(adrDir)
+    .filter((name) => ADR_FILE_PATTERN.test(name))
+    .sort()
+    .map((name) => parseAdr(name, readFileSync(join(adrDir, name), "utf-8")));
+}
+
+/**
+ * Body of the first heading in names (in order) that the ADR has; headings must match whole
+ */
+function findSection(sections: Record<string, string>, names: string[]): string {
+  const headings = new Map(Object.keys(sections).map((heading) => [heading.replace(/:$/, "").trim(), heading]));
+  const key = names.map((name) => headings.get(name)).find((heading) => heading !== undefined);
+  return key ? sections[key] : "";
+}
+
+function condense(text: string): string {
+  // MADR nests ### subheadings inside sections; they make poor summaries
+  const body = text.split("\n").filter((line) => !/^#{3,}\s/.test(line)).join("\n").trim();
+  const paragraph = body.split(/\n\s*\n/)[0].replace(/\s*\n\s*/g, " ").trim();
+  return paragraph.length > SECTION_MAX_CHARS ? `${paragraph.slice(0, SECTION_MAX_CHARS - 1).trimEnd()}…` : paragraph;
+}
+
+/**
+ * memory-curator style summary for a hand-written ADR (Nygard and MADR headings)
+ */
+export function adrToSummary(adr: AdrFile): string {
+  const decision = condense(findSection(adr.sections, ["decision outcome", "decision"])) || adr.title;
+  const parts: [string, string][] = [
+    ["Decision", decision],
+    ["Problem", condense(findSection(adr.sections, ["context", "context and problem statement", "problem", "problem statement"]))],
+    ["Alternatives", condense(findSection(adr.sections, ["alternatives considered", "alternatives", "considered options", "options"]))],
+    ["Trade-offs", condense(findSection(adr.sections, ["consequences", "trade-offs", "pros and cons of the options", "pros and cons"]))],
+  ];
+  return parts
+    .filter(([, text]) => text)
+    .map(([label, text]) => `- **${label}:** ${text}`)
+    .join("\n");
+}
+
+/**
+ * Whether the ADR's status says it no longer applies
+ */
+export function isRetiredAdr(adr: AdrFile): boolean {
+  return /^(superseded|deprecated|rejected)/i.test(adr.status ?? "");
+}
+
+/**
+ * ISO timestamp from the ADR's Date line, if it has a valid one
+ */
+export function adrTimestamp(adr: AdrFile): string | null {
+  if (!adr.date) return null;
+  const date = parseISO(adr.date);
+  return isValid(date) ? date.toISOString().replace(/\.\d{3}Z$/, "Z") : null;
+}
@@ -0,0 +1,322 @@
+import { closeSync, existsSync, mkdirSync, openSync, readdirSync, readFileSync, readSync, renameSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { gunzipSync, gzipSync } from "zlib";
+import { parseISO, isValid, differenceInCalendarDays } from "date-fns";
+import { appendFileSynced, withLock } from "./files";
+
+/**
+ * Model for .meridian/audit.jsonl
+ *
+ * One record per tool call, written by the `tool.execute.after` hook. The
+ * `tool.execute.before` hook records the start time under the call's `callID`,
+ * so each record carries its duration. Records written before this format
+ * (timestamp, agent, tool, success, output) are still read; missing fields are null.
+ *
+ * When the file grows past a size limit or its oldest record passes an age
+ * limit, it is moved to .meridian/audit/audit-<time>.jsonl.gz. Archives older
+ * than the retention period are deleted. Rotation and appends share a lock
+ * file, so parallel sessions never append to a log that is being archived.
+ */
+
+export interface AuditRecord {
+  timestamp: string;
+  sessionID: string | null;
+  callID: string | null;
+  agent: string | null;
+  tool: string;
+  /** Active task when the call finished */
+  task: string | null;
+  args: Record<string, unknown> | null;
+  durationMs: number | null;
+  success: boolean;
+  output: string;
+  /** Set when a policy rule stopped the call before it ran */
+  policy?: { action: "deny" | "ask"; rule: string };
+}
+
+export interface AuditFilter {
+  sessionID?: string;
+  tool?: string;
+  task?: string;
+  since?: Date;
+  until?: Date;
+  failedOnly?: boolean;
+}
+
+export const AUDIT_GROUP_BY = ["tool", "task", "session", "agent"] as const;
+
+export type AuditGroupBy = (typeof AUDIT_GROUP_BY)[number];
+
+export interface AuditSummaryRow {
+  key: string;
+  calls: number;
+  failures: number;
+  avgDurationMs: number | null;
+  lastFailure: string | null;
+}
+
+export interface AuditRotationOptions {
+  maxBytes: number;
+  maxAgeDays: number;
+  retentionDays: number;
+}
+
+const MAX_ARG_ITEMS = 20;
+const MAX_ARG_DEPTH = 3;
+const FIRST_LINE_MAX_BYTES = 64 * 1024;
+const ARCHIVE_PATTERN = /^audit-.+\.jsonl\.gz$/;
+
+/**
+ * Make tool args safe to log: long strings are cut to maxChars, long arrays and
+ * deep objects are shortened. Keys are kept so records stay queryable.
+ */
+export function sanitizeAuditArgs(args: unknown, maxChars: number): Record<string, unknown> | null {
+  if (!args || typeof args !== "object" || Array.isArray(args)) return null;
+  return sanitizeValue(args, maxChars, 0) as Record<string, unknown>;
+}
+
+function sanitizeValue(value: unknown, maxChars: number, depth: number): unknown {
+  if (typeof value === "string") {
+    return value.length > maxChars ? `${value.slice(0, maxChars)}…(+${value.length - maxChars} chars)` : value;
+  }
+  if (value === null || typeof value !== "object") {
+    return typeof value === "function" || typeof value === "symbol" ? String(value) : value;
+  }
+  if (depth >= MAX_ARG_DEPTH) {
+    return Array.isArray(value) ? `[${value.length} items]` : "{…}";
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARG_ITEMS).map((item) => sanitizeValue(item, maxChars, depth + 1));
+    if (value.length > MAX_ARG_ITEMS) items.push(`…(+${value.length - MAX_ARG_ITEMS} items)`);
+    return items;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    result[key] = sanitizeValue(child, maxChars, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Best guess at whether a call failed. Shell tools report an exit code in
+ * metadata; other tools only have their output to go on.
+ */
+export function isFailedCall(output: string | undefined, metadata: unknown): boolean {
+  const exit = (metadata as { exit?: unknown } | null | undefined)?.exit;
+  if (typeof exit === "number") return exit !== 0;
+  return !!output && (output.includes("Error") || output.includes("❌"));
+}
+
+function toRecord(obj: Record<string, unknown>): AuditRecord | null {
+  if (typeof obj.tool !== "string" || typeof obj.timestamp !== "string") return null;
+
+  const text = (value: unknown) => (typeof value === "string" ? value : null);
+  const policy = obj.policy && typeof obj.policy === "object" ? (obj.policy as Record<string, unknown>) : null;
+  return {
+    timestamp: obj.timestamp,
+    sessionID: text(obj.sessionID),
+    callID: text(obj.callID),
+    agent: text(obj.agent),
+    tool: obj.tool,
+    task: text(obj.task),
+    args: obj.args && typeof obj.args === "object" && !Array.isArray(obj.args) ? (obj.args as Record<string, unknown>) : null,
+    durationMs: typeof obj.durationMs === "number" ? obj.durationMs : null,
+    success: obj.success !== false,
+    output: text(obj.output) ?? "",
+    ...(policy && (policy.action === "deny" || policy.action === "ask") && typeof policy.rule === "string"
+      ? { policy: { action: policy.action, rule: policy.rule } }
+      : {}),
+  };
+}
+
+/**
+ * Parse audit.jsonl content; lines that are not audit records are skipped
+ */
+export function parseAuditLog(content: string): AuditRecord[] {
+  const records: AuditRecord[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const obj = JSON.parse(line);
+      const record = obj && typeof obj === "object" && !Array.isArray(obj) ? toRecord(obj) : null;
+      if (record) records.push(record);
+    } catch (error) {
+      // Skip partial or corrupt lines
+    }
+  }
+  return records;
+}
+
+export function readAuditLog(auditPath: string): AuditRecord[] {
+  if (!existsSync(auditPath)) return [];
+  return parseAuditLog(readFileSync(auditPath, "utf-8"));
+}
+
+/**
+ * Directory holding rotated audit archives
+ */
+export function auditArchiveDir(auditPath: string): string {
+  return join(dirname(auditPath), "audit");
+}
+
+/**
+ * Audit records from the archives and the current file, oldest first.
+ * Archives last written before `since` are skipped without being decompressed.
+ */
+export function readAuditHistory(auditPath: string, since?: Date): AuditRecord[] {
+  const archiveDir = auditArchiveDir(auditPath);
+  const records: AuditRecord[] = [];
+
+  if (existsSync(archiveDir)) {
+    const archives = readdirSync(archiveDir)
+      .filter((name) => ARCHIVE_PATTERN.test(name))
+      .map((name) => ({ path: join(archiveDir, name), mtime: statSync(join(archiveDir, name)).mtime }))
+      .filter((archive) => !since || archive.mtime >= since)
+      .sort((a, b) => a.mtime.getTime() - b.mtime.getTime());
+
+    for (const archive of archives) {
+      try {
+        records.push(...parseAuditLog(gunzipSync(readFileSync(archive.path)).toString("utf-8")));
+      } catch (error) {
+        // Skip unreadable archives
+      }
+    }
+  }
+
+  records.push(...readAuditLog(auditPath));
+  return records;
+}
+
+function readFirstTimestamp(auditPath: string): Date | null {
+  const buffer = Buffer.alloc(Math.min(FIRST_LINE_MAX_BYTES, statSync(auditPath).size));
+  const fd = openSync(auditPath, "r");
+  try {
+    readSync(fd, buffer, 0, buffer.length, 0);
+  } finally {
+    closeSync(fd);
+  }
+
+  const firstLine = buffer.toString("utf-8").split("\n")[0];
+  try {
+    const date = parseISO(JSON.parse(firstLine).timestamp);
+    return isValid(date) ? date : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Compress audit.jsonl into the archive directory if it is over the size or age
+ * limit. Returns the archive path, or null when no rotation was needed.
+ */
+export function rotateAuditLog(auditPath: string, options: AuditRotationOptions, now: Date = new Date()): string | null {
+  if (!existsSync(auditPath)) return null;
+
+  const size = statSync(auditPath).size;
+  if (size === 0) return null;
+
+  const oldest = size > options.maxBytes ? null : readFirstTimestamp(auditPath);
+  const tooOld = oldest !== null && differenceInCalendarDays(now, oldest) >= options.maxAgeDays;
+  if (size <= options.maxBytes && !tooOld) return null;
+
+  const archiveDir = auditArchiveDir(auditPath);
+  mkdirSync(archiveDir, { recursive: true });
+  const stamp = now.toISOString().replace(/[:.]/g, "-");
+  let pending = join(archiveDir, `audit-${stamp}.jsonl`);
+  for (let n = 1; existsSync(pending) || existsSync(`${pending}.gz`); n++) {
+    pending = join(archiveDir, `audit-${stamp}-${n}.jsonl`);
+  }
+
+  // Move the file first so writers that append next start a fresh log
+  renameSync(auditPath, pending);
+  writeFileSync(`${pending}.gz`, gzipSync(readFileSync(pending)));
+  unlinkSync(pending);
+
+  pruneAuditArchives(archiveDir, options.retentionDays, now);
+  return `${pending}.gz`;
+}
+
+/**
+ * Append a record to the audit log, rotating it first when it is due. Both run
+ * under lockPath. Returns the archive path when the log was rotated.
+ */
+export function appendAuditLog(auditPath: string, lockPath: string, record: AuditRecord, options: AuditRotationOptions): Promise<string | null> {
+  return withLock(lockPath, () => {
+    const archive = rotateAuditLog(auditPath, options);
+    appendFileSynced(auditPath, JSON.stringify(record) + "\n");
+    return archive;
+  });
+}
+
+/**
+ * Delete archives last written more than retentionDays ago. Returns the deleted paths.
+ */
+export function pruneAuditArchives(archiveDir: string, retentionDays: number, now: Date = new Date()): string[] {
+  if (!existsSync(archiveDir)) return [];
+
+  const deleted: string[] = [];
+  for (const name of readdirSync(archiveDir)) {
+    if (!ARCHIVE_PATTERN.test(name)) continue;
+    const path = join(archiveDir, name);
+    if (differenceInCalendarDays(now, statSync(path).mtime) > retentionDays) {
+      unlinkSync(path);
+      deleted.push(path);
+    }
+  }
+  return deleted;
+}
+
+export function filterAuditRecords(records: AuditRecord[], filter: AuditFilter): AuditRecord[] {
+  return records.filter((record) => {
+    if (filter.sessionID && record.sessionID !== filter.sessionID) return false;
+    if (filter.tool && record.tool.toLowerCase() !== filter.tool.toLowerCase()) return false;
+    if (filter.task && record.task?.toUpperCase() !== filter.task.toUpperCase()) return false;
+    if (filter.failedOnly && record.success) return false;
+    if (filter.since || filter.until) {
+      const date = parseISO(record.timestamp);
+      if (!isValid(date)) return false;
+      if (filter.since && date < filter.since) return false;
+      if (filter.until && date > filter.until) return false;
+    }
+    return true;
+  });
+}
+
+function groupKey(record: AuditRecord, groupBy: AuditGroupBy): string {
+  if (groupBy === "tool") return record.tool;
+  if (groupBy === "task") return record.task ?? "(no task)";
+  if (groupBy === "session") return record.sessionID ?? "(unknown session)";
+  return record.agent ?? "(unknown agent)";
+}
+
+/**
+ * Call and failure counts per group, most failures first
+ */
+export function summarizeAudit(records: AuditRecord[], groupBy: AuditGroupBy): AuditSummaryRow[] {
+  const groups = new Map<string, { calls: number; failures: number; totalMs: number; timed: number; lastFailure: string | null }>();
+
+  for (const record of records) {
+    const key = groupKey(record, groupBy);
+    const group = groups.get(key) ?? { calls: 0, failures: 0, totalMs: 0, timed: 0, lastFailure: null };
+    group.calls++;
+    if (!record.success) {
+      group.failures++;
+      if (!group.lastFailure || record.timestamp > group.lastFailure) group.lastFailure = record.timestamp;
+    }
+    if (record.durationMs !== null) {
+      group.totalMs += record.durationMs;
+      group.timed++;
+    }
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({
+      key,
+      calls: group.calls,
+      failures: group.failures,
+      avgDurationMs: group.timed > 0 ? Math.round(group.totalMs / group.timed) : null,
+      lastFailure: group.lastFailure,
+    }))
+    .sort((a, b) => b.failures - a.failures || b.calls - a.calls || a.key.localeCompare(b.key));
+}
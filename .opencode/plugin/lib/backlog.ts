@@ -0,0 +1,438 @@
+import { load, YAMLException } from "js-yaml";
+import { existsSync, readFileSync } from "fs";
+import { writeFileAtomic } from "./files";
+
+/**
+ * Typed model for .meridian/task-backlog.yaml
+ *
+ * The backlog is edited both by tools and by hand, so parsing keeps the raw
+ * lines of every entry. Serializing re-emits untouched fields verbatim and only
+ * re-renders fields whose value actually changed, which preserves comments,
+ * key ordering and hand-written flow lists like `depends_on: [TASK-001]`.
+ */
+
+export const BACKLOG_STATUSES = ["todo", "in_progress", "blocked", "done"] as const;
+export const BACKLOG_PRIORITIES = ["P0", "P1", "P2", "P3"] as const;
+
+export type BacklogStatus = (typeof BACKLOG_STATUSES)[number];
+export type BacklogPriority = (typeof BACKLOG_PRIORITIES)[number];
+
+export interface BacklogEntry {
+  id: string;
+  title: string;
+  priority?: BacklogPriority;
+  status?: BacklogStatus;
+  path?: string;
+  depends_on: string[];
+  blocked_by: string[];
+}
+
+/** Known entry keys, in the order new entries are written */
+const ENTRY_KEYS = ["id", "title", "priority", "status", "path", "depends_on", "blocked_by"] as const;
+
+interface FieldBlock {
+  key: string | null; // null for comment/blank lines that precede the next field
+  lines: string[];
+}
+
+interface BacklogItem {
+  entry: BacklogEntry;
+  original: Record<string, unknown>;
+  leading: string[];
+  fields: FieldBlock[];
+  bareDash: boolean;
+}
+
+export interface BacklogDocument {
+  header: string[];
+  tasksLine: string | null;
+  items: BacklogItem[];
+  tail: string[];
+  trailer: string[];
+  itemIndent: string;
+  fieldIndent: string;
+}
+
+const ITEM_PATTERN = /^(\s*)-(\s+|$)/;
+const FIELD_PATTERN = /^(\s*)([A-Za-z_][\w-]*)\s*:(\s|$)/;
+
+function isTrivia(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === "" || trimmed.startsWith("#");
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Normalize a depends_on/blocked_by value into a list of IDs
+ */
+function toIdList(value: unknown, field: string, where: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === "string") {
+    return value.split(/[,\s]+/).filter((part) => part.trim());
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return value as string[];
+  }
+  throw new Error(`${where}: '${field}' must be a list of task IDs`);
+}
+
+/**
+ * Validate a raw YAML mapping and convert it into a BacklogEntry
+ */
+function toEntry(raw: unknown, where: string): BacklogEntry {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`${where}: entry must be a mapping with at least an 'id' field`);
+  }
+
+  const obj = raw as Record<string, unknown>;
+  if (typeof obj.id !== "string" || !obj.id.trim()) {
+    throw new Error(`${where}: entry is missing a string 'id'`);
+  }
+
+  if (obj.status !== undefined && !BACKLOG_STATUSES.includes(obj.status as BacklogStatus)) {
+    throw new Error(
+      `${where}: invalid status '${obj.status}' for ${obj.id} (expected one of ${BACKLOG_STATUSES.join(", ")})`
+    );
+  }
+
+  if (obj.priority !== undefined && !BACKLOG_PRIORITIES.includes(obj.priority as BacklogPriority)) {
+    throw new Error(
+      `${where}: invalid priority '${obj.priority}' for ${obj.id} (expected one of ${BACKLOG_PRIORITIES.join(", ")})`
+    );
+  }
+
+  return {
+    id: obj.id,
+    title: obj.title === undefined || obj.title === null ? "" : String(obj.title),
+    priority: obj.priority as BacklogPriority | undefined,
+    status: obj.status as BacklogStatus | undefined,
+    path: obj.path === undefined || obj.path === null ? undefined : String(obj.path),
+    depends_on: toIdList(obj.depends_on, "depends_on", where),
+    blocked_by: toIdList(obj.blocked_by, "blocked_by", where),
+  };
+}
+
+/**
+ * Parse task-backlog.yaml content into a document that can be edited and re-serialized
+ */
+export function parseBacklog(content: string, source: string = "task-backlog.yaml"): BacklogDocument {
+  let data: unknown;
+  try {
+    data = load(content);
+  } catch (error) {
+    if (error instanceof YAMLException) {
+      throw new Error(`Malformed backlog ${source} (line ${error.mark.line + 1}): ${error.reason}`);
+    }
+    throw error;
+  }
+
+  if (data !== undefined && data !== null && (typeof data !== "object" || Array.isArray(data))) {
+    throw new Error(`Malformed backlog ${source}: expected a mapping with a 'tasks' list at the top level`);
+  }
+
+  const rawTasks = data ? (data as Record<string, unknown>).tasks : undefined;
+  if (rawTasks !== undefined && rawTasks !== null && !Array.isArray(rawTasks)) {
+    throw new Error(`Malformed backlog ${source}: 'tasks' must be a list`);
+  }
+  const tasks = (rawTasks as unknown[] | null | undefined) ?? [];
+
+  const lines = content.replace(/\r\n/g, "\n").replace(/\n+$/, "").split("\n");
+  const doc: BacklogDocument = {
+    header: [],
+    tasksLine: null,
+    items: [],
+    tail: [],
+    trailer: [],
+    itemIndent: "  ",
+    fieldIndent: "    ",
+  };
+
+  const tasksIdx = lines.findIndex((line) => /^tasks\s*:/.test(line));
+  if (tasksIdx === -1) {
+    doc.header = content.trim() ? lines : [];
+    return doc;
+  }
+
+  doc.header = lines.slice(0, tasksIdx);
+  doc.tasksLine = lines[tasksIdx];
+
+  // Find where the tasks block ends (next top-level key)
+  let end = tasksIdx + 1;
+  while (end < lines.length) {
+    const line = lines[end];
+    if (!isTrivia(line) && indentOf(line) === 0 && !ITEM_PATTERN.test(line)) break;
+    end++;
+  }
+  doc.trailer = lines.slice(end);
+
+  // Split the block into items; trivia before an item belongs to that item
+  let pending: string[] = [];
+  let current: { dashLine: string; body: string[] } | null = null;
+  const rawItems: { leading: string[]; dashLine: string; body: string[]; lineNo: number }[] = [];
+  let itemIndent: number | null = null;
+
+  for (let i = tasksIdx + 1; i < end; i++) {
+    const line = lines[i];
+    const itemMatch = line.match(ITEM_PATTERN);
+
+    if (itemMatch && (itemIndent === null || itemMatch[1].length === itemIndent)) {
+      itemIndent = itemMatch[1].length;
+      // Trailing trivia of the previous item moves to the next item's leading lines
+      const carried: string[] = [];
+      if (current) {
+        while (current.body.length > 0 && isTrivia(current.body[current.body.length - 1])) {
+          carried.unshift(current.body.pop()!);
+        }
+      }
+      current = { dashLine: line, body: [] };
+      rawItems.push({ leading: [...pending, ...carried], dashLine: line, body: current.body, lineNo: i + 1 });
+      pending = [];
+      continue;
+    }
+
+    if (current) {
+      current.body.push(line);
+    } else if (isTrivia(line)) {
+      pending.push(line);
+    } else {
+      throw new Error(`Malformed backlog ${source} (line ${i + 1}): expected a '- id:' entry under 'tasks'`);
+    }
+  }
+
+  if (current) {
+    while (current.body.length > 0 && isTrivia(current.body[current.body.length - 1])) {
+      pending.unshift(current.body.pop()!);
+    }
+  }
+  doc.tail = pending;
+
+  if (rawItems.length !== tasks.length) {
+    throw new Error(
+      `Malformed backlog ${source}: found ${tasks.length} task(s) but could not locate them line by line. Use one '- id: ...' block per task.`
+    );
+  }
+
+  if (itemIndent !== null) {
+    doc.itemIndent = " ".repeat(itemIndent);
+  }
+
+  const seen = new Set<string>();
+  rawItems.forEach((rawItem, index) => {
+    const where = `Malformed backlog ${source} (line ${rawItem.lineNo})`;
+    const entry = toEntry(tasks[index], where);
+    if (seen.has(entry.id)) {
+      throw new Error(`${where}: duplicate task id '${entry.id}'`);
+    }
+    seen.add(entry.id);
+
+    const dashMatch = rawItem.dashLine.match(ITEM_PATTERN)!;
+    const bareDash = rawItem.dashLine.trim() === "-";
+    const fieldIndent = " ".repeat(dashMatch[0].length);
+    if (index === 0 && !bareDash) {
+      doc.fieldIndent = fieldIndent;
+    }
+
+    // Normalize the dash line so every field line uses the field indent
+    const bodyLines = bareDash ? rawItem.body : [fieldIndent + rawItem.dashLine.slice(dashMatch[0].length), ...rawItem.body];
+    const fieldCol = bareDash
+      ? Math.min(...rawItem.body.filter((line) => !isTrivia(line)).map(indentOf))
+      : fieldIndent.length;
+
+    const fields: FieldBlock[] = [];
+    let leadingTrivia: string[] = [];
+    for (const line of bodyLines) {
+      const fieldMatch = line.match(FIELD_PATTERN);
+      if (fieldMatch && fieldMatch[1].length === fieldCol) {
+        if (leadingTrivia.length > 0) {
+          fields.push({ key: null, lines: leadingTrivia });
+          leadingTrivia = [];
+        }
+        fields.push({ key: fieldMatch[2], lines: [line] });
+      } else if (isTrivia(line) && indentOf(line) <= fieldCol) {
+        leadingTrivia.push(line);
+      } else if (fields.length > 0) {
+        fields[fields.length - 1].lines.push(...leadingTrivia, line);
+        leadingTrivia = [];
+      } else {
+        leadingTrivia.push(line);
+      }
+    }
+    if (leadingTrivia.length > 0) {
+      fields.push({ key: null, lines: leadingTrivia });
+    }
+
+    doc.items.push({
+      entry,
+      original: tasks[index] as Record<string, unknown>,
+      leading: rawItem.leading,
+      fields,
+      bareDash,
+    });
+  });
+
+  return doc;
+}
+
+/**
+ * Render a scalar so it round-trips as the same string in YAML
+ */
+export function renderScalar(value: string): string {
+  const plainSafe = /^[A-Za-z0-9_./-][A-Za-z0-9_./ -]*$/.test(value) &&
+    !/\s$/.test(value) &&
+    !/^(true|false|yes|no|on|off|null|~|[-+]?[\d.]+(e[-+]?\d+)?)$/i.test(value);
+  return plainSafe ? value : JSON.stringify(value);
+}
+
+function renderField(indent: string, key: string, value: unknown): string {
+  if (Array.isArray(value)) {
+    return `${indent}${key}: [${value.map((item) => renderScalar(String(item))).join(", ")}]`;
+  }
+  if (key === "title" || key === "path") {
+    return `${indent}${key}: ${JSON.stringify(String(value))}`;
+  }
+  return `${indent}${key}: ${renderScalar(String(value))}`;
+}
+
+/**
+ * Value of a known field as it should be written, or undefined to omit it
+ */
+function fieldValue(entry: BacklogEntry, key: (typeof ENTRY_KEYS)[number]): unknown {
+  const value = entry[key];
+  if (Array.isArray(value) && value.length === 0) return undefined;
+  if (value === "" && key !== "title") return undefined;
+  return value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function serializeItem(doc: BacklogDocument, item: BacklogItem): string[] {
+  const out: string[] = [...item.leading];
+  const emitted = new Set<string>();
+  const body: string[] = [];
+
+  for (const block of item.fields) {
+    if (block.key === null || !(ENTRY_KEYS as readonly string[]).includes(block.key)) {
+      // Comments and unknown keys are kept exactly as written
+      body.push(...block.lines);
+      if (block.key) emitted.add(block.key);
+      continue;
+    }
+
+    const key = block.key as (typeof ENTRY_KEYS)[number];
+    emitted.add(key);
+    const value = fieldValue(item.entry, key);
+    const originalValue = key === "depends_on" || key === "blocked_by"
+      ? toIdList(item.original[key], key, "")
+      : item.original[key];
+
+    if (sameValue(item.entry[key], originalValue)) {
+      body.push(...block.lines);
+    } else if (value !== undefined) {
+      body.push(renderField(doc.fieldIndent, key, value));
+    }
+  }
+
+  for (const key of ENTRY_KEYS) {
+    if (emitted.has(key)) continue;
+    const value = fieldValue(item.entry, key);
+    if (value !== undefined) {
+      body.push(renderField(doc.fieldIndent, key, value));
+    }
+  }
+
+  if (item.bareDash) {
+    out.push(`${doc.itemIndent}-`, ...body);
+  } else if (body.length > 0) {
+    out.push(`${doc.itemIndent}- ${body[0].slice(doc.fieldIndent.length)}`, ...body.slice(1));
+  }
+
+  return out;
+}
+
+/**
+ * Serialize a backlog document back to YAML text
+ */
+export function serializeBacklog(doc: BacklogDocument): string {
+  const out: string[] = [...doc.header];
+
+  if (doc.items.length === 0) {
+    out.push("tasks: []");
+  } else {
+    out.push(doc.tasksLine && !/\[\s*\]/.test(doc.tasksLine) ? doc.tasksLine : "tasks:");
+    for (const item of doc.items) {
+      out.push(...serializeItem(doc, item));
+    }
+  }
+
+  out.push(...doc.tail, ...doc.trailer);
+  return out.join("\n").replace(/\n+$/, "") + "\n";
+}
+
+/**
+ * Read and parse the backlog; a missing file yields an empty document
+ */
+export function readBacklog(backlogPath: string): BacklogDocument {
+  if (!existsSync(backlogPath)) {
+    return parseBacklog("", backlogPath);
+  }
+  return parseBacklog(readFileSync(backlogPath, "utf-8"), backlogPath);
+}
+
+/**
+ * Serialize and write the backlog to disk
+ */
+export function writeBacklog(backlogPath: string, doc: BacklogDocument): void {
+  writeFileAtomic(backlogPath, serializeBacklog(doc));
+}
+
+/**
+ * All entries in file order
+ */
+export function listBacklogEntries(doc: BacklogDocument): BacklogEntry[] {
+  return doc.items.map((item) => item.entry);
+}
+
+export function findBacklogEntry(doc: BacklogDocument, taskId: string): BacklogEntry | undefined {
+  return doc.items.find((item) => item.entry.id === taskId)?.entry;
+}
+
+/**
+ * Merge fields into an existing entry, or append a new entry
+ */
+export function upsertBacklogEntry(
+  doc: BacklogDocument,
+  update: Partial<BacklogEntry> & { id: string }
+): BacklogEntry {
+  const where = `Invalid backlog entry for ${update.id}`;
+  const existing = doc.items.find((item) => item.entry.id === update.id);
+
+  if (existing) {
+    const merged = { ...existing.entry };
+    for (const key of ENTRY_KEYS) {
+      if (update[key] !== undefined) {
+        (merged as Record<string, unknown>)[key] = update[key];
+      }
+    }
+    existing.entry = toEntry(merged, where);
+    return existing.entry;
+  }
+
+  const entry = toEntry({ title: "", ...update }, where);
+  doc.items.push({ entry, original: {}, leading: [], fields: [], bareDash: false });
+  return entry;
+}
+
+/**
+ * Remove an entry (with its leading comments). Returns false if it was not present.
+ */
+export function removeBacklogEntry(doc: BacklogDocument, taskId: string): boolean {
+  const index = doc.items.findIndex((item) => item.entry.id === taskId);
+  if (index === -1) return false;
+  doc.items.splice(index, 1);
+  return true;
+}
@@ -0,0 +1,257 @@
+import { load, YAMLException } from "js-yaml";
+import { existsSync, readFileSync } from "fs";
+import { isAbsolute, join } from "path";
+import { type PolicyRule, parsePolicies } from "./policy";
+import { type TddEnforcement, TDD_ENFORCEMENT, DEFAULT_TEST_PATTERNS } from "./tdd";
+
+/**
+ * Typed loader for .meridian/config.yaml
+ *
+ * Every setting has a default. Unknown keys and invalid values never stop the
+ * plugins: the default is used and the problem is returned in `issues` so it
+ * can be reported back into the session.
+ */
+
+export const PROJECT_TYPES = ["hackathon", "standard", "production"] as const;
+
+export type ProjectType = (typeof PROJECT_TYPES)[number];
+
+export interface MeridianConfig {
+  projectType: ProjectType;
+  tddMode: boolean;
+  tdd: {
+    /** What the tool hooks do when source is edited before a failing test (tdd_mode only) */
+    enforcement: TddEnforcement;
+    /** Globs (relative to the project root) that identify test files */
+    testPatterns: string[];
+  };
+  memory: {
+    /** Entries newer than this are injected in full (ranked and budgeted) */
+    recentDays: number;
+    /** Maximum characters of memory injected into a session */
+    budgetChars: number;
+  };
+  hooks: {
+    idleReminder: boolean;
+    contextReview: boolean;
+  };
+  audit: {
+    /** Characters of tool output kept per audit record */
+    outputMaxChars: number;
+    /** Rotate audit.jsonl when it is larger than this */
+    maxSizeKb: number;
+    /** Rotate audit.jsonl when its oldest record is this old */
+    maxAgeDays: number;
+    /** Delete rotated archives after this many days */
+    retentionDays: number;
+    /** Mask secrets before writing records */
+    redact: boolean;
+  };
+  verify: {
+    /** Per-command time limit for task-verify */
+    timeoutSeconds: number;
+    /** Characters of output kept per command (the end of the output) */
+    outputMaxChars: number;
+  };
+  /** Absolute path of the tasks directory */
+  tasksDir: string;
+  /** Days a deleted task stays in the trash before it is purged */
+  trashRetentionDays: number;
+  /** Absolute path of the Architecture Decision Record directory */
+  adrDir: string;
+  /** Per-agent tool rules, first match wins */
+  policies: PolicyRule[];
+  /** Extra globs (relative to the project root) that edit tools may not write */
+  protectedPaths: string[];
+}
+
+export interface LoadedConfig {
+  config: MeridianConfig;
+  configPath: string;
+  issues: string[];
+}
+
+type Reader = (value: unknown) => { ok: true; value: unknown } | { ok: false; expected: string };
+
+const TRUE_VALUES = ["true", "yes", "on", "1"];
+const FALSE_VALUES = ["false", "no", "off", "0"];
+
+const readBoolean: Reader = (value) => {
+  if (typeof value === "boolean") return { ok: true, value };
+  const text = String(value).toLowerCase();
+  if (TRUE_VALUES.includes(text)) return { ok: true, value: true };
+  if (FALSE_VALUES.includes(text)) return { ok: true, value: false };
+  return { ok: false, expected: "true or false" };
+};
+
+const readPositiveInt: Reader = (value) =>
+  typeof value === "number" && Number.isInteger(value) && value > 0
+    ? { ok: true, value }
+    : { ok: false, expected: "a positive whole number" };
+
+const readEnum = (allowed: readonly string[]): Reader => (value) => {
+  const text = String(value).toLowerCase();
+  return allowed.includes(text) ? { ok: true, value: text } : { ok: false, expected: `one of ${allowed.join(", ")}` };
+};
+
+const readPolicies: Reader = (value) => {
+  const result = parsePolicies(value);
+  return "rules" in result
+    ? { ok: true, value: result.rules }
+    : { ok: false, expected: `a list of { agent, tool, args, action, reason } rules; ${result.error}` };
+};
+
+const readGlobList: Reader = (value) =>
+  Array.isArray(value) && value.every((item) => typeof item === "string" && item.trim())
+    ? { ok: true, value: value.map((item) => (item as string).trim().replace(/^\.\//, "")) }
+    : { ok: false, expected: "a list of path globs" };
+
+const readNonEmptyString: Reader = (value) =>
+  typeof value === "string" && value.trim() ? { ok: true, value: value.trim() } : { ok: false, expected: "a path" };
+
+/**
+ * Supported keys as they appear in config.yaml, with the reader for each.
+ * Nested keys use dots (memory.recent_days).
+ */
+const SETTINGS: Record<string, Reader> = {
+  project_type: readEnum(PROJECT_TYPES),
+  tdd_mode: readBoolean,
+  "tdd.enforcement": readEnum(TDD_ENFORCEMENT),
+  "tdd.test_patterns": readGlobList,
+  "memory.recent_days": readPositiveInt,
+  "memory.budget_chars": readPositiveInt,
+  "hooks.idle_reminder": readBoolean,
+  "hooks.context_review": readBoolean,
+  "audit.output_max_chars": readPositiveInt,
+  "audit.max_size_kb": readPositiveInt,
+  "audit.max_age_days": readPositiveInt,
+  "audit.retention_days": readPositiveInt,
+  "audit.redact": readBoolean,
+  "verify.timeout_seconds": readPositiveInt,
+  "verify.output_max_chars": readPositiveInt,
+  tasks_dir: readNonEmptyString,
+  trash_retention_days: readPositiveInt,
+  adr_dir: readNonEmptyString,
+  policies: readPolicies,
+  protected_paths: readGlobList,
+};
+
+const SECTIONS = new Set(Object.keys(SETTINGS).filter((key) => key.includes(".")).map((key) => key.split(".")[0]));
+
+export function defaultConfig(directory: string): MeridianConfig {
+  return {
+    projectType: "standard",
+    tddMode: false,
+    tdd: { enforcement: "warn", testPatterns: [...DEFAULT_TEST_PATTERNS] },
+    memory: { recentDays: 30, budgetChars: 8000 },
+    hooks: { idleReminder: true, contextReview: true },
+    audit: { outputMaxChars: 200, maxSizeKb: 5120, maxAgeDays: 30, retentionDays: 365, redact: true },
+    verify: { timeoutSeconds: 600, outputMaxChars: 2000 },
+    tasksDir: join(directory, ".meridian", "tasks"),
+    trashRetentionDays: 30,
+    adrDir: join(directory, "docs", "adr"),
+    policies: [],
+    protectedPaths: [],
+  };
+}
+
+function apply(config: MeridianConfig, directory: string, key: string, value: unknown): void {
+  switch (key) {
+    case "project_type": config.projectType = value as ProjectType; break;
+    case "tdd_mode": config.tddMode = value as boolean; break;
+    case "tdd.enforcement": config.tdd.enforcement = value as TddEnforcement; break;
+    case "tdd.test_patterns": config.tdd.testPatterns = value as string[]; break;
+    case "memory.recent_days": config.memory.recentDays = value as number; break;
+    case "memory.budget_chars": config.memory.budgetChars = value as number; break;
+    case "hooks.idle_reminder": config.hooks.idleReminder = value as boolean; break;
+    case "hooks.context_review": config.hooks.contextReview = value as boolean; break;
+    case "audit.output_max_chars": config.audit.outputMaxChars = value as number; break;
+    case "audit.max_size_kb": config.audit.maxSizeKb = value as number; break;
+    case "audit.max_age_days": config.audit.maxAgeDays = value as number; break;
+    case "audit.retention_days": config.audit.retentionDays = value as number; break;
+    case "audit.redact": config.audit.redact = value as boolean; break;
+    case "verify.timeout_seconds": config.verify.timeoutSeconds = value as number; break;
+    case "verify.output_max_chars": config.verify.outputMaxChars = value as number; break;
+    case "tasks_dir": {
+      const path = value as string;
+      config.tasksDir = isAbsolute(path) ? path : join(directory, path);
+      break;
+    }
+    case "trash_retention_days": config.trashRetentionDays = value as number; break;
+    case "adr_dir": {
+      const path = value as string;
+      config.adrDir = isAbsolute(path) ? path : join(directory, path);
+      break;
+    }
+    case "policies": config.policies = value as PolicyRule[]; break;
+    case "protected_paths": config.protectedPaths = value as string[]; break;
+  }
+}
+
+/**
+ * Load .meridian/config.yaml for a project directory
+ */
+export function loadMeridianConfig(directory: string): LoadedConfig {
+  const configPath = join(directory, ".meridian", "config.yaml");
+  const config = defaultConfig(directory);
+  const issues: string[] = [];
+
+  if (!existsSync(configPath)) {
+    return { config, configPath, issues };
+  }
+
+  let data: unknown;
+  try {
+    data = load(readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    const detail = error instanceof YAMLException
+      ? `line ${error.mark.line + 1}: ${error.reason}`
+      : String(error);
+    issues.push(`config.yaml could not be parsed (${detail}); using defaults for every setting`);
+    return { config, configPath, issues };
+  }
+
+  if (data === undefined || data === null) {
+    return { config, configPath, issues };
+  }
+
+  if (typeof data !== "object" || Array.isArray(data)) {
+    issues.push("config.yaml must be a mapping of settings; using defaults for every setting");
+    return { config, configPath, issues };
+  }
+
+  // Flatten one level of sections into dotted keys
+  const flat: [string, unknown][] = [];
+  for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+    if (SECTIONS.has(key)) {
+      if (value === null || value === undefined) continue;
+      if (typeof value !== "object" || Array.isArray(value)) {
+        issues.push(`'${key}' must be a section of settings; ignored`);
+        continue;
+      }
+      for (const [child, childValue] of Object.entries(value as Record<string, unknown>)) {
+        flat.push([`${key}.${child}`, childValue]);
+      }
+    } else {
+      flat.push([key, value]);
+    }
+  }
+
+  for (const [key, value] of flat) {
+    const reader = SETTINGS[key];
+    if (!reader) {
+      issues.push(`Unknown setting '${key}' ignored (supported: ${Object.keys(SETTINGS).join(", ")})`);
+      continue;
+    }
+    if (value === null || value === undefined) continue;
+
+    const result = reader(value);
+    if (result.ok) {
+      apply(config, directory, key, result.value);
+    } else {
+      issues.push(`Invalid value for '${key}': ${JSON.stringify(value)} (expected ${result.expected}); using the default`);
+    }
+  }
+
+  return { config, configPath, issues };
+}
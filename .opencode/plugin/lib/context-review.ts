@@ -0,0 +1,62 @@
+import { existsSync, readdirSync } from "fs";
+import { isAbsolute, join, resolve } from "path";
+import { readBacklog, listBacklogEntries } from "./backlog";
+
+/**
+ * Per-session checklist of files to read after session start or compaction
+ *
+ * The checklist holds the code guides, the backlog, relevant-docs.md and every
+ * file in the folders of uncompleted tasks. Read tool calls tick files off;
+ * edit tools and shell commands that write files are blocked until the list is
+ * empty. Read-only tools always pass.
+ */
+
+export const READ_TOOLS = ["read"];
+
+/**
+ * Absolute paths of the files a session must read before editing
+ */
+export function buildReviewChecklist(options: {
+  meridianDir: string;
+  tasksDir: string;
+  codeGuideFiles: string[];
+  extraFiles?: string[];
+}): string[] {
+  const { meridianDir, tasksDir } = options;
+  const files = [
+    ...options.codeGuideFiles,
+    ...(options.extraFiles ?? []),
+    join(meridianDir, "task-backlog.yaml"),
+    join(meridianDir, "relevant-docs.md"),
+  ];
+
+  try {
+    for (const entry of listBacklogEntries(readBacklog(join(meridianDir, "task-backlog.yaml")))) {
+      if (entry.status === "done") continue;
+      const taskDir = join(tasksDir, entry.id);
+      if (!existsSync(taskDir)) continue;
+      for (const item of readdirSync(taskDir, { withFileTypes: true })) {
+        if (item.isFile()) files.push(join(taskDir, item.name));
+      }
+    }
+  } catch (error) {
+    // A malformed backlog is reported elsewhere; the guides and backlog file are still required
+  }
+
+  return [...new Set(files)].filter((file) => existsSync(file));
+}
+
+/**
+ * Remove a file read by the agent from the pending list
+ */
+export function tickReviewFile(pending: string[], filePath: string, directory: string): string[] {
+  const path = isAbsolute(filePath) ? resolve(filePath) : resolve(directory, filePath);
+  return pending.filter((file) => file !== path);
+}
+
+/**
+ * Files still to read; files deleted since the checklist was built no longer count
+ */
+export function remainingReviewFiles(pending: string[]): string[] {
+  return pending.filter((file) => existsSync(file));
+}
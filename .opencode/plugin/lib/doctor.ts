@@ -0,0 +1,309 @@
+import { existsSync, readFileSync } from "fs";
+import { isAbsolute, join, relative } from "path";
+import { load } from "js-yaml";
+import {
+  type BacklogEntry,
+  type BacklogPriority,
+  type BacklogStatus,
+  BACKLOG_PRIORITIES,
+  BACKLOG_STATUSES,
+  readBacklog,
+  writeBacklog,
+  listBacklogEntries,
+  upsertBacklogEntry,
+} from "./backlog";
+import { withLock, writeFileAtomic } from "./files";
+import { parseMemoryLog } from "./memory";
+import { readTaskArchive } from "./task-archive";
+import { type TaskBrief, listTaskIds, readTaskBrief, setBriefFields, taskBriefPath } from "./tasks";
+import { OPERATING_MANUAL, RELEVANT_DOCS, TEMPLATE_DIR, codeGuideFiles, copyDefault, copyTaskTemplate } from "./scaffold";
+import type { Workspace } from "./workspace";
+
+/**
+ * Health checks for `meridian doctor`
+ *
+ * Each finding describes one problem in .meridian/ and, when it can be fixed
+ * safely, a repair. Repairs take the same locks as the tools and re-read the
+ * files they change, so they can run one after another in any order. Problems
+ * that need a human decision (which of two backlog entries is right) have no
+ * repair and say what to do instead.
+ */
+
+export interface DoctorFinding {
+  check: "guides" | "memory" | "backlog" | "tasks";
+  problem: string;
+  /** What the repair does, or null when the problem has to be fixed by hand */
+  fix: string | null;
+  /** Apply the fix; returns what was changed */
+  repair?: () => Promise<string>;
+}
+
+const MEMORY_ID = /^mem-(\d{4,})$/;
+
+function lineList(lines: number[]): string {
+  return lines.length > 10 ? `${lines.slice(0, 10).join(", ")}, …` : lines.join(", ");
+}
+
+/**
+ * Paths listed in relevant-docs.md: list items, optionally in backticks or as a Markdown link
+ */
+function relevantDocPaths(content: string): string[] {
+  const paths: string[] = [];
+  for (const line of content.split("\n")) {
+    const item = line.match(/^\s*(?:[-*+]|\d+\.)\s+(.+)$/);
+    if (!item) continue;
+    const link = item[1].match(/\]\(([^)\s]+)\)/) ?? item[1].match(/`([^`]+)`/) ?? item[1].match(/^(\S+)/);
+    const path = link?.[1];
+    if (path && !path.includes("://") && !path.startsWith("#")) paths.push(path.replace(/#.*$/, ""));
+  }
+  return paths;
+}
+
+function checkGuides(workspace: Workspace, defaults: string | null): DoctorFinding[] {
+  const { directory, meridianDir, config } = workspace;
+  const findings: DoctorFinding[] = [];
+  const required = [...codeGuideFiles(meridianDir, config), join(meridianDir, OPERATING_MANUAL), join(meridianDir, RELEVANT_DOCS)];
+
+  for (const path of required) {
+    if (existsSync(path)) continue;
+    const file = relative(meridianDir, path);
+    const source = defaults ? join(defaults, file) : null;
+    const canCopy = source !== null && existsSync(source);
+    findings.push({
+      check: "guides",
+      problem: `${relative(directory, path)} is missing; sessions are told to read it`,
+      fix: canCopy ? `Copy the default ${file} from ${defaults}` : null,
+      repair: canCopy
+        ? async () => (copyDefault(source, path) ? `Restored ${relative(directory, path)}` : `${relative(directory, path)} exists now; left alone`)
+        : undefined,
+    });
+  }
+
+  const templateDir = join(config.tasksDir, TEMPLATE_DIR);
+  if (!existsSync(templateDir)) {
+    const canCopy = defaults !== null && existsSync(join(defaults, "tasks", TEMPLATE_DIR));
+    findings.push({
+      check: "guides",
+      problem: `${relative(directory, templateDir)}/ is missing; new tasks cannot be created`,
+      fix: canCopy ? `Copy the default ${TEMPLATE_DIR} from ${defaults}` : null,
+      repair: canCopy
+        ? async () => `Restored ${copyTaskTemplate(defaults, config.tasksDir).length} template file(s) in ${relative(directory, templateDir)}/`
+        : undefined,
+    });
+  }
+
+  const relevantDocs = join(meridianDir, RELEVANT_DOCS);
+  if (existsSync(relevantDocs)) {
+    for (const path of relevantDocPaths(readFileSync(relevantDocs, "utf-8"))) {
+      if (existsSync(isAbsolute(path) ? path : join(directory, path))) continue;
+      findings.push({
+        check: "guides",
+        problem: `${RELEVANT_DOCS} lists ${path}, which does not exist. Remove the line or restore the file`,
+        fix: null,
+      });
+    }
+  }
+
+  return findings;
+}
+
+function checkMemory(workspace: Workspace): DoctorFinding[] {
+  const { memoryPath, memoryLockPath } = workspace;
+  if (!existsSync(memoryPath)) return [];
+
+  const findings: DoctorFinding[] = [];
+  const content = readFileSync(memoryPath, "utf-8");
+  const invalid = parseMemoryLog(content).invalidLines;
+  const linesById = new Map<string, number[]>();
+  content.split("\n").forEach((line, index) => {
+    const record = parseRecord(line);
+    if (typeof record?.id === "string" && record.event === undefined) {
+      linesById.set(record.id, [...(linesById.get(record.id) ?? []), index + 1]);
+    }
+  });
+
+  if (invalid.length > 0) {
+    findings.push({
+      check: "memory",
+      problem: `memory.jsonl has ${invalid.length} line(s) that are not valid JSON records (line ${lineList(invalid)})`,
+      fix: "Remove them from memory.jsonl (the original file is kept as memory.jsonl.bak)",
+      repair: () => withLock(memoryLockPath, () => {
+        const current = readFileSync(memoryPath, "utf-8");
+        const drop = new Set(parseMemoryLog(current).invalidLines);
+        const lines = current.split("\n");
+        writeFileAtomic(`${memoryPath}.bak`, current);
+        writeFileAtomic(memoryPath, lines.filter((line, index) => !drop.has(index + 1)).join("\n"));
+        return `Removed ${drop.size} line(s) from memory.jsonl; the original is in memory.jsonl.bak`;
+      }),
+    });
+  }
+
+  for (const [id, lines] of linesById) {
+    if (lines.length < 2) continue;
+    findings.push({
+      check: "memory",
+      problem: `${id} is used by ${lines.length} entries (lines ${lineList(lines)})`,
+      fix: "Give the later entries new IDs; lifecycle events keep pointing at the first",
+      repair: () => withLock(memoryLockPath, () => renumberMemory(memoryPath, id)),
+    });
+  }
+
+  return findings;
+}
+
+function parseRecord(line: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(line);
+    return value && typeof value === "object" && !Array.isArray(value) ? value : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Give every entry after the first one with this ID the next free memory ID
+ */
+function renumberMemory(memoryPath: string, id: string): string {
+  const lines = readFileSync(memoryPath, "utf-8").split("\n");
+  let maxNum = 0;
+  for (const line of lines) {
+    const match = String(parseRecord(line)?.id ?? "").match(MEMORY_ID);
+    if (match) maxNum = Math.max(maxNum, parseInt(match[1], 10));
+  }
+
+  const renamed: string[] = [];
+  let seen = false;
+  const updated = lines.map((line) => {
+    const record = parseRecord(line);
+    if (record?.id !== id || record.event !== undefined) return line;
+    if (!seen) {
+      seen = true;
+      return line;
+    }
+    const newId = `mem-${(++maxNum).toString().padStart(4, "0")}`;
+    renamed.push(newId);
+    return JSON.stringify({ ...record, id: newId });
+  });
+
+  if (renamed.length === 0) return `${id} is no longer duplicated; nothing changed`;
+  writeFileAtomic(memoryPath, updated.join("\n"));
+  return `Renumbered ${renamed.length} later ${id} entr${renamed.length === 1 ? "y" : "ies"} to ${renamed.join(", ")}`;
+}
+
+/**
+ * IDs that appear more than once in the raw backlog YAML
+ */
+function duplicateBacklogIds(backlogPath: string): string[] {
+  try {
+    const data = load(readFileSync(backlogPath, "utf-8")) as { tasks?: unknown } | null;
+    const ids = (Array.isArray(data?.tasks) ? data.tasks : []).map((task) => (task as { id?: unknown } | null)?.id).filter((id) => typeof id === "string");
+    return [...new Set(ids.filter((id, index) => ids.indexOf(id) !== index))] as string[];
+  } catch (error) {
+    return [];
+  }
+}
+
+function checkTasks(workspace: Workspace, templateAvailable: boolean): DoctorFinding[] {
+  const { directory, backlogPath, archiveIndexPath, tasksLockPath, config } = workspace;
+  const { tasksDir } = config;
+  const findings: DoctorFinding[] = [];
+
+  let entries: BacklogEntry[];
+  try {
+    entries = listBacklogEntries(readBacklog(backlogPath));
+  } catch (error) {
+    const duplicates = existsSync(backlogPath) ? duplicateBacklogIds(backlogPath) : [];
+    for (const id of duplicates) {
+      findings.push({
+        check: "backlog",
+        problem: `${id} appears more than once in task-backlog.yaml. Keep one entry and remove or renumber the others by hand`,
+        fix: null,
+      });
+    }
+    if (duplicates.length === 0) {
+      findings.push({ check: "backlog", problem: error instanceof Error ? error.message : String(error), fix: null });
+    }
+    return findings;
+  }
+
+  const archived = new Set(readTaskArchive(archiveIndexPath).tasks.map((task) => task.id));
+  for (const entry of entries.filter((candidate) => archived.has(candidate.id))) {
+    findings.push({
+      check: "backlog",
+      problem: `${entry.id} is both in task-backlog.yaml and task-archive.yaml. Remove it from one of them by hand`,
+      fix: null,
+    });
+  }
+
+  for (const entry of entries) {
+    if (existsSync(join(tasksDir, entry.id))) continue;
+    findings.push({
+      check: "backlog",
+      problem: `${entry.id}${entry.title ? ` (${entry.title})` : ""} is in the backlog but has no folder in ${relative(directory, tasksDir)}/`,
+      fix: templateAvailable ? `Create ${entry.id}/ from ${TEMPLATE_DIR}, filled in from the backlog entry` : null,
+      repair: templateAvailable
+        ? async () => `Created ${relative(directory, await workspace.restoreTaskFolder(entry.id))}/`
+        : undefined,
+    });
+  }
+
+  const inBacklog = new Set(entries.map((entry) => entry.id));
+  for (const taskId of listTaskIds(tasksDir)) {
+    if (!inBacklog.has(taskId)) {
+      findings.push({
+        check: "tasks",
+        problem: `${relative(directory, join(tasksDir, taskId))}/ is not in the backlog`,
+        fix: `Add ${taskId} to the backlog with the title, status and priority from ${taskId}.yaml`,
+        repair: () => withLock(tasksLockPath, () => addToBacklog(workspace, taskId)),
+      });
+    }
+
+    const brief = readBriefSafe(tasksDir, taskId);
+    if (brief && typeof brief.id === "string" && brief.id !== taskId && !brief.id.includes("###")) {
+      const briefPath = taskBriefPath(tasksDir, taskId);
+      findings.push({
+        check: "tasks",
+        problem: `${relative(directory, briefPath)} has id ${brief.id}, so two tasks may share an ID`,
+        fix: `Set the id in ${taskId}.yaml to ${taskId}`,
+        repair: () => withLock(tasksLockPath, () => {
+          writeFileAtomic(briefPath, setBriefFields(readFileSync(briefPath, "utf-8"), { id: taskId }));
+          return `Set id: ${taskId} in ${relative(directory, briefPath)}`;
+        }),
+      });
+    }
+  }
+
+  return findings;
+}
+
+function readBriefSafe(tasksDir: string, taskId: string): TaskBrief | null {
+  try {
+    return readTaskBrief(tasksDir, taskId);
+  } catch (error) {
+    return null;
+  }
+}
+
+function addToBacklog(workspace: Workspace, taskId: string): string {
+  const { directory, backlogPath, config } = workspace;
+  const doc = readBacklog(backlogPath);
+  if (listBacklogEntries(doc).some((entry) => entry.id === taskId)) return `${taskId} is in the backlog now; nothing changed`;
+
+  const brief = readBriefSafe(config.tasksDir, taskId);
+  const status = BACKLOG_STATUSES.includes(brief?.status as BacklogStatus) ? (brief!.status as BacklogStatus) : "todo";
+  const priority = BACKLOG_PRIORITIES.includes(brief?.priority as BacklogPriority) ? (brief!.priority as BacklogPriority) : undefined;
+  const title = typeof brief?.title === "string" && !brief.title.startsWith("<") ? brief.title : "";
+  upsertBacklogEntry(doc, { id: taskId, title, priority, status, path: `${relative(directory, join(config.tasksDir, taskId))}/` });
+  writeBacklog(backlogPath, doc);
+  return `Added ${taskId} to the backlog as ${status}${title ? ` (${title})` : ""}`;
+}
+
+/**
+ * Run every check. defaults is the folder of default files used to restore missing guides and templates.
+ */
+export function diagnose(workspace: Workspace, defaults: string | null): DoctorFinding[] {
+  const source = defaults && existsSync(defaults) ? defaults : null;
+  const templateAvailable =
+    existsSync(join(workspace.config.tasksDir, TEMPLATE_DIR)) || (source !== null && existsSync(join(source, "tasks", TEMPLATE_DIR)));
+  return [...checkGuides(workspace, source), ...checkMemory(workspace), ...checkTasks(workspace, templateAvailable)];
+}
@@ -0,0 +1,199 @@
+import { closeSync, fsyncSync, openSync, readFileSync, renameSync, statSync, unlinkSync, writeSync } from "fs";
+import { basename, dirname, join } from "path";
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+
+/**
+ * Locked and atomic writes for Meridian state files
+ *
+ * Sessions, subagents and separate OpenCode processes can all write memory.jsonl,
+ * task-backlog.yaml and task folders. Writers that read-then-write (ID allocation,
+ * backlog rewrites) hold a lock file created with O_EXCL for the whole operation,
+ * and files are replaced by writing a temp file and renaming it over the target,
+ * so readers never see a half-written file. Appends (memory entries, context
+ * notes) go straight to the end of the file under the same locks.
+ */
+
+export interface LockOptions {
+  /** Give up waiting after this long (default 10 s) */
+  timeoutMs?: number;
+  /** A lock older than this is considered abandoned (default 30 s) */
+  staleMs?: number;
+  /** Delay between attempts (default 50 ms, plus jitter) */
+  retryMs?: number;
+}
+
+interface LockOwner {
+  pid: number;
+  host: string;
+  token: string;
+  acquiredAt: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_MS = 30_000;
+const DEFAULT_RETRY_MS = 50;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function readOwner(lockPath: string): { raw: string; owner: LockOwner | null } | null {
+  let raw: string;
+  try {
+    raw = readFileSync(lockPath, "utf-8");
+  } catch (error) {
+    return null;
+  }
+  try {
+    return { raw, owner: JSON.parse(raw) };
+  } catch (error) {
+    // Being written, or truncated by a crash
+    return { raw, owner: null };
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Remove the lock if its owner is gone: a dead process on this host, or a lock
+ * older than staleMs. Returns true if the lock was removed.
+ */
+function removeIfStale(lockPath: string, staleMs: number): boolean {
+  const current = readOwner(lockPath);
+  if (!current) return true; // Released in the meantime
+
+  let age: number;
+  try {
+    age = Date.now() - statSync(lockPath).mtimeMs;
+  } catch (error) {
+    return true;
+  }
+
+  const { owner } = current;
+  const ownerDead = !!owner && owner.host === hostname() && typeof owner.pid === "number" && !isProcessAlive(owner.pid);
+  if (!ownerDead && age <= staleMs) return false;
+
+  // Only remove the lock we inspected, not one acquired since
+  if (readOwner(lockPath)?.raw !== current.raw) return false;
+  try {
+    unlinkSync(lockPath);
+  } catch (error) {
+    // Removed by another waiter
+  }
+  return true;
+}
+
+function describeOwner(lockPath: string): string {
+  const owner = readOwner(lockPath)?.owner;
+  return owner ? `pid ${owner.pid} on ${owner.host} since ${owner.acquiredAt}` : "unknown owner";
+}
+
+/**
+ * Acquire a lock file; resolves to a release function
+ */
+export async function acquireLock(lockPath: string, options: LockOptions = {}): Promise<() => void> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const retryMs = options.retryMs ?? DEFAULT_RETRY_MS;
+  const owner: LockOwner = {
+    pid: process.pid,
+    host: hostname(),
+    token: randomBytes(8).toString("hex"),
+    acquiredAt: new Date().toISOString(),
+  };
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    try {
+      const fd = openSync(lockPath, "wx");
+      try {
+        writeSync(fd, JSON.stringify(owner));
+      } finally {
+        closeSync(fd);
+      }
+      return () => {
+        // Never remove a lock that was taken over after ours was judged stale
+        if (readOwner(lockPath)?.owner?.token === owner.token) {
+          try {
+            unlinkSync(lockPath);
+          } catch (error) {
+            // Already gone
+          }
+        }
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+
+    if (removeIfStale(lockPath, staleMs)) continue;
+
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `Timed out after ${timeoutMs} ms waiting for ${lockPath} (held by ${describeOwner(lockPath)}). If no other session is writing, delete the lock file and retry.`
+      );
+    }
+    await sleep(retryMs + Math.floor(Math.random() * retryMs));
+  }
+}
+
+/**
+ * Run fn while holding the lock file. Locks are not re-entrant: do not nest
+ * withLock calls on the same path.
+ */
+export async function withLock<T>(lockPath: string, fn: () => T | Promise<T>, options: LockOptions = {}): Promise<T> {
+  const release = await acquireLock(lockPath, options);
+  try {
+    return await fn();
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Replace a file by writing a temp file next to it and renaming it into place
+ */
+export function writeFileAtomic(path: string, content: string): void {
+  const tempPath = join(dirname(path), `.${basename(path)}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`);
+  try {
+    const fd = openSync(tempPath, "w");
+    try {
+      writeSync(fd, content);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempPath, path);
+  } catch (error) {
+    try {
+      unlinkSync(tempPath);
+    } catch (cleanupError) {
+      // Temp file was never created or already renamed
+    }
+    throw error;
+  }
+}
+
+/**
+ * Append with O_APPEND and fsync. Call while holding the file's lock, so appends
+ * never interleave; readers see the old content plus whole or partial new lines,
+ * never a torn rewrite, so the cost stays proportional to what is appended.
+ */
+export function appendFileSynced(path: string, content: string): void {
+  const buffer = Buffer.from(content, "utf-8");
+  const fd = openSync(path, "a");
+  try {
+    let written = 0;
+    while (written < buffer.length) {
+      written += writeSync(fd, buffer, written, buffer.length - written);
+    }
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+}
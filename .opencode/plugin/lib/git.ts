@@ -0,0 +1,105 @@
+import { execFileSync } from "child_process";
+
+/**
+ * Read-only queries against the local git repository
+ *
+ * Commits are tied to tasks by the TASK-### IDs in their messages. Everything
+ * runs `git` in the worktree; when it is not a repository (or git is missing)
+ * the functions return null/empty results instead of throwing.
+ */
+
+export interface GitRef {
+  /** null when HEAD is detached */
+  branch: string | null;
+  head: string;
+}
+
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  date: string;
+  subject: string;
+  /** TASK-### IDs mentioned in the subject or body */
+  taskIds: string[];
+}
+
+const TASK_ID_PATTERN = /\bTASK-\d{3,}\b/g;
+const GIT_TIMEOUT_MS = 10000;
+const FIELD = "\x1f";
+const RECORD = "\x1e";
+const LOG_FORMAT = `--format=%H${FIELD}%h${FIELD}%aI${FIELD}%s${FIELD}%b${RECORD}`;
+
+function git(cwd: string, args: string[]): string | null {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      encoding: "utf-8",
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: 32 * 1024 * 1024,
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+  } catch (error) {
+    return null;
+  }
+}
+
+export function taskIdsIn(text: string): string[] {
+  return [...new Set(text.match(TASK_ID_PATTERN) ?? [])];
+}
+
+function parseLog(output: string): GitCommit[] {
+  return output
+    .split(RECORD)
+    .map((record) => record.replace(/^\n/, ""))
+    .filter((record) => record.includes(FIELD))
+    .map((record) => {
+      const [hash, shortHash, date, subject, body = ""] = record.split(FIELD);
+      return { hash, shortHash, date, subject, taskIds: taskIdsIn(`${subject}\n${body}`) };
+    });
+}
+
+export function isGitRepository(cwd: string): boolean {
+  return git(cwd, ["rev-parse", "--is-inside-work-tree"])?.trim() === "true";
+}
+
+/**
+ * Current branch and short HEAD hash, or null outside a repository or before the first commit
+ */
+export function currentGitRef(cwd: string): GitRef | null {
+  const head = git(cwd, ["rev-parse", "--short", "HEAD"])?.trim();
+  if (!head) return null;
+
+  const branch = git(cwd, ["rev-parse", "--abbrev-ref", "HEAD"])?.trim();
+  return { branch: branch && branch !== "HEAD" ? branch : null, head };
+}
+
+/**
+ * Commits on HEAD and local branches whose message mentions a task, newest first.
+ * With taskId, only commits mentioning that task.
+ */
+export function findTaskCommits(cwd: string, taskId?: string): GitCommit[] {
+  const pattern = taskId ? `\\b${taskId}\\b` : "TASK-[0-9]{3,}";
+  const output = git(cwd, ["log", "HEAD", "--branches", "-E", `--grep=${pattern}`, LOG_FORMAT]);
+  if (!output) return [];
+
+  const commits = parseLog(output);
+  return taskId ? commits.filter((commit) => commit.taskIds.includes(taskId)) : commits.filter((commit) => commit.taskIds.length > 0);
+}
+
+/**
+ * A single commit by hash, branch or other revision
+ */
+export function resolveCommit(cwd: string, revision: string): GitCommit | null {
+  if (revision.startsWith("-")) return null;
+  const output = git(cwd, ["log", "-1", LOG_FORMAT, `${revision}^{commit}`, "--"]);
+  return output ? parseLog(output)[0] ?? null : null;
+}
+
+/**
+ * The commit that added a file (following renames), and every commit that touched it, newest first
+ */
+export function fileHistory(cwd: string, path: string): { introducedBy: GitCommit | null; commits: GitCommit[] } {
+  const output = git(cwd, ["log", "--follow", LOG_FORMAT, "--", path]);
+  const commits = output ? parseLog(output) : [];
+  return { introducedBy: commits[commits.length - 1] ?? null, commits };
+}
@@ -0,0 +1,179 @@
+import { type BacklogEntry, BACKLOG_PRIORITIES } from "./backlog";
+
+/**
+ * Task dependency graph built from backlog depends_on/blocked_by fields
+ *
+ * Both fields are prerequisites: a task can start once every task in
+ * depends_on and blocked_by is done. blocked_by is the subset that is
+ * currently holding the task up, so it must not name a finished task.
+ */
+
+export interface GraphIssue {
+  taskId: string;
+  message: string;
+}
+
+export interface TaskGraph {
+  entries: Map<string, BacklogEntry>;
+  /** taskId → prerequisite IDs (depends_on ∪ blocked_by) */
+  prerequisites: Map<string, string[]>;
+}
+
+export function buildTaskGraph(entries: BacklogEntry[]): TaskGraph {
+  const graph: TaskGraph = { entries: new Map(), prerequisites: new Map() };
+  for (const entry of entries) {
+    graph.entries.set(entry.id, entry);
+    graph.prerequisites.set(entry.id, [...new Set([...entry.depends_on, ...entry.blocked_by])]);
+  }
+  return graph;
+}
+
+/**
+ * Find dependency cycles. Each cycle is returned as a path that starts and ends on the same ID.
+ */
+export function findCycles(graph: TaskGraph): string[][] {
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    stack.push(id);
+
+    for (const dep of graph.prerequisites.get(id) ?? []) {
+      if (!graph.entries.has(dep)) continue;
+      if (state.get(dep) === "visiting") {
+        cycles.push([...stack.slice(stack.indexOf(dep)), dep]);
+      } else if (!state.has(dep)) {
+        visit(dep);
+      }
+    }
+
+    stack.pop();
+    state.set(id, "done");
+  };
+
+  for (const id of graph.entries.keys()) {
+    if (!state.has(id)) visit(id);
+  }
+  return cycles;
+}
+
+/**
+ * Check references, consistency and cycles.
+ * knownIds may include task folders that are not (yet) in the backlog.
+ */
+export function validateTaskGraph(graph: TaskGraph, knownIds: Set<string> = new Set()): GraphIssue[] {
+  const issues: GraphIssue[] = [];
+
+  for (const entry of graph.entries.values()) {
+    for (const [field, ids] of [["depends_on", entry.depends_on], ["blocked_by", entry.blocked_by]] as const) {
+      for (const dep of ids) {
+        if (dep === entry.id) {
+          issues.push({ taskId: entry.id, message: `${entry.id} lists itself in ${field}` });
+        } else if (!graph.entries.has(dep) && !knownIds.has(dep)) {
+          issues.push({ taskId: entry.id, message: `${entry.id} ${field} references unknown task ${dep}` });
+        }
+      }
+    }
+
+    for (const dep of entry.blocked_by) {
+      if (graph.entries.get(dep)?.status === "done") {
+        issues.push({
+          taskId: entry.id,
+          message: `${entry.id} is blocked_by ${dep}, which is already done (move it to depends_on or remove it)`,
+        });
+      }
+    }
+  }
+
+  for (const cycle of findCycles(graph)) {
+    const message = `Dependency cycle: ${cycle.join(" → ")}`;
+    for (const id of new Set(cycle)) {
+      issues.push({ taskId: id, message });
+    }
+  }
+
+  return issues;
+}
+
+function priorityRank(entry: BacklogEntry): number {
+  const rank = entry.priority ? BACKLOG_PRIORITIES.indexOf(entry.priority) : -1;
+  return rank === -1 ? BACKLOG_PRIORITIES.length : rank;
+}
+
+/**
+ * Open tasks whose prerequisites are all done, highest priority first (backlog order breaks ties)
+ */
+export function nextActionableTasks(graph: TaskGraph): BacklogEntry[] {
+  const order = [...graph.entries.keys()];
+
+  return [...graph.entries.values()]
+    .filter((entry) => entry.status === undefined || entry.status === "todo" || entry.status === "in_progress")
+    .filter((entry) =>
+      (graph.prerequisites.get(entry.id) ?? []).every((dep) => graph.entries.get(dep)?.status === "done")
+    )
+    .sort((a, b) => priorityRank(a) - priorityRank(b) || order.indexOf(a.id) - order.indexOf(b.id));
+}
+
+function nodeLabel(entry: BacklogEntry): string {
+  const title = entry.title ? `: ${entry.title}` : "";
+  return `${entry.id}${title} (${entry.status ?? "unknown"})`;
+}
+
+/**
+ * Render the graph as a Mermaid flowchart (prerequisite → dependent)
+ */
+export function toMermaid(graph: TaskGraph): string {
+  const nodeId = (id: string) => id.replace(/[^A-Za-z0-9_]/g, "_");
+  const lines = ["graph TD"];
+
+  for (const entry of graph.entries.values()) {
+    lines.push(`  ${nodeId(entry.id)}["${nodeLabel(entry).replace(/"/g, "#quot;")}"]`);
+  }
+
+  for (const entry of graph.entries.values()) {
+    for (const dep of entry.depends_on) {
+      lines.push(`  ${nodeId(dep)} --> ${nodeId(entry.id)}`);
+    }
+    for (const dep of entry.blocked_by) {
+      if (!entry.depends_on.includes(dep)) {
+        lines.push(`  ${nodeId(dep)} -. blocks .-> ${nodeId(entry.id)}`);
+      }
+    }
+  }
+
+  for (const entry of graph.entries.values()) {
+    if (entry.status === "done") lines.push(`  style ${nodeId(entry.id)} fill:#d4edda`);
+    if (entry.status === "blocked") lines.push(`  style ${nodeId(entry.id)} fill:#f8d7da`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render the graph as Graphviz DOT (prerequisite → dependent)
+ */
+export function toDot(graph: TaskGraph): string {
+  const quote = (value: string) => JSON.stringify(value);
+  const lines = ["digraph tasks {", "  rankdir=LR;", "  node [shape=box];"];
+
+  for (const entry of graph.entries.values()) {
+    const style = entry.status === "done" ? ", style=filled, fillcolor=\"#d4edda\"" : "";
+    lines.push(`  ${quote(entry.id)} [label=${quote(nodeLabel(entry))}${style}];`);
+  }
+
+  for (const entry of graph.entries.values()) {
+    for (const dep of entry.depends_on) {
+      lines.push(`  ${quote(dep)} -> ${quote(entry.id)};`);
+    }
+    for (const dep of entry.blocked_by) {
+      if (!entry.depends_on.includes(dep)) {
+        lines.push(`  ${quote(dep)} -> ${quote(entry.id)} [style=dashed, label="blocks"];`);
+      }
+    }
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
@@ -0,0 +1,133 @@
+import { parseISO, isValid, differenceInCalendarDays } from "date-fns";
+import { type ResolvedMemory } from "./memory";
+import { tokenize } from "./memory-search";
+import { type TaskBrief } from "./tasks";
+
+/**
+ * Selects which memory entries to inject into a session.
+ *
+ * Entries are scored against the active task(s) and packed into a character
+ * budget. Score components:
+ * - link to an active task ID or one of its linked files: +3
+ * - word overlap with the task title/objective: up to +2
+ * - each tag shared with the task: +1
+ * - importance tags (architecture, decision): +1
+ * - recency: +2, halving every 30 days
+ */
+
+export interface TaskFocus {
+  taskIds: string[];
+  text: string;
+  links: string[];
+  tags: string[];
+}
+
+export interface MemorySelection {
+  included: ResolvedMemory[];
+  omitted: ResolvedMemory[];
+}
+
+const IMPORTANT_TAGS = ["architecture", "decision"];
+const RECENCY_HALF_LIFE_DAYS = 30;
+const MAX_OMITTED_IDS = 40;
+
+/**
+ * Collect the text, links and tags of the active tasks' briefs
+ */
+export function buildTaskFocus(tasks: { id: string; title?: string; brief: TaskBrief | null }[]): TaskFocus {
+  const focus: TaskFocus = { taskIds: [], text: "", links: [], tags: [] };
+  const text: string[] = [];
+
+  for (const task of tasks) {
+    focus.taskIds.push(task.id);
+    const brief = task.brief;
+    text.push(task.title ?? "", typeof brief?.title === "string" ? brief.title : "");
+    if (typeof brief?.objective === "string") text.push(brief.objective);
+
+    // Brief links are either a flat list or grouped (files/docs)
+    const links = brief?.links;
+    const linkValues = Array.isArray(links)
+      ? links
+      : links && typeof links === "object"
+        ? Object.values(links as Record<string, unknown>).flat()
+        : [];
+    focus.links.push(...linkValues.filter((link): link is string => typeof link === "string" && !!link.trim()));
+
+    if (Array.isArray(brief?.tags)) {
+      focus.tags.push(...(brief!.tags as unknown[]).filter((tag): tag is string => typeof tag === "string"));
+    }
+  }
+
+  focus.text = text.filter(Boolean).join(" ");
+  return focus;
+}
+
+export function scoreMemory(entry: ResolvedMemory, focus: TaskFocus, now: Date = new Date()): number {
+  let score = 0;
+
+  const links = entry.links.map((link) => link.toLowerCase());
+  const targets = [...focus.taskIds, ...focus.links].map((target) => target.toLowerCase());
+  if (targets.some((target) => links.some((link) => link.includes(target) || target.includes(link)))) {
+    score += 3;
+  }
+
+  const taskTerms = new Set(tokenize(focus.text));
+  if (taskTerms.size > 0) {
+    const entryTerms = new Set(tokenize(`${entry.summary} ${entry.tags.join(" ")}`));
+    const overlap = [...taskTerms].filter((term) => entryTerms.has(term)).length;
+    score += 2 * Math.min(1, overlap / 5);
+  }
+
+  score += entry.tags.filter((tag) => focus.tags.includes(tag)).length;
+
+  if (entry.tags.some((tag) => IMPORTANT_TAGS.includes(tag))) {
+    score += 1;
+  }
+
+  const date = entry.timestamp ? parseISO(entry.timestamp) : null;
+  if (date && isValid(date)) {
+    const ageDays = Math.max(0, differenceInCalendarDays(now, date));
+    score += 2 * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+  }
+
+  return score;
+}
+
+/**
+ * Rank entries and keep the best ones whose formatted text fits in budgetChars.
+ * Lower-ranked entries that still fit are included after a larger one is skipped.
+ */
+export function selectMemoryForInjection(
+  entries: ResolvedMemory[],
+  focus: TaskFocus,
+  budgetChars: number,
+  format: (entry: ResolvedMemory) => string
+): MemorySelection {
+  const ranked = entries
+    .map((entry) => ({ entry, score: scoreMemory(entry, focus) }))
+    .sort((a, b) => b.score - a.score || (b.entry.timestamp ?? "").localeCompare(a.entry.timestamp ?? ""));
+
+  const selection: MemorySelection = { included: [], omitted: [] };
+  let used = 0;
+  for (const { entry } of ranked) {
+    const size = format(entry).length;
+    if (used + size <= budgetChars) {
+      selection.included.push(entry);
+      used += size;
+    } else {
+      selection.omitted.push(entry);
+    }
+  }
+  return selection;
+}
+
+/**
+ * Short note listing entries left out of the injected context
+ */
+export function formatOmittedNote(omitted: ResolvedMemory[], budgetChars: number): string {
+  if (omitted.length === 0) return "";
+
+  const ids = omitted.slice(0, MAX_OMITTED_IDS).map((entry) => entry.id).join(", ");
+  const more = omitted.length > MAX_OMITTED_IDS ? ` (+${omitted.length - MAX_OMITTED_IDS} more)` : "";
+  return `_${omitted.length} lower-ranked entries omitted to stay within the ${budgetChars}-character memory budget: ${ids}${more}. Load any of them with \`memory-search\` (e.g. \`memory-search({ query: "${omitted[0].id}" })\`)._`;
+}
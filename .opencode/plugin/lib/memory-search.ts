@@ -0,0 +1,304 @@
+import { closeSync, existsSync, openSync, readSync, statSync } from "fs";
+import { parseISO, isValid, endOfDay } from "date-fns";
+import { type MemoryStatus, type ResolvedMemory, applyMemoryEvent, parseMemoryLog } from "./memory";
+
+/**
+ * Ranked search over memory.jsonl
+ *
+ * Queries combine free text with filters:
+ *   tag:security link:TASK-014 since:2026-01-01 until:2026-03-31 status:deprecated postgres pooling
+ *
+ * Free text is ranked with BM25 over ID, summary, tags and links. The index is kept
+ * per memory file and only parses newly appended bytes when the file grows.
+ */
+
+export interface MemoryQuery {
+  text: string;
+  terms: string[];
+  tags: string[];
+  links: string[];
+  since?: Date;
+  until?: Date;
+  status: MemoryStatus | "all";
+}
+
+export interface MemorySearchResult {
+  entry: ResolvedMemory;
+  score: number;
+  snippet: string;
+}
+
+export interface MemoryIndex {
+  /** Bring the index up to date with the file; returns the number of entries indexed */
+  refresh(): number;
+  search(query: MemoryQuery, limit: number): MemorySearchResult[];
+}
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it", "of", "on", "or",
+  "that", "the", "this", "to", "was", "we", "with",
+]);
+
+const MEMORY_STATUSES = ["active", "superseded", "deprecated", "all"] as const;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const TAG_WEIGHT = 2;
+// Bytes at the end of the indexed prefix that are compared before reading on from it
+const TAIL_BYTES = 256;
+
+/**
+ * Lowercase, split on non-alphanumerics, drop stopwords, strip simple plurals
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !STOPWORDS.has(token))
+    .map((token) => (token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token));
+}
+
+function parseDate(value: string, key: string): Date {
+  const date = parseISO(value);
+  if (!isValid(date)) {
+    throw new Error(`Invalid date in '${key}:${value}' (use YYYY-MM-DD)`);
+  }
+  return date;
+}
+
+/**
+ * Parse the query syntax. Unknown `key:value` tokens are treated as text.
+ */
+export function parseMemoryQuery(input: string): MemoryQuery {
+  const query: MemoryQuery = { text: "", terms: [], tags: [], links: [], status: "active" };
+  const text: string[] = [];
+
+  for (const token of input.match(/\S+/g) ?? []) {
+    const match = token.match(/^(tag|link|since|until|status):(.+)$/i);
+    if (!match) {
+      text.push(token);
+      continue;
+    }
+
+    const key = match[1].toLowerCase();
+    const value = match[2];
+    if (key === "tag") {
+      query.tags.push(value.toLowerCase());
+    } else if (key === "link") {
+      query.links.push(value.toLowerCase());
+    } else if (key === "since") {
+      query.since = parseDate(value, key);
+    } else if (key === "until") {
+      query.until = endOfDay(parseDate(value, key));
+    } else {
+      const status = value.toLowerCase();
+      if (!MEMORY_STATUSES.includes(status as MemoryQuery["status"])) {
+        throw new Error(`Invalid status '${value}' (use ${MEMORY_STATUSES.join(", ")})`);
+      }
+      query.status = status as MemoryQuery["status"];
+    }
+  }
+
+  query.text = text.join(" ");
+  query.terms = [...new Set(tokenize(query.text))];
+  return query;
+}
+
+function matchesFilters(entry: ResolvedMemory, query: MemoryQuery): boolean {
+  if (query.status !== "all" && entry.status !== query.status) return false;
+
+  const tags = entry.tags.map((tag) => tag.toLowerCase());
+  if (!query.tags.every((tag) => tags.includes(tag))) return false;
+
+  const links = entry.links.map((link) => link.toLowerCase());
+  if (!query.links.every((link) => links.some((candidate) => candidate.includes(link)))) return false;
+
+  if (query.since || query.until) {
+    const date = entry.timestamp ? parseISO(entry.timestamp) : null;
+    if (!date || !isValid(date)) return false;
+    if (query.since && date < query.since) return false;
+    if (query.until && date > query.until) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Best summary line for the query, with matching words in bold
+ */
+function buildSnippet(summary: string, terms: string[], maxLength: number = 180): string {
+  const lines = summary.split("\n").map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) return "";
+
+  const termSet = new Set(terms);
+  const hits = (line: string) => tokenize(line).filter((token) => termSet.has(token)).length;
+  const best = terms.length === 0 ? lines[0] : lines.reduce((a, b) => (hits(b) > hits(a) ? b : a));
+
+  let snippet = best;
+  if (snippet.length > maxLength) {
+    // Start shortly before the first matching word
+    let offset = 0;
+    for (const word of snippet.split(/(\s+)/)) {
+      if (tokenize(word).some((token) => termSet.has(token))) break;
+      offset += word.length;
+    }
+    const start = offset >= snippet.length || offset < maxLength / 2 ? 0 : offset - Math.floor(maxLength / 3);
+    snippet = `${start > 0 ? "…" : ""}${snippet.slice(start, start + maxLength).trim()}…`;
+  }
+
+  if (terms.length === 0) return snippet;
+  return snippet.replace(/[A-Za-z0-9]+/g, (word) =>
+    tokenize(word).some((token) => termSet.has(token)) ? `**${word}**` : word
+  );
+}
+
+/**
+ * Create an incrementally refreshed BM25 index for a memory.jsonl file
+ */
+export function createMemoryIndex(memoryPath: string): MemoryIndex {
+  let offset = 0;
+  // File identity and the last indexed bytes, to notice rewrites that keep or grow the size
+  let inode = 0;
+  let tail = Buffer.alloc(0);
+  let byId = new Map<string, ResolvedMemory>();
+  let termFreqs = new Map<string, Map<string, number>>();
+  let docLengths = new Map<string, number>();
+  let docFreqs = new Map<string, number>();
+
+  const reset = () => {
+    offset = 0;
+    inode = 0;
+    tail = Buffer.alloc(0);
+    byId = new Map();
+    termFreqs = new Map();
+    docLengths = new Map();
+    docFreqs = new Map();
+  };
+
+  const unindex = (id: string) => {
+    const freqs = termFreqs.get(id);
+    if (!freqs) return;
+    for (const term of freqs.keys()) {
+      const count = (docFreqs.get(term) ?? 1) - 1;
+      if (count > 0) docFreqs.set(term, count);
+      else docFreqs.delete(term);
+    }
+    termFreqs.delete(id);
+    docLengths.delete(id);
+  };
+
+  const index = (entry: ResolvedMemory) => {
+    unindex(entry.id);
+    const tokens = [
+      ...tokenize(entry.id),
+      ...tokenize(entry.summary),
+      ...entry.tags.flatMap((tag) => Array(TAG_WEIGHT).fill(tokenize(tag)).flat()),
+      ...entry.links.flatMap((link) => tokenize(link)),
+    ];
+    const freqs = new Map<string, number>();
+    for (const token of tokens) {
+      freqs.set(token, (freqs.get(token) ?? 0) + 1);
+    }
+    for (const term of freqs.keys()) {
+      docFreqs.set(term, (docFreqs.get(term) ?? 0) + 1);
+    }
+    termFreqs.set(entry.id, freqs);
+    docLengths.set(entry.id, tokens.length);
+  };
+
+  const refresh = (): number => {
+    if (!existsSync(memoryPath)) {
+      reset();
+      return 0;
+    }
+
+    // The file is append-only. A replaced file, a smaller one or changed bytes
+    // at the end of the indexed prefix mean it was rewritten, so start over.
+    const { size, ino } = statSync(memoryPath);
+    const fd = openSync(memoryPath, "r");
+    let buffer: Buffer;
+    try {
+      if (offset > 0) {
+        const current = Buffer.alloc(tail.length);
+        const unchanged =
+          ino === inode && size >= offset && readSync(fd, current, 0, current.length, offset - tail.length) === tail.length && current.equals(tail);
+        if (!unchanged) reset();
+      }
+      inode = ino;
+      if (size === offset) return byId.size;
+      buffer = Buffer.alloc(size - offset);
+      readSync(fd, buffer, 0, buffer.length, offset);
+    } finally {
+      closeSync(fd);
+    }
+
+    // Only consume complete lines; a partially written last line is picked up next time
+    let consumed = buffer.lastIndexOf(0x0a) + 1;
+    const rest = buffer.subarray(consumed).toString("utf-8");
+    if (rest.trim()) {
+      try {
+        JSON.parse(rest);
+        consumed = buffer.length;
+      } catch (error) {
+        // Incomplete line
+      }
+    }
+    if (consumed === 0) return byId.size;
+    const chunk = buffer.subarray(0, consumed).toString("utf-8");
+    offset += consumed;
+    tail = Buffer.from(Buffer.concat([tail, buffer.subarray(0, consumed)]).subarray(-TAIL_BYTES));
+
+    const log = parseMemoryLog(chunk);
+    for (const entry of log.entries) {
+      const resolved: ResolvedMemory = { ...entry, status: "active" };
+      byId.set(entry.id, resolved);
+      index(resolved);
+    }
+    for (const event of log.events) {
+      applyMemoryEvent(byId, event);
+      const target = byId.get(event.target);
+      if (target && event.event === "amend") index(target);
+    }
+
+    return byId.size;
+  };
+
+  const search = (query: MemoryQuery, limit: number): MemorySearchResult[] => {
+    const candidates = [...byId.values()].filter((entry) => matchesFilters(entry, query));
+
+    if (query.terms.length === 0) {
+      // Filter-only query: newest first
+      return candidates
+        .sort((a, b) => (b.timestamp ?? "").localeCompare(a.timestamp ?? ""))
+        .slice(0, limit)
+        .map((entry) => ({ entry, score: 0, snippet: buildSnippet(entry.summary, []) }));
+    }
+
+    const docCount = Math.max(termFreqs.size, 1);
+    let totalLength = 0;
+    for (const length of docLengths.values()) totalLength += length;
+    const avgLength = totalLength / docCount || 1;
+
+    return candidates
+      .map((entry) => {
+        const freqs = termFreqs.get(entry.id) ?? new Map<string, number>();
+        const length = docLengths.get(entry.id) ?? 0;
+        let score = 0;
+        for (const term of query.terms) {
+          const tf = freqs.get(term) ?? 0;
+          if (tf === 0) continue;
+          const df = docFreqs.get(term) ?? 0;
+          const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+          score += idf * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + B * (length / avgLength))));
+        }
+        return { entry, score, snippet: "" };
+      })
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map((result) => ({ ...result, snippet: buildSnippet(result.entry.summary, query.terms) }));
+  };
+
+  return { refresh, search };
+}
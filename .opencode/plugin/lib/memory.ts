@@ -0,0 +1,143 @@
+import { existsSync, readFileSync } from "fs";
+
+/**
+ * Model for .meridian/memory.jsonl
+ *
+ * The file stays append-only. Besides memory entries it can contain lifecycle
+ * events that supersede, deprecate or amend an earlier entry. Events carry a
+ * `target` instead of an `id`, so ID allocation only ever sees real entries.
+ * Readers resolve both into the current effective state.
+ */
+
+export interface MemoryEntry {
+  id: string;
+  timestamp: string;
+  summary: string;
+  tags: string[];
+  links: string[];
+}
+
+export const MEMORY_EVENT_TYPES = ["supersede", "deprecate", "amend"] as const;
+
+export type MemoryEventType = (typeof MEMORY_EVENT_TYPES)[number];
+
+export interface MemoryEvent {
+  event: MemoryEventType;
+  target: string;
+  timestamp: string;
+  by?: string;
+  reason?: string;
+  summary?: string;
+  tags?: string[];
+}
+
+export type MemoryStatus = "active" | "superseded" | "deprecated";
+
+export interface ResolvedMemory extends MemoryEntry {
+  status: MemoryStatus;
+  supersededBy?: string;
+  reason?: string;
+  amendedAt?: string;
+}
+
+export interface MemoryLog {
+  entries: MemoryEntry[];
+  events: MemoryEvent[];
+  /** 1-based line numbers that are not valid JSON records */
+  invalidLines: number[];
+}
+
+function isMemoryEvent(obj: Record<string, unknown>): boolean {
+  return MEMORY_EVENT_TYPES.includes(obj.event as MemoryEventType) && typeof obj.target === "string";
+}
+
+/**
+ * Split memory.jsonl content into entries and lifecycle events
+ */
+export function parseMemoryLog(content: string): MemoryLog {
+  const log: MemoryLog = { entries: [], events: [], invalidLines: [] };
+
+  content.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let obj: unknown;
+    try {
+      obj = JSON.parse(line);
+    } catch (error) {
+      log.invalidLines.push(index + 1);
+      return;
+    }
+
+    if (!obj || typeof obj !== "object" || Array.isArray(obj)) {
+      log.invalidLines.push(index + 1);
+      return;
+    }
+
+    const record = obj as Record<string, unknown>;
+    if (isMemoryEvent(record)) {
+      log.events.push(record as unknown as MemoryEvent);
+    } else if (typeof record.id === "string") {
+      log.entries.push({
+        ...(record as unknown as MemoryEntry),
+        summary: typeof record.summary === "string" ? record.summary : "",
+        tags: Array.isArray(record.tags) ? (record.tags as string[]) : [],
+        links: Array.isArray(record.links) ? (record.links as string[]) : [],
+      });
+    } else {
+      log.invalidLines.push(index + 1);
+    }
+  });
+
+  return log;
+}
+
+export function readMemoryLog(memoryPath: string): MemoryLog {
+  if (!existsSync(memoryPath)) {
+    return { entries: [], events: [], invalidLines: [] };
+  }
+  return parseMemoryLog(readFileSync(memoryPath, "utf-8"));
+}
+
+/**
+ * Apply one lifecycle event to the resolved state. Events for unknown entries are ignored.
+ */
+export function applyMemoryEvent(byId: Map<string, ResolvedMemory>, event: MemoryEvent): void {
+  const target = byId.get(event.target);
+  if (!target) return;
+
+  if (event.event === "supersede") {
+    target.status = "superseded";
+    target.supersededBy = event.by;
+    target.reason = event.reason;
+  } else if (event.event === "deprecate") {
+    target.status = "deprecated";
+    target.reason = event.reason;
+  } else if (event.event === "amend") {
+    if (typeof event.summary === "string" && event.summary.trim()) target.summary = event.summary;
+    if (Array.isArray(event.tags)) target.tags = event.tags;
+    target.amendedAt = event.timestamp;
+  }
+}
+
+/**
+ * Apply lifecycle events in file order
+ */
+export function resolveMemory(log: MemoryLog): ResolvedMemory[] {
+  const byId = new Map<string, ResolvedMemory>();
+  for (const entry of log.entries) {
+    byId.set(entry.id, { ...entry, status: "active" });
+  }
+
+  for (const event of log.events) {
+    applyMemoryEvent(byId, event);
+  }
+
+  return [...byId.values()];
+}
+
+/**
+ * Effective memory: amended entries that have not been superseded or deprecated
+ */
+export function loadActiveMemory(memoryPath: string): ResolvedMemory[] {
+  return resolveMemory(readMemoryLog(memoryPath)).filter((entry) => entry.status === "active");
+}
@@ -0,0 +1,141 @@
+import { createHash } from "crypto";
+
+/**
+ * Per-agent tool policies from the `policies` list in .meridian/config.yaml
+ *
+ * Each rule matches an agent, a tool and optionally argument patterns, and
+ * allows, denies or asks. Rules are checked in order and the first match wins;
+ * calls that match no rule are allowed. Patterns are globs: `*` matches any
+ * text (including spaces and slashes), `?` one character. Tool and agent names
+ * match case-insensitively.
+ *
+ * "ask" stops the call until the user answers. The next user message approves
+ * it when it agrees (yes, approve, go ahead, ...) and refuses nothing; the same
+ * call may then run once.
+ *
+ *   policies:
+ *     - agent: meridian-plan
+ *       tool: [bash, edit, write, patch]
+ *       action: deny
+ *       reason: meridian-plan only plans; switch to build to change files
+ *     - agent: "*"
+ *       tool: bash
+ *       args: { command: "git push*" }
+ *       action: ask
+ */
+
+export const POLICY_ACTIONS = ["allow", "deny", "ask"] as const;
+
+export type PolicyAction = (typeof POLICY_ACTIONS)[number];
+
+export interface PolicyRule {
+  agents: string[];
+  tools: string[];
+  /** Argument name → glob matched against the argument (JSON for non-strings) */
+  args: Record<string, string>;
+  action: PolicyAction;
+  reason?: string;
+}
+
+export interface PolicyCall {
+  agent: string;
+  tool: string;
+  args: unknown;
+}
+
+function globToRegExp(pattern: string, flags: string): RegExp {
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[\\s\\S]*").replace(/\?/g, "[\\s\\S]");
+  return new RegExp(`^${source}$`, flags);
+}
+
+function toList(value: unknown): string[] | null {
+  if (value === undefined || value === null) return ["*"];
+  const items = Array.isArray(value) ? value : [value];
+  return items.length > 0 && items.every((item) => typeof item === "string" && item.trim()) ? items.map((item) => (item as string).trim()) : null;
+}
+
+/**
+ * Validate the `policies` setting. Returns the rules, or the first problem found.
+ */
+export function parsePolicies(value: unknown): { rules: PolicyRule[] } | { error: string } {
+  if (!Array.isArray(value)) return { error: "a list of rules" };
+
+  const rules: PolicyRule[] = [];
+  for (const [index, raw] of value.entries()) {
+    const at = `rule ${index + 1}`;
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { error: `${at}: a mapping with agent, tool, args, action and reason` };
+    const rule = raw as Record<string, unknown>;
+
+    const unknown = Object.keys(rule).filter((key) => !["agent", "tool", "args", "action", "reason"].includes(key));
+    if (unknown.length > 0) return { error: `${at}: unknown key(s) ${unknown.join(", ")}` };
+
+    const agents = toList(rule.agent);
+    const tools = toList(rule.tool);
+    if (!agents) return { error: `${at}: agent must be a name, a glob or a list of them` };
+    if (!tools) return { error: `${at}: tool must be a name, a glob or a list of them` };
+
+    const action = String(rule.action ?? "").toLowerCase();
+    if (!POLICY_ACTIONS.includes(action as PolicyAction)) return { error: `${at}: action must be one of ${POLICY_ACTIONS.join(", ")}` };
+
+    const args: Record<string, string> = {};
+    if (rule.args !== undefined && rule.args !== null) {
+      if (typeof rule.args !== "object" || Array.isArray(rule.args)) return { error: `${at}: args must map argument names to patterns` };
+      for (const [name, pattern] of Object.entries(rule.args as Record<string, unknown>)) {
+        if (typeof pattern !== "string" && typeof pattern !== "number" && typeof pattern !== "boolean") {
+          return { error: `${at}: args.${name} must be a pattern string` };
+        }
+        args[name] = String(pattern);
+      }
+    }
+
+    if (rule.reason !== undefined && typeof rule.reason !== "string") return { error: `${at}: reason must be text` };
+    rules.push({ agents, tools, args, action: action as PolicyAction, ...(rule.reason ? { reason: rule.reason as string } : {}) });
+  }
+  return { rules };
+}
+
+function argText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value === undefined) return "";
+  return JSON.stringify(value);
+}
+
+export function ruleMatches(rule: PolicyRule, call: PolicyCall): boolean {
+  if (!rule.agents.some((agent) => globToRegExp(agent, "i").test(call.agent))) return false;
+  if (!rule.tools.some((tool) => globToRegExp(tool, "i").test(call.tool))) return false;
+
+  const args = (call.args && typeof call.args === "object" ? call.args : {}) as Record<string, unknown>;
+  return Object.entries(rule.args).every(([name, pattern]) => name in args && globToRegExp(pattern, "").test(argText(args[name])));
+}
+
+/**
+ * First rule matching the call, or null when the call is allowed by default
+ */
+export function evaluatePolicy(rules: PolicyRule[], call: PolicyCall): PolicyRule | null {
+  return rules.find((rule) => ruleMatches(rule, call)) ?? null;
+}
+
+/**
+ * Short description of a rule for messages and the audit log
+ */
+export function describeRule(rule: PolicyRule, index: number): string {
+  const args = Object.entries(rule.args).map(([name, pattern]) => `${name}=${pattern}`).join(", ");
+  return `policies[${index}]: ${rule.action} ${rule.tools.join("|")} for ${rule.agents.join("|")}${args ? ` when ${args}` : ""}`;
+}
+
+/**
+ * Stable key for a call, so an approval only covers the exact same tool and args
+ */
+export function policyCallKey(tool: string, args: unknown): string {
+  return createHash("sha256").update(`${tool}\n${JSON.stringify(args ?? null)}`).digest("hex").slice(0, 16);
+}
+
+const APPROVAL_PATTERN = /\b(yes|yep|approved?|go ahead|proceed|allow(ed)?|ok(ay)?|sure|confirm(ed)?|do it|lgtm)\b/i;
+const REFUSAL_PATTERN = /\b(no|nope|don'?t|do not|deny|denied|stop|cancel|reject(ed)?|never|wait)\b/i;
+
+/**
+ * Whether a user message approves the pending calls
+ */
+export function isApproval(text: string): boolean {
+  return APPROVAL_PATTERN.test(text) && !REFUSAL_PATTERN.test(text);
+}
@@ -0,0 +1,176 @@
+import { isAbsolute, relative, resolve } from "path";
+
+/**
+ * Files that only the Meridian tools and hooks may write
+ *
+ * Plain edits to memory.jsonl or the backlog skip ID allocation, locking and
+ * formatting, so edit-type tool calls (and shell commands that write) aimed
+ * at these paths are rejected with the tool to use instead. Projects can add
+ * their own globs with `protected_paths`. A person can lift the protection
+ * for one turn by writing `meridian:unlock` in their message, or for a whole
+ * OpenCode process by starting it with MERIDIAN_UNLOCK=1.
+ */
+
+export interface ProtectedPath {
+  /** Glob relative to the project root */
+  pattern: string;
+  /** What to use instead of editing the file */
+  guidance: string;
+}
+
+export interface ProtectedHit {
+  path: string;
+  rule: ProtectedPath;
+}
+
+export const UNLOCK_PHRASE = "meridian:unlock";
+export const UNLOCK_ENV = "MERIDIAN_UNLOCK";
+
+// Redirect targets (">", ">>", ">|", "2>"), but not fd duplication like "2>&1"
+const SHELL_REDIRECT = /(?:^|[^<>&0-9])[0-9]?>>?\|?\s*([^\s;|&<>()]+)/g;
+// Redirects of any kind, removed before a command's operands are read
+const SHELL_REDIRECT_PART = /[0-9]?(?:>&|<&|>>?\|?|<<?<?)\s*[^\s;|&<>()]+/g;
+// Separators between simple commands
+const SHELL_SEPARATOR = /&&|\|\||[;|&\n()`]|\$\(/;
+// Prefixes that run the next word as the command
+const SHELL_PREFIXES = new Set(["sudo", "env", "command", "nohup", "time", "exec"]);
+
+/**
+ * Meridian-managed paths, with the tasks directory relative to the project root
+ */
+export function managedPaths(tasksDir: string): ProtectedPath[] {
+  return [
+    { pattern: ".meridian/memory.jsonl", guidance: "Use memory-curator to add entries and memory-lifecycle to supersede, deprecate or amend them" },
+    { pattern: ".meridian/task-backlog.yaml", guidance: "Use task-manager to add or edit backlog entries and task-status to change a status" },
+    { pattern: ".meridian/task-archive.yaml", guidance: "Use task-archive to archive or restore tasks" },
+    { pattern: `${tasksDir}/.archive/**`, guidance: "Use task-archive to archive or restore tasks" },
+    { pattern: `${tasksDir}/.trash/**`, guidance: "Use task-deleter to delete, restore or purge tasks" },
+    { pattern: `${tasksDir}/.last-task-id`, guidance: "Task IDs are allocated by task-manager" },
+    { pattern: ".meridian/audit.jsonl", guidance: "The audit log is written by the plugin; query it with audit-query" },
+    { pattern: ".meridian/audit/**", guidance: "Rotated audit logs are managed by the plugin; query them with audit-query" },
+    { pattern: ".meridian/*.lock", guidance: "Lock files are managed by the Meridian tools" },
+    { pattern: ".opencode/.meridian-sessions/**", guidance: "Session state is managed by the plugin" },
+  ];
+}
+
+/**
+ * Match a project-relative path against a glob: `**` spans folders, `*` and `?` stay within one
+ */
+export function matchesPathGlob(path: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(path);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" matches zero or more folders, a trailing "**" everything below
+      source += pattern[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += pattern[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Project-relative form of a path, or null when it is outside the project
+ */
+export function projectRelative(path: string, directory: string): string | null {
+  const rel = relative(directory, isAbsolute(path) ? path : resolve(directory, path));
+  return rel && !rel.startsWith("..") && !isAbsolute(rel) ? rel.split("\\").join("/") : null;
+}
+
+export function findProtected(paths: string[], rules: ProtectedPath[], directory: string): ProtectedHit | null {
+  for (const path of paths) {
+    const rel = projectRelative(path, directory);
+    if (!rel) continue;
+    const rule = rules.find((candidate) => matchesPathGlob(rel, candidate.pattern));
+    if (rule) return { path: rel, rule };
+  }
+  return null;
+}
+
+/**
+ * Paths a shell command writes, as written in the command: redirect targets,
+ * and the operands of commands that change files. cp/install/ln write their
+ * destination and mv also removes its sources; rm, touch, truncate, tee,
+ * in-place sed/perl and git checkout/restore/rm/mv change every file they name;
+ * dd writes its `of=`. Commands that only read (cat, grep, cp's sources) yield nothing.
+ */
+export function shellWriteTargets(command: string): string[] {
+  const targets = [...command.matchAll(SHELL_REDIRECT)].map((match) => match[1]);
+  for (const segment of command.replace(SHELL_REDIRECT_PART, " ").split(SHELL_SEPARATOR)) {
+    targets.push(...commandWriteTargets(shellWords(segment)));
+  }
+  return [...new Set(targets.map(unquote).filter(Boolean))];
+}
+
+function unquote(word: string): string {
+  return word.replace(/^['"]|['"]$/g, "");
+}
+
+function shellWords(segment: string): string[] {
+  return (segment.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map(unquote);
+}
+
+function commandWriteTargets(words: string[]): string[] {
+  // Skip variable assignments and wrappers such as sudo
+  let start = 0;
+  while (start < words.length && (/^\w+=/.test(words[start]) || SHELL_PREFIXES.has(words[start]))) start++;
+  if (start >= words.length) return [];
+
+  const name = words[start].split("/").pop()!;
+  const rest = words.slice(start + 1);
+  const operands = rest.filter((word) => !word.startsWith("-"));
+
+  switch (name) {
+    case "rm":
+    case "rmdir":
+    case "unlink":
+    case "shred":
+    case "touch":
+    case "truncate":
+    case "tee":
+      return operands;
+    case "sed":
+    case "perl":
+      return rest.some((word) => /^-[a-zA-Z]*i/.test(word) || word.startsWith("--in-place")) ? operands : [];
+    case "dd":
+      return rest.filter((word) => word.startsWith("of=")).map((word) => word.slice(3));
+    case "git":
+      return ["checkout", "restore", "rm", "mv"].includes(operands[0]) ? operands.slice(1) : [];
+    case "cp":
+    case "mv":
+    case "install":
+    case "ln": {
+      const option = rest.findIndex((word) => word === "-t" || word.startsWith("--target-directory"));
+      const targetDir = option === -1 ? null : rest[option].includes("=") ? rest[option].split("=")[1] : rest[option + 1];
+      const sources = targetDir === null ? operands.slice(0, -1) : operands.filter((word) => word !== targetDir);
+      const destination = targetDir ?? (operands.length > 1 ? operands[operands.length - 1] : null);
+      if (destination === null) return [];
+      // The destination may be a folder the sources are written into
+      const written = [destination, ...sources.map((source) => `${destination.replace(/\/+$/, "")}/${source.split("/").pop()}`)];
+      return name === "mv" ? [...written, ...sources] : written;
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Protected path a shell command appears to write to. Reads pass.
+ */
+export function findProtectedInCommand(command: string, rules: ProtectedPath[], directory: string): ProtectedHit | null {
+  return findProtected(shellWriteTargets(command), rules, directory);
+}
+
+export function isUnlockMessage(text: string): boolean {
+  return text.toLowerCase().includes(UNLOCK_PHRASE);
+}
@@ -0,0 +1,77 @@
+/**
+ * Masks secrets before text is written to disk (audit log).
+ *
+ * Covers `.env`-style assignments with secret-looking names, secret keys in
+ * JSON/YAML, Authorization headers, credentials in URLs, private key blocks,
+ * JWTs and the token formats of common providers. Masking is best effort:
+ * it reduces accidental leaks, it does not make the audit log safe to publish.
+ */
+
+export const REDACTED = "[REDACTED]";
+
+/** Names of keys whose values are always masked */
+const SECRET_KEY_PATTERN = /pass(word|wd|phrase)?$|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|credential|^auth(orization)?$|cookie/i;
+
+/** Token formats recognizable without a surrounding key */
+const TOKEN_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g, // JWT
+  /\b(gh[pousr]_[A-Za-z0-9]{30,}|github_pat_[A-Za-z0-9_]{30,})\b/g, // GitHub
+  /\b(AKIA|ASIA)[0-9A-Z]{16}\b/g, // AWS access key ID
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g, // Slack
+  /\bsk-[A-Za-z0-9_-]{20,}/g, // OpenAI/Anthropic-style API keys
+  /\bAIza[0-9A-Za-z_-]{35}\b/g, // Google API key
+  /\bnpm_[A-Za-z0-9]{36}\b/g, // npm
+];
+
+/** NAME=value where NAME looks like a secret (SCREAMING_CASE, as in .env files and shell exports) */
+const ENV_ASSIGNMENT = /\b([A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|PASS|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS?|AUTH)[A-Z0-9_]*)(\s*=\s*)("[^"\n]*"|'[^'\n]*'|[^\s"'`]+)/g;
+
+/** "password": "value" / password: value in JSON and YAML */
+const KEY_VALUE = /(["']?)([A-Za-z0-9_.-]*(?:password|passwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|credential)[A-Za-z0-9_.-]*)\1(\s*:\s*)("[^"\n]*"|'[^'\n]*'|[^\s,}\]]+)/gi;
+
+/** Bearer/Basic credentials; the token must contain a digit so prose like "Basic authentication" is left alone */
+const AUTH_HEADER = /\b(Authorization\s*:\s*)?(Bearer|Basic)\s+(?=[A-Za-z._~+/=-]*\d)[A-Za-z0-9._~+/=-]{16,}/g;
+
+const URL_CREDENTIALS = /\b([a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:)[^\s@/]+@/gi;
+
+/** Replace a value, keeping its quotes so JSON and shell syntax stay valid */
+function mask(value: string): string {
+  const quote = /^["']/.test(value) ? value[0] : "";
+  return `${quote}${REDACTED}${quote}`;
+}
+
+/**
+ * Mask secrets in free text (tool output, shell commands, file contents)
+ */
+export function redactText(text: string): string {
+  let result = text;
+  for (const pattern of TOKEN_PATTERNS) {
+    result = result.replace(pattern, REDACTED);
+  }
+  return result
+    .replace(AUTH_HEADER, (_match, header: string | undefined, scheme: string) => `${header ?? ""}${scheme} ${REDACTED}`)
+    .replace(URL_CREDENTIALS, `$1${REDACTED}@`)
+    .replace(ENV_ASSIGNMENT, (match, name: string, separator: string, value: string) =>
+      value.includes(REDACTED) ? match : `${name}${separator}${mask(value)}`
+    )
+    .replace(KEY_VALUE, (match, quote: string, name: string, separator: string, value: string) =>
+      value.includes(REDACTED) ? match : `${quote}${name}${quote}${separator}${mask(value)}`
+    );
+}
+
+/**
+ * Mask secrets in structured values: values under secret-looking keys are
+ * replaced entirely, other strings go through redactText
+ */
+export function redactValue(value: unknown): unknown {
+  if (typeof value === "string") return redactText(value);
+  if (value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map(redactValue);
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    result[key] = SECRET_KEY_PATTERN.test(key) && typeof child === "string" && child !== "" ? REDACTED : redactValue(child);
+  }
+  return result;
+}
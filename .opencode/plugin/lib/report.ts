@@ -0,0 +1,349 @@
+import { existsSync, readdirSync, statSync } from "fs";
+import { join } from "path";
+import { differenceInCalendarDays, format, isValid, parseISO } from "date-fns";
+import { type BacklogEntry } from "./backlog";
+import { type TaskGraph } from "./graph";
+import { type ResolvedMemory } from "./memory";
+import { type TaskBrief, type RequirementProgress, requirementProgress } from "./tasks";
+
+/**
+ * Project progress report across the backlog and every TASK-### folder
+ *
+ * Collects completion per task and requirement (from requirements[].status),
+ * chains of tasks waiting on unfinished prerequisites, in-progress or blocked
+ * tasks that have not been updated recently, and recently added memory.
+ * Rendered as Markdown or as a self-contained HTML page.
+ */
+
+export interface ReportRequirement {
+  id: string;
+  description: string;
+  status: string;
+}
+
+export interface ReportTask {
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  progress: RequirementProgress;
+  requirements: ReportRequirement[];
+  /** Brief updated_at, or the newest file in the task folder */
+  lastUpdate: Date | null;
+  briefError: string | null;
+  inBacklog: boolean;
+}
+
+export interface ProgressReport {
+  generatedAt: Date;
+  staleDays: number;
+  memoryDays: number;
+  tasks: ReportTask[];
+  /** Each chain starts at a waiting task and follows unfinished prerequisites */
+  blockedChains: string[][];
+  stale: { task: ReportTask; days: number }[];
+  recentMemory: ResolvedMemory[];
+}
+
+export interface ReportInput {
+  tasksDir: string;
+  entries: BacklogEntry[];
+  /** Task folders without a backlog entry */
+  orphanIds: string[];
+  graph: TaskGraph;
+  loadBrief: (taskId: string) => TaskBrief | null;
+  memory: ResolvedMemory[];
+  staleDays: number;
+  memoryDays: number;
+  now?: Date;
+}
+
+const OPEN_STATUSES = ["todo", "in_progress", "blocked"];
+const STALE_STATUSES = ["in_progress", "blocked"];
+const MAX_CHAINS_PER_TASK = 5;
+
+/**
+ * Dates from YAML: tools write quoted strings, hand-written timestamps load as Date
+ */
+function parseDate(value: unknown): Date | null {
+  if (value instanceof Date) return isValid(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+}
+
+function newestFileTime(dir: string): Date | null {
+  if (!existsSync(dir)) return null;
+  let newest = 0;
+  for (const name of readdirSync(dir)) {
+    try {
+      newest = Math.max(newest, statSync(join(dir, name)).mtimeMs);
+    } catch (error) {
+      // Removed while scanning
+    }
+  }
+  return newest > 0 ? new Date(newest) : null;
+}
+
+function toReportTask(input: ReportInput, id: string, entry: BacklogEntry | undefined): ReportTask {
+  let brief: TaskBrief | null = null;
+  let briefError: string | null = null;
+  try {
+    brief = input.loadBrief(id);
+  } catch (error) {
+    briefError = error instanceof Error ? error.message : String(error);
+  }
+
+  const requirements = (Array.isArray(brief?.requirements) ? brief!.requirements : []).map((req, index) => ({
+    id: typeof req?.id === "string" ? req.id : `R${index + 1}`,
+    description: typeof req?.description === "string" ? req.description : "",
+    status: typeof req?.status === "string" ? req.status : "unknown",
+  }));
+
+  return {
+    id,
+    title: entry?.title || (typeof brief?.title === "string" ? brief.title : ""),
+    status: entry?.status ?? (typeof brief?.status === "string" ? brief.status : "unknown"),
+    priority: entry?.priority ?? (typeof brief?.priority === "string" ? brief.priority : "-"),
+    progress: requirementProgress(brief),
+    requirements,
+    lastUpdate: parseDate(brief?.updated_at) ?? newestFileTime(join(input.tasksDir, id)),
+    briefError,
+    inBacklog: !!entry,
+  };
+}
+
+/**
+ * Chains of unfinished prerequisites, starting from open tasks that no other
+ * waiting task depends on (so sub-chains are not repeated)
+ */
+function findBlockedChains(graph: TaskGraph): string[][] {
+  const isDone = (id: string) => graph.entries.get(id)?.status === "done";
+  const pending = (id: string) => (graph.prerequisites.get(id) ?? []).filter((dep) => !isDone(dep));
+
+  const waiting = [...graph.entries.values()]
+    .filter((entry) => OPEN_STATUSES.includes(entry.status ?? "") && (pending(entry.id).length > 0 || entry.status === "blocked"))
+    .map((entry) => entry.id);
+  const waitedOn = new Set(waiting.flatMap(pending));
+  const roots = waiting.filter((id) => !waitedOn.has(id));
+
+  const chains: string[][] = [];
+  for (const root of roots) {
+    const found: string[][] = [];
+    const walk = (path: string[]) => {
+      if (found.length >= MAX_CHAINS_PER_TASK) return;
+      const next = pending(path[path.length - 1]).filter((dep) => !path.includes(dep));
+      if (next.length === 0) {
+        found.push(path);
+        return;
+      }
+      for (const dep of next) walk([...path, dep]);
+    };
+    walk([root]);
+    chains.push(...found);
+  }
+  return chains;
+}
+
+export function buildProgressReport(input: ReportInput): ProgressReport {
+  const now = input.now ?? new Date();
+  const tasks = [
+    ...input.entries.map((entry) => toReportTask(input, entry.id, entry)),
+    ...input.orphanIds.map((id) => toReportTask(input, id, undefined)),
+  ];
+
+  const stale = tasks
+    .filter((task) => STALE_STATUSES.includes(task.status) && task.lastUpdate)
+    .map((task) => ({ task, days: differenceInCalendarDays(now, task.lastUpdate!) }))
+    .filter(({ days }) => days >= input.staleDays)
+    .sort((a, b) => b.days - a.days);
+
+  const recentMemory = input.memory
+    .filter((entry) => {
+      const date = parseDate(entry.timestamp);
+      return !!date && differenceInCalendarDays(now, date) <= input.memoryDays;
+    })
+    .sort((a, b) => (b.timestamp ?? "").localeCompare(a.timestamp ?? ""));
+
+  return {
+    generatedAt: now,
+    staleDays: input.staleDays,
+    memoryDays: input.memoryDays,
+    tasks,
+    blockedChains: findBlockedChains(input.graph),
+    stale,
+    recentMemory,
+  };
+}
+
+function percent(done: number, total: number): number {
+  return total === 0 ? 0 : Math.round((done / total) * 100);
+}
+
+function statusCounts(report: ProgressReport): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const task of report.tasks) {
+    counts.set(task.status, (counts.get(task.status) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+function requirementTotals(report: ProgressReport): { done: number; total: number } {
+  return report.tasks.reduce(
+    (sum, task) => ({ done: sum.done + task.progress.done, total: sum.total + task.progress.total }),
+    { done: 0, total: 0 }
+  );
+}
+
+function describeChain(report: ProgressReport, chain: string[]): string[] {
+  const byId = new Map(report.tasks.map((task) => [task.id, task]));
+  return chain.map((id) => `${id} (${byId.get(id)?.status ?? "unknown"})`);
+}
+
+function firstLine(text: string): string {
+  return text.split("\n").map((line) => line.trim()).find(Boolean) ?? "";
+}
+
+export function renderReportMarkdown(report: ProgressReport): string {
+  const cell = (value: string) => value.replace(/\|/g, "\\|").replace(/\n/g, " ") || "-";
+  const requirements = requirementTotals(report);
+  const done = report.tasks.filter((task) => task.status === "done").length;
+  const out: string[] = [];
+
+  out.push(`# Project Progress Report`, "", `Generated ${format(report.generatedAt, "yyyy-MM-dd HH:mm")}`, "");
+  out.push("## Summary", "");
+  out.push(`- Tasks: ${done}/${report.tasks.length} done (${percent(done, report.tasks.length)}%)`);
+  out.push(`- Requirements: ${requirements.done}/${requirements.total} done (${percent(requirements.done, requirements.total)}%)`);
+  out.push(`- By status: ${statusCounts(report).map(([status, count]) => `${status} ${count}`).join(", ") || "none"}`);
+  out.push(`- Blocked chains: ${report.blockedChains.length}, stale tasks: ${report.stale.length}, new memories: ${report.recentMemory.length}`, "");
+
+  out.push("## Tasks", "");
+  if (report.tasks.length === 0) {
+    out.push("(no tasks)", "");
+  } else {
+    out.push("| ID | Status | Pri | Title | Requirements | Last update |", "|----|--------|-----|-------|--------------|-------------|");
+    for (const task of report.tasks) {
+      const reqs = task.briefError
+        ? "invalid brief"
+        : task.progress.total === 0
+          ? "-"
+          : `${task.progress.done}/${task.progress.total} (${percent(task.progress.done, task.progress.total)}%)`;
+      const title = task.inBacklog ? task.title : `${task.title} (not in backlog)`.trim();
+      const updated = task.lastUpdate ? format(task.lastUpdate, "yyyy-MM-dd") : "-";
+      out.push(`| ${task.id} | ${cell(task.status)} | ${cell(task.priority)} | ${cell(title)} | ${reqs} | ${updated} |`);
+    }
+    out.push("");
+  }
+
+  const open = report.tasks.filter((task) => task.status !== "done" && task.requirements.length > 0);
+  if (open.length > 0) {
+    out.push("## Requirements of open tasks", "");
+    for (const task of open) {
+      out.push(`### ${task.id} ${task.title}`.trimEnd(), "");
+      for (const req of task.requirements) {
+        out.push(`- [${req.status === "done" ? "x" : " "}] **${req.id}** ${firstLine(req.description)} _(${req.status})_`);
+      }
+      out.push("");
+    }
+  }
+
+  out.push("## Blocked chains", "");
+  out.push(
+    ...(report.blockedChains.length > 0
+      ? report.blockedChains.map((chain) => `- ${describeChain(report, chain).join(" → waits on ")}`)
+      : ["(none)"]),
+    ""
+  );
+
+  out.push(`## Stale tasks (no update for ${report.staleDays}+ days)`, "");
+  out.push(
+    ...(report.stale.length > 0
+      ? report.stale.map(({ task, days }) => `- ${task.id} ${task.title} (${task.status}): last update ${days} days ago`)
+      : ["(none)"]),
+    ""
+  );
+
+  out.push(`## Memories added in the last ${report.memoryDays} days`, "");
+  out.push(
+    ...(report.recentMemory.length > 0
+      ? report.recentMemory.map((entry) => `- **${entry.id}** (${entry.timestamp?.slice(0, 10) ?? "?"}) ${firstLine(entry.summary)}${entry.tags.length ? ` _[${entry.tags.join(", ")}]_` : ""}`)
+      : ["(none)"]),
+    ""
+  );
+
+  return out.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `body{font-family:system-ui,-apple-system,sans-serif;max-width:1100px;margin:2rem auto;padding:0 1rem;color:#1f2328}
+h1{margin-bottom:.2rem}.muted{color:#656d76}
+.cards{display:flex;gap:1rem;flex-wrap:wrap;margin:1rem 0}.card{border:1px solid #d0d7de;border-radius:8px;padding:.8rem 1rem;min-width:150px}
+.card b{display:block;font-size:1.6rem}
+table{border-collapse:collapse;width:100%;margin:.5rem 0 1.5rem}th,td{border-bottom:1px solid #d0d7de;padding:.4rem .5rem;text-align:left;vertical-align:top}
+.bar{background:#eaeef2;border-radius:4px;height:8px;width:120px;display:inline-block;vertical-align:middle;margin-right:.4rem}
+.bar span{background:#2da44e;border-radius:4px;height:8px;display:block}
+.status{border-radius:10px;padding:0 .5rem;font-size:.85rem;white-space:nowrap}
+.s-done{background:#dafbe1}.s-in_progress{background:#ddf4ff}.s-blocked{background:#ffebe9}.s-todo{background:#eaeef2}
+details{margin:.3rem 0}ul.reqs{margin:.3rem 0 .6rem}`;
+
+export function renderReportHtml(report: ProgressReport): string {
+  const requirements = requirementTotals(report);
+  const done = report.tasks.filter((task) => task.status === "done").length;
+  const status = (value: string) => `<span class="status s-${escapeHtml(value)}">${escapeHtml(value)}</span>`;
+  const bar = (value: number) => `<span class="bar"><span style="width:${value}%"></span></span>${value}%`;
+  const list = (items: string[]) => (items.length > 0 ? `<ul>${items.map((item) => `<li>${item}</li>`).join("")}</ul>` : `<p class="muted">None</p>`);
+
+  const rows = report.tasks.map((task) => {
+    const reqs = task.briefError
+      ? "invalid brief"
+      : task.progress.total === 0
+        ? "-"
+        : `${bar(percent(task.progress.done, task.progress.total))} (${task.progress.done}/${task.progress.total})`;
+    const details = task.requirements.length > 0
+      ? `<details><summary>${escapeHtml(task.title || task.id)}</summary><ul class="reqs">${task.requirements
+          .map((req) => `<li>${req.status === "done" ? "☑" : "☐"} <b>${escapeHtml(req.id)}</b> ${escapeHtml(firstLine(req.description))} ${status(req.status)}</li>`)
+          .join("")}</ul></details>`
+      : escapeHtml(task.title);
+    return `<tr><td>${escapeHtml(task.id)}</td><td>${status(task.status)}</td><td>${escapeHtml(task.priority)}</td><td>${details}${task.inBacklog ? "" : ` <span class="muted">(not in backlog)</span>`}</td><td>${reqs}</td><td>${task.lastUpdate ? format(task.lastUpdate, "yyyy-MM-dd") : "-"}</td></tr>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Project Progress Report</title>
+<style>
+${HTML_STYLE}
+</style>
+</head>
+<body>
+<h1>Project Progress Report</h1>
+<p class="muted">Generated ${format(report.generatedAt, "yyyy-MM-dd HH:mm")}</p>
+<div class="cards">
+<div class="card"><b>${done}/${report.tasks.length}</b>tasks done</div>
+<div class="card"><b>${percent(requirements.done, requirements.total)}%</b>requirements done (${requirements.done}/${requirements.total})</div>
+<div class="card"><b>${report.blockedChains.length}</b>blocked chains</div>
+<div class="card"><b>${report.stale.length}</b>stale tasks</div>
+<div class="card"><b>${report.recentMemory.length}</b>new memories</div>
+</div>
+<h2>Tasks</h2>
+${report.tasks.length > 0 ? `<table><thead><tr><th>ID</th><th>Status</th><th>Pri</th><th>Title</th><th>Requirements</th><th>Last update</th></tr></thead><tbody>
+${rows.join("\n")}
+</tbody></table>` : `<p class="muted">No tasks</p>`}
+<h2>Blocked chains</h2>
+${list(report.blockedChains.map((chain) => escapeHtml(describeChain(report, chain).join(" → waits on "))))}
+<h2>Stale tasks <span class="muted">(no update for ${report.staleDays}+ days)</span></h2>
+${list(report.stale.map(({ task, days }) => `${escapeHtml(task.id)} ${escapeHtml(task.title)} ${status(task.status)} — last update ${days} days ago`))}
+<h2>Memories added in the last ${report.memoryDays} days</h2>
+${list(report.recentMemory.map((entry) => `<b>${escapeHtml(entry.id)}</b> <span class="muted">${escapeHtml(entry.timestamp?.slice(0, 10) ?? "?")}</span> ${escapeHtml(firstLine(entry.summary))}`))}
+</body>
+</html>
+`;
+}
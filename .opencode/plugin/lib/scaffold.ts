@@ -0,0 +1,150 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync } from "fs";
+import { dirname, join, relative } from "path";
+import { fileURLToPath } from "url";
+import { type MeridianConfig, type ProjectType } from "./config";
+import { writeFileAtomic } from "./files";
+
+/**
+ * Default .meridian/ layout for `meridian init` and `meridian doctor`
+ *
+ * The config, prompts, code guides and task template are copied from the
+ * .meridian folder that ships with Meridian (next to .opencode/ in a
+ * meridian-opencode checkout). The backlog and memory log start empty.
+ * Existing files are never overwritten.
+ */
+
+export const CODE_GUIDE = "CODE_GUIDE.md";
+export const GUIDE_ADDONS: Record<ProjectType | "tdd", string | null> = {
+  hackathon: "CODE_GUIDE_ADDON_HACKATHON.md",
+  standard: null,
+  production: "CODE_GUIDE_ADDON_PRODUCTION.md",
+  tdd: "CODE_GUIDE_ADDON_TDD.md",
+};
+export const OPERATING_MANUAL = join("prompts", "agent-operating-manual.md");
+export const RELEVANT_DOCS = "relevant-docs.md";
+export const TEMPLATE_DIR = "TASK-000-template";
+
+/** The .meridian folder of the checkout this module belongs to */
+export const BUNDLED_DEFAULTS = fileURLToPath(new URL("../../../.meridian", import.meta.url));
+
+const EMPTY_BACKLOG = `# Task Backlog
+# Simple index of tasks - detailed definitions live in .meridian/tasks/TASK-###/
+
+tasks: []
+`;
+
+export interface InitOptions {
+  projectType: ProjectType;
+  tddMode: boolean;
+}
+
+export interface InitResult {
+  /** Paths relative to the project root */
+  created: string[];
+  /** Files that already existed and were left alone */
+  kept: string[];
+}
+
+/**
+ * CODE_GUIDE files that apply to a project configuration
+ */
+export function codeGuideFiles(meridianDir: string, config: Pick<MeridianConfig, "projectType" | "tddMode">): string[] {
+  const files = [join(meridianDir, CODE_GUIDE)];
+  const addon = GUIDE_ADDONS[config.projectType];
+  if (addon) files.push(join(meridianDir, addon));
+  if (config.tddMode) files.push(join(meridianDir, GUIDE_ADDONS.tdd!));
+  return files;
+}
+
+/**
+ * Throw unless source looks like a Meridian defaults folder
+ */
+export function requireDefaults(source: string): void {
+  const required = ["config.yaml", CODE_GUIDE, join("tasks", TEMPLATE_DIR)];
+  if (required.some((file) => !existsSync(join(source, file)))) {
+    throw new Error(
+      `Meridian's default files were not found in '${source}'. Pass --from with the .meridian folder of a meridian-opencode checkout. Nothing was written.`
+    );
+  }
+}
+
+/**
+ * Files below dir, relative to it
+ */
+function listFiles(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true }).flatMap((item) =>
+    item.isDirectory() ? listFiles(join(dir, item.name)).map((file) => join(item.name, file)) : item.isFile() ? [item.name] : []
+  );
+}
+
+/**
+ * Replace the value of a top-level key in config.yaml, keeping its comments
+ */
+function setConfigValue(content: string, key: string, value: string): string {
+  const pattern = new RegExp(`^${key}\\s*:.*$`, "m");
+  return pattern.test(content) ? content.replace(pattern, `${key}: ${value}`) : `${content.replace(/\n*$/, "\n")}${key}: ${value}\n`;
+}
+
+/**
+ * Copy one default file unless the target exists; returns whether it was written
+ */
+export function copyDefault(source: string, target: string): boolean {
+  if (existsSync(target)) return false;
+  mkdirSync(dirname(target), { recursive: true });
+  writeFileAtomic(target, readFileSync(source, "utf-8"));
+  return true;
+}
+
+/**
+ * Copy the default task template into tasksDir; returns the files written
+ */
+export function copyTaskTemplate(source: string, tasksDir: string): string[] {
+  requireDefaults(source);
+  const templateDir = join(source, "tasks", TEMPLATE_DIR);
+  return listFiles(templateDir)
+    .filter((file) => copyDefault(join(templateDir, file), join(tasksDir, TEMPLATE_DIR, file)))
+    .map((file) => join(tasksDir, TEMPLATE_DIR, file));
+}
+
+/**
+ * Create .meridian/ in directory from the defaults in source
+ */
+export function initMeridian(directory: string, source: string, options: InitOptions): InitResult {
+  requireDefaults(source);
+  const meridianDir = join(directory, ".meridian");
+  const result: InitResult = { created: [], kept: [] };
+  const track = (path: string, written: boolean) =>
+    (written ? result.created : result.kept).push(relative(directory, path));
+
+  mkdirSync(meridianDir, { recursive: true });
+
+  const configPath = join(meridianDir, "config.yaml");
+  if (existsSync(configPath)) {
+    track(configPath, false);
+  } else {
+    let config = readFileSync(join(source, "config.yaml"), "utf-8");
+    config = setConfigValue(config, "project_type", options.projectType);
+    config = setConfigValue(config, "tdd_mode", String(options.tddMode));
+    writeFileAtomic(configPath, config);
+    track(configPath, true);
+  }
+
+  const defaults = [CODE_GUIDE, ...Object.values(GUIDE_ADDONS).filter((file): file is string => file !== null), RELEVANT_DOCS];
+  for (const file of [...defaults, ...listFiles(join(source, "prompts")).map((file) => join("prompts", file))]) {
+    if (!existsSync(join(source, file))) continue;
+    track(join(meridianDir, file), copyDefault(join(source, file), join(meridianDir, file)));
+  }
+
+  const tasksDir = join(meridianDir, "tasks");
+  for (const file of copyTaskTemplate(source, tasksDir)) track(file, true);
+
+  for (const [file, content] of [["task-backlog.yaml", EMPTY_BACKLOG], ["memory.jsonl", ""]]) {
+    const path = join(meridianDir, file);
+    const missing = !existsSync(path);
+    if (missing) writeFileAtomic(path, content);
+    track(path, missing);
+  }
+
+  return result;
+}
@@ -0,0 +1,140 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, unlinkSync } from "fs";
+import { join } from "path";
+import { writeFileAtomic } from "./files";
+import { type SessionActivity, emptyActivity } from "./activity";
+import type { TddCycle } from "./tdd";
+
+/**
+ * Plugin state per OpenCode session
+ *
+ * Each session has its own file in .opencode/.meridian-sessions/<sessionID>.json,
+ * so sessions running side by side (even in separate OpenCode processes) never
+ * overwrite each other. Files not touched for a while are removed by cleanup().
+ */
+
+export interface SessionState {
+  lastAgent: string;
+  /** Set once the idle reminder was sent; cleared on the next user message */
+  idleMessageInjected: boolean;
+  lastContextReview: string | null;
+  /** Absolute paths still to read before edit tools are allowed */
+  pendingReads: string[];
+  /** Calls stopped by an "ask" policy, waiting for the user's answer */
+  pendingApprovals: string[];
+  /** Calls the user approved; each may run once */
+  approvedCalls: string[];
+  /** The user wrote meridian:unlock this turn; protected paths may be edited until the next message */
+  protectedPathsUnlocked: boolean;
+  activeTask: string | null;
+  sessionStarted: string;
+  lastActivity: string;
+  /** Tool activity since the last idle reminder */
+  activity: SessionActivity;
+  /** TDD cycle per task (NO_TASK without an active task), tracked in tdd_mode */
+  tdd: Record<string, TddCycle>;
+}
+
+export interface SessionStore {
+  /** State for a session, created with defaults on first use */
+  get(sessionID: string): SessionState;
+  /** Apply changes to a session's state and persist them */
+  update(sessionID: string, changes: Partial<SessionState>): SessionState;
+  remove(sessionID: string): void;
+  /** Delete state of sessions inactive for more than maxAgeDays; returns the number removed */
+  cleanup(maxAgeDays: number): number;
+}
+
+const DEFAULT_AGENT = "build";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function defaultState(): SessionState {
+  const now = new Date().toISOString();
+  return {
+    lastAgent: DEFAULT_AGENT,
+    idleMessageInjected: false,
+    lastContextReview: null,
+    pendingReads: [],
+    pendingApprovals: [],
+    approvedCalls: [],
+    protectedPathsUnlocked: false,
+    activeTask: null,
+    sessionStarted: now,
+    lastActivity: now,
+    activity: emptyActivity(),
+    tdd: {},
+  };
+}
+
+/**
+ * Session IDs come from OpenCode; keep them safe to use as file names
+ */
+function fileName(sessionID: string): string {
+  return `${sessionID.replace(/[^A-Za-z0-9_-]/g, "_")}.json`;
+}
+
+export function createSessionStore(stateDir: string): SessionStore {
+  const cache = new Map<string, SessionState>();
+  const pathFor = (sessionID: string) => join(stateDir, fileName(sessionID));
+
+  const get = (sessionID: string): SessionState => {
+    const cached = cache.get(sessionID);
+    if (cached) return cached;
+
+    let state = defaultState();
+    const path = pathFor(sessionID);
+    if (existsSync(path)) {
+      try {
+        state = { ...state, ...JSON.parse(readFileSync(path, "utf-8")) };
+      } catch (error) {
+        // Invalid JSON, use defaults
+      }
+    }
+    cache.set(sessionID, state);
+    return state;
+  };
+
+  const update = (sessionID: string, changes: Partial<SessionState>): SessionState => {
+    const state = Object.assign(get(sessionID), changes, { lastActivity: new Date().toISOString() });
+    try {
+      mkdirSync(stateDir, { recursive: true });
+      writeFileAtomic(pathFor(sessionID), JSON.stringify(state, null, 2));
+    } catch (error) {
+      // Silently fail if can't save; the in-memory state still applies
+    }
+    return state;
+  };
+
+  const remove = (sessionID: string): void => {
+    cache.delete(sessionID);
+    try {
+      unlinkSync(pathFor(sessionID));
+    } catch (error) {
+      // Already gone
+    }
+  };
+
+  const cleanup = (maxAgeDays: number): number => {
+    if (!existsSync(stateDir)) return 0;
+
+    const cutoff = Date.now() - maxAgeDays * DAY_MS;
+    let removed = 0;
+    for (const name of readdirSync(stateDir)) {
+      if (!name.endsWith(".json")) continue;
+      const path = join(stateDir, name);
+      try {
+        if (statSync(path).mtimeMs < cutoff) {
+          unlinkSync(path);
+          removed++;
+        }
+      } catch (error) {
+        // Removed by another process
+      }
+    }
+    for (const [sessionID, state] of cache) {
+      if (Date.parse(state.lastActivity) < cutoff) cache.delete(sessionID);
+    }
+    return removed;
+  };
+
+  return { get, update, remove, cleanup };
+}
@@ -0,0 +1,72 @@
+import { load, dump } from "js-yaml";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { type BacklogEntry, type BacklogPriority } from "./backlog";
+import { writeFileAtomic } from "./files";
+
+/**
+ * Archive for finished tasks
+ *
+ * Archived task folders live in <tasksDir>/.archive/TASK-###/ and are listed in
+ * .meridian/task-archive.yaml instead of the backlog. Sessions do not read the
+ * archive; it keeps finished work out of the active context while preserving it.
+ */
+
+export interface ArchivedTask {
+  id: string;
+  title: string;
+  priority?: BacklogPriority;
+  /** Folder of the archived task relative to the project root (the backlog path if there was no folder) */
+  path: string;
+  archived_at: string;
+  completed_at?: string;
+  depends_on?: string[];
+}
+
+export interface TaskArchive {
+  tasks: ArchivedTask[];
+}
+
+const ARCHIVE_HEADER = `# Task Archive
+# Finished tasks moved out of task-backlog.yaml by the task-archive tool.
+# Folders live in the tasks directory under .archive/. Not loaded into sessions.
+
+`;
+
+export function archiveDir(tasksDir: string): string {
+  return join(tasksDir, ".archive");
+}
+
+export function readTaskArchive(indexPath: string): TaskArchive {
+  if (!existsSync(indexPath)) return { tasks: [] };
+
+  const data = load(readFileSync(indexPath, "utf-8")) as { tasks?: unknown } | null;
+  if (data === null || data === undefined) return { tasks: [] };
+  if (typeof data !== "object" || (data.tasks !== undefined && data.tasks !== null && !Array.isArray(data.tasks))) {
+    throw new Error(`Malformed task archive ${indexPath}: expected a 'tasks' list`);
+  }
+
+  const tasks = ((data.tasks ?? []) as unknown[]).filter(
+    (task): task is ArchivedTask => !!task && typeof task === "object" && typeof (task as ArchivedTask).id === "string"
+  );
+  return { tasks };
+}
+
+export function writeTaskArchive(indexPath: string, archive: TaskArchive): void {
+  writeFileAtomic(indexPath, ARCHIVE_HEADER + dump({ tasks: archive.tasks }, { lineWidth: -1 }));
+}
+
+/**
+ * Archive index record for a backlog entry
+ */
+export function toArchivedTask(entry: BacklogEntry, path: string, archivedAt: string, completedAt?: string): ArchivedTask {
+  return {
+    id: entry.id,
+    title: entry.title,
+    ...(entry.priority ? { priority: entry.priority } : {}),
+    path,
+    archived_at: archivedAt,
+    ...(completedAt ? { completed_at: completedAt } : {}),
+    ...(entry.depends_on.length > 0 ? { depends_on: entry.depends_on } : {}),
+  };
+}
@@ -0,0 +1,257 @@
+import { load, YAMLException } from "js-yaml";
+import { BACKLOG_PRIORITIES, BACKLOG_STATUSES } from "./backlog";
+import type { TaskBrief } from "./tasks";
+
+/**
+ * Schema for TASK-###.yaml task briefs, derived from
+ * .meridian/tasks/TASK-000-template/TASK-000.yaml
+ *
+ * Required: id, title, status, priority, objective, requirements.
+ * Optional sections are checked for shape only, and unknown keys are allowed
+ * so teams can extend their template.
+ */
+
+export type BriefPath = (string | number)[];
+
+export interface BriefIssue {
+  path: string;
+  line?: number;
+  message: string;
+}
+
+export interface BriefValidation {
+  brief: TaskBrief | null;
+  issues: BriefIssue[];
+}
+
+const TITLE_MAX_LENGTH = 80;
+const PLACEHOLDER_PATTERN = /^<.*>$|TASK-###/;
+
+function formatPath(path: BriefPath): string {
+  return path.reduce<string>(
+    (acc, part) => (typeof part === "number" ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part),
+    ""
+  );
+}
+
+function isTrivia(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === "" || trimmed.startsWith("#");
+}
+
+function leadingSpaces(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/** Column where a line's key starts, skipping a leading "- " */
+function keyColumn(line: string): number {
+  const match = line.match(/^(\s*(?:-\s+)?)/);
+  return match ? match[1].length : 0;
+}
+
+/**
+ * Best-effort line number (1-based) for a path in block-style YAML.
+ * Falls back to the closest parent that could be located.
+ */
+export function locateBriefPath(content: string, path: BriefPath): number | undefined {
+  const lines = content.split("\n");
+  let start = 0;
+  let end = lines.length;
+  let found: number | undefined;
+
+  for (const part of path) {
+    const candidates: number[] = [];
+    for (let i = start; i < end; i++) {
+      if (!isTrivia(lines[i])) candidates.push(i);
+    }
+    if (candidates.length === 0) break;
+
+    if (typeof part === "number") {
+      const dashes = candidates.filter((i) => lines[i].trimStart().startsWith("-"));
+      if (dashes.length === 0) break;
+      const dashIndent = Math.min(...dashes.map((i) => leadingSpaces(lines[i])));
+      const items = dashes.filter((i) => leadingSpaces(lines[i]) === dashIndent);
+      if (part >= items.length) break;
+      found = items[part];
+      start = items[part];
+      end = part + 1 < items.length ? items[part + 1] : end;
+      continue;
+    }
+
+    const column = Math.min(...candidates.map((i) => keyColumn(lines[i])));
+    const keyPattern = new RegExp(`^\\s*(?:-\\s+)?${part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*:`);
+    const idx = candidates.find((i) => keyColumn(lines[i]) === column && keyPattern.test(lines[i]));
+    if (idx === undefined) break;
+
+    found = idx;
+    let next = idx + 1;
+    while (next < end) {
+      const line = lines[next];
+      if (!isTrivia(line)) {
+        const indent = leadingSpaces(line);
+        if (indent < column || (indent === column && !line.trimStart().startsWith("-"))) break;
+      }
+      next++;
+    }
+    start = idx + 1;
+    end = next;
+  }
+
+  return found === undefined ? undefined : found + 1;
+}
+
+/**
+ * Validate task brief YAML text. expectedId is the task folder the brief belongs to.
+ */
+export function validateTaskBrief(content: string, expectedId: string): BriefValidation {
+  let data: unknown;
+  try {
+    data = load(content);
+  } catch (error) {
+    if (error instanceof YAMLException) {
+      return {
+        brief: null,
+        issues: [{ path: "(yaml)", line: error.mark.line + 1, message: `Invalid YAML: ${error.reason}` }],
+      };
+    }
+    throw error;
+  }
+
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { brief: null, issues: [{ path: "(root)", line: 1, message: "Task brief must be a YAML mapping" }] };
+  }
+
+  const brief = data as TaskBrief;
+  const issues: BriefIssue[] = [];
+  const report = (path: BriefPath, message: string) => {
+    issues.push({ path: formatPath(path), line: locateBriefPath(content, path), message });
+  };
+
+  const checkString = (path: BriefPath, value: unknown, required: boolean): value is string => {
+    if (value === undefined || value === null) {
+      if (required) report(path, "is required");
+      return false;
+    }
+    if (typeof value !== "string" || !value.trim()) {
+      report(path, "must be a non-empty string");
+      return false;
+    }
+    if (PLACEHOLDER_PATTERN.test(value.trim()) && path[path.length - 1] !== "acceptance_criteria") {
+      report(path, `still contains the template placeholder "${value.trim()}"`);
+      return false;
+    }
+    return true;
+  };
+
+  const checkEnum = (path: BriefPath, value: unknown, allowed: readonly string[], required: boolean) => {
+    if (value === undefined || value === null) {
+      if (required) report(path, `is required (one of ${allowed.join(", ")})`);
+      return;
+    }
+    if (!allowed.includes(String(value))) {
+      const hint = String(value).includes("|") ? " — pick one value, not the template list" : "";
+      report(path, `must be one of ${allowed.join(", ")}, got "${value}"${hint}`);
+    }
+  };
+
+  const checkStringList = (path: BriefPath, value: unknown) => {
+    if (value === undefined || value === null) return;
+    if (!Array.isArray(value)) {
+      report(path, "must be a list");
+      return;
+    }
+    value.forEach((item, index) => {
+      if (typeof item !== "string" || !item.trim()) {
+        report([...path, index], "must be a non-empty string");
+      }
+    });
+  };
+
+  if (checkString(["id"], brief.id, true) && brief.id !== expectedId) {
+    report(["id"], `must be ${expectedId} (the task folder), got "${brief.id}"`);
+  }
+
+  if (checkString(["title"], brief.title, true) && brief.title!.length > TITLE_MAX_LENGTH) {
+    report(["title"], `must be at most ${TITLE_MAX_LENGTH} characters (got ${brief.title!.length})`);
+  }
+
+  checkEnum(["status"], brief.status, BACKLOG_STATUSES, true);
+  checkEnum(["priority"], brief.priority, BACKLOG_PRIORITIES, true);
+  checkString(["objective"], brief.objective, true);
+  checkStringList(["constraints"], brief.constraints);
+
+  if (brief.requirements === undefined || brief.requirements === null) {
+    report(["requirements"], "is required (list of { id, description, acceptance_criteria, status })");
+  } else if (!Array.isArray(brief.requirements) || brief.requirements.length === 0) {
+    report(["requirements"], "must be a non-empty list");
+  } else {
+    const seen = new Map<string, number>();
+    brief.requirements.forEach((req, index) => {
+      const path: BriefPath = ["requirements", index];
+      if (!req || typeof req !== "object" || Array.isArray(req)) {
+        report(path, "must be a mapping with id, description and status");
+        return;
+      }
+      if (checkString([...path, "id"], req.id, true)) {
+        if (seen.has(req.id!)) {
+          report([...path, "id"], `duplicate requirement id "${req.id}" (also requirements[${seen.get(req.id!)}])`);
+        } else {
+          seen.set(req.id!, index);
+        }
+      }
+      checkString([...path, "description"], req.description, true);
+      checkString([...path, "acceptance_criteria"], req.acceptance_criteria, false);
+      checkEnum([...path, "status"], req.status, BACKLOG_STATUSES, true);
+    });
+  }
+
+  // Deliverables are written either as plain strings or as "- Code: paths" mappings
+  if (brief.deliverables !== undefined && brief.deliverables !== null) {
+    if (!Array.isArray(brief.deliverables)) {
+      report(["deliverables"], "must be a list");
+    } else {
+      brief.deliverables.forEach((item, index) => {
+        const isMapping = item && typeof item === "object" && !Array.isArray(item) && Object.keys(item).length > 0;
+        if (!isMapping && (typeof item !== "string" || !item.trim())) {
+          report(["deliverables", index], "must be a string or a 'Kind: description' entry");
+        }
+      });
+    }
+  }
+
+  if (brief.risks !== undefined && brief.risks !== null) {
+    if (!Array.isArray(brief.risks)) {
+      report(["risks"], "must be a list of { desc, mitigation }");
+    } else {
+      brief.risks.forEach((risk, index) => {
+        if (!risk || typeof risk !== "object" || Array.isArray(risk)) {
+          report(["risks", index], "must be a mapping with desc and mitigation");
+        } else {
+          checkString(["risks", index, "desc"], (risk as Record<string, unknown>).desc, true);
+        }
+      });
+    }
+  }
+
+  const validation = brief.validation;
+  if (validation !== undefined && validation !== null) {
+    if (typeof validation !== "object" || Array.isArray(validation)) {
+      report(["validation"], "must be a mapping with commands and manual_steps");
+    } else {
+      const { commands, manual_steps } = validation as Record<string, unknown>;
+      checkStringList(["validation", "commands"], commands);
+      checkStringList(["validation", "manual_steps"], manual_steps);
+    }
+  }
+
+  return { brief, issues };
+}
+
+/**
+ * Render issues as a list the agent can act on
+ */
+export function formatBriefIssues(fileName: string, issues: BriefIssue[]): string {
+  return issues
+    .map((issue) => `- ${fileName}${issue.line ? `:${issue.line}` : ""} ${issue.path}: ${issue.message}`)
+    .join("\n");
+}
@@ -0,0 +1,170 @@
+import { load, dump } from "js-yaml";
+import { existsSync, readFileSync, readdirSync } from "fs";
+import { join } from "path";
+import { type BacklogStatus, renderScalar } from "./backlog";
+
+/**
+ * Helpers for .meridian/tasks/TASK-###/ folders and their YAML briefs
+ */
+
+export interface TaskRequirement {
+  id?: string;
+  description?: string;
+  status?: string;
+  [key: string]: unknown;
+}
+
+export interface TaskBrief {
+  id?: string;
+  title?: string;
+  status?: string;
+  priority?: string;
+  requirements?: TaskRequirement[];
+  [key: string]: unknown;
+}
+
+export interface RequirementProgress {
+  total: number;
+  done: number;
+  inProgress: number;
+}
+
+/**
+ * Allowed status transitions. Reopening a done task goes back to in_progress.
+ */
+export const STATUS_TRANSITIONS: Record<BacklogStatus, BacklogStatus[]> = {
+  todo: ["in_progress", "blocked"],
+  in_progress: ["blocked", "done", "todo"],
+  blocked: ["in_progress", "todo"],
+  done: ["in_progress"],
+};
+
+const TASK_DIR_PATTERN = /^TASK-(\d+)$/;
+
+/** Highest task ID ever issued, so IDs of purged tasks are not handed out again */
+export const LAST_TASK_ID_FILE = ".last-task-id";
+
+/**
+ * Number of the last issued task ID recorded in tasksDir, or 0
+ */
+export function readLastTaskNumber(tasksDir: string): number {
+  const path = join(tasksDir, LAST_TASK_ID_FILE);
+  if (!existsSync(path)) return 0;
+  const match = readFileSync(path, "utf-8").trim().match(TASK_DIR_PATTERN);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+/**
+ * List task IDs that have a folder under tasksDir, in numeric order
+ */
+export function listTaskIds(tasksDir: string): string[] {
+  if (!existsSync(tasksDir)) return [];
+
+  return readdirSync(tasksDir, { withFileTypes: true })
+    .filter((item) => item.isDirectory() && TASK_DIR_PATTERN.test(item.name))
+    .map((item) => item.name)
+    .sort((a, b) => parseInt(a.slice(5), 10) - parseInt(b.slice(5), 10));
+}
+
+export function taskBriefPath(tasksDir: string, taskId: string): string {
+  return join(tasksDir, taskId, `${taskId}.yaml`);
+}
+
+/**
+ * Read and parse TASK-###.yaml. Returns null when the file does not exist,
+ * throws when it is not a YAML mapping.
+ */
+export function readTaskBrief(tasksDir: string, taskId: string): TaskBrief | null {
+  const briefPath = taskBriefPath(tasksDir, taskId);
+  if (!existsSync(briefPath)) return null;
+
+  const data = load(readFileSync(briefPath, "utf-8"));
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`Task brief ${briefPath} is not a YAML mapping`);
+  }
+  return data as TaskBrief;
+}
+
+/**
+ * Count requirement statuses in a task brief
+ */
+export function requirementProgress(brief: TaskBrief | null): RequirementProgress {
+  const requirements = Array.isArray(brief?.requirements) ? brief!.requirements : [];
+  return {
+    total: requirements.length,
+    done: requirements.filter((req) => req?.status === "done").length,
+    inProgress: requirements.filter((req) => req?.status === "in_progress").length,
+  };
+}
+
+/**
+ * Requirements that still have status todo
+ */
+export function openRequirements(brief: TaskBrief | null): TaskRequirement[] {
+  const requirements = Array.isArray(brief?.requirements) ? brief!.requirements : [];
+  return requirements.filter((req) => req?.status === "todo");
+}
+
+/**
+ * Set top-level scalar fields in task brief YAML without reformatting the rest of the file.
+ * Existing keys are replaced in place; a new id goes first, other new keys after the id/title/status/priority header.
+ */
+export function setBriefFields(content: string, fields: Record<string, string | null>): string {
+  const lines = content.replace(/\n+$/, "").split("\n");
+
+  for (const [key, value] of Object.entries(fields)) {
+    const rendered = `${key}: ${value === null ? "null" : renderScalar(value)}`;
+    const keyPattern = new RegExp(`^${key}\\s*:`);
+    const idx = lines.findIndex((line) => keyPattern.test(line));
+
+    if (idx !== -1) {
+      let end = idx + 1;
+      while (end < lines.length && /^\s+\S/.test(lines[end])) end++;
+      lines.splice(idx, end - idx, rendered);
+      continue;
+    }
+
+    let insertAt = 0;
+    if (key !== "id") {
+      lines.forEach((line, lineIdx) => {
+        if (/^(id|title|status|priority|updated_at|completed_at)\s*:/.test(line)) insertAt = lineIdx + 1;
+      });
+    }
+    lines.splice(insertAt, 0, rendered);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Replace (or append) a top-level block such as `links:` with a YAML rendering of value.
+ * The rest of the file is left as written.
+ */
+export function setBriefBlock(content: string, key: string, value: unknown): string {
+  const lines = content.replace(/\n+$/, "").split("\n");
+  const rendered = dump({ [key]: value }, { lineWidth: -1 }).replace(/\n+$/, "").split("\n");
+  const idx = lines.findIndex((line) => new RegExp(`^${key}\\s*:`).test(line));
+
+  if (idx === -1) {
+    return [...lines, "", ...rendered].join("\n") + "\n";
+  }
+
+  // The block runs over indented lines and "- item" lines, including blank lines between them
+  const inBlock = (line: string) => /^\s+\S/.test(line) || /^-(\s|$)/.test(line);
+  let end = idx + 1;
+  while (end < lines.length) {
+    if (inBlock(lines[end])) {
+      end++;
+      continue;
+    }
+    let next = end;
+    while (next < lines.length && !lines[next].trim()) next++;
+    if (next > end && next < lines.length && inBlock(lines[next])) {
+      end = next;
+      continue;
+    }
+    break;
+  }
+  lines.splice(idx, end - idx, ...rendered);
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,153 @@
+import { EDIT_TOOLS, editedPaths } from "./activity";
+import { matchesPathGlob, projectRelative } from "./protected-paths";
+
+/**
+ * Red → Green → Refactor tracking for tdd_mode
+ *
+ * The tool hooks keep one cycle per session and task. A cycle starts when a
+ * test file is created or changed, turns red when a test run fails, and green
+ * when tests pass again. Editing source code is only expected once the cycle
+ * is red (or green, for refactoring); earlier edits are warned about or
+ * blocked depending on `tdd.enforcement`.
+ */
+
+export const TDD_ENFORCEMENT = ["warn", "block"] as const;
+
+export type TddEnforcement = (typeof TDD_ENFORCEMENT)[number];
+
+export type TddPhase = "start" | "test" | "red" | "green";
+
+export interface TddCycle {
+  phase: TddPhase;
+  /** Test files created or changed in this cycle, relative to the project root */
+  testFiles: string[];
+  /** Whether source code was edited since the cycle turned red */
+  implemented: boolean;
+}
+
+export interface TddUpdate {
+  cycle: TddCycle;
+  /** Steps worth logging to the task context file */
+  steps: string[];
+  /** Why the call broke the cycle, when it did */
+  violation: string | null;
+}
+
+/** Cycle key for sessions without an active task */
+export const NO_TASK = "(no task)";
+
+export const DEFAULT_TEST_PATTERNS = [
+  "**/*.test.*",
+  "**/*.spec.*",
+  "**/*_test.*",
+  "**/test_*.py",
+  "**/__tests__/**",
+  "**/test/**",
+  "**/tests/**",
+  "**/spec/**",
+];
+
+const SOURCE_FILE = /\.(c|cc|cpp|cxx|h|hpp|cs|go|java|kt|kts|scala|swift|rs|zig|dart|ex|exs|rb|php|py|lua|js|jsx|mjs|cjs|ts|tsx|mts|cts|vue|svelte)$/;
+
+const TEST_COMMAND = /\b(jest|vitest|mocha|pytest|rspec|phpunit|(npm|pnpm|yarn|bun|deno|cargo|go|dotnet|mvn|gradle|mix|make)( run)? test)\b/;
+
+export function emptyCycle(): TddCycle {
+  return { phase: "start", testFiles: [], implemented: false };
+}
+
+export function isTestFile(path: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesPathGlob(path, pattern));
+}
+
+/**
+ * Code outside Meridian's folders that is not a test; docs and config never count
+ */
+export function isSourceFile(path: string, patterns: string[]): boolean {
+  return SOURCE_FILE.test(path) && !path.startsWith(".meridian/") && !path.startsWith(".opencode/") && !isTestFile(path, patterns);
+}
+
+export function isTestCommand(command: string): boolean {
+  return TEST_COMMAND.test(command);
+}
+
+/**
+ * Project files an edit-type call writes, split into tests and source
+ */
+export function classifyEdit(
+  tool: string,
+  args: unknown,
+  directory: string,
+  patterns: string[]
+): { tests: string[]; sources: string[] } {
+  const name = tool.toLowerCase();
+  if (!EDIT_TOOLS.includes(name) || !args || typeof args !== "object") return { tests: [], sources: [] };
+  const files = editedPaths(name, args as Record<string, unknown>)
+    .map((path) => projectRelative(path, directory))
+    .filter((path): path is string => path !== null);
+  return {
+    tests: files.filter((file) => isTestFile(file, patterns)),
+    sources: files.filter((file) => isSourceFile(file, patterns)),
+  };
+}
+
+/**
+ * Why editing these source files now breaks the cycle, or null when it does not
+ */
+export function checkSourceEdit(cycle: TddCycle, sources: string[]): string | null {
+  if (sources.length === 0) return null;
+  const files = sources.map((file) => `\`${file}\``).join(", ");
+  if (cycle.phase === "start") {
+    return `${files}: no test was written or changed yet. Write a test for the behaviour first and run it to see it fail`;
+  }
+  if (cycle.phase === "test") {
+    return `${files}: the new test (${cycle.testFiles.map((file) => `\`${file}\``).join(", ")}) has not been seen failing yet. Run the tests and confirm they fail for the expected reason first`;
+  }
+  return null;
+}
+
+/**
+ * Fold one finished tool call into the cycle
+ */
+export function recordTddCall(
+  cycle: TddCycle,
+  call: { tool: string; args: unknown; success: boolean },
+  directory: string,
+  patterns: string[]
+): TddUpdate {
+  const tool = call.tool.toLowerCase();
+  const args = (call.args && typeof call.args === "object" ? call.args : {}) as Record<string, unknown>;
+  const steps: string[] = [];
+  let next = { ...cycle };
+  let violation: string | null = null;
+
+  if (EDIT_TOOLS.includes(tool) && call.success) {
+    const { tests, sources } = classifyEdit(tool, args, directory, patterns);
+    violation = checkSourceEdit(cycle, sources);
+    if (violation) steps.push(`⚠️ ${violation}`);
+
+    if (tests.length > 0) {
+      const added = tests.filter((file) => !next.testFiles.includes(file));
+      // A new test after green (or before anything) starts the next cycle
+      if (next.phase === "start" || next.phase === "green") next = { phase: "test", testFiles: tests, implemented: false };
+      else next = { ...next, testFiles: [...next.testFiles, ...added] };
+      if (added.length > 0 || cycle.phase !== next.phase) steps.push(`Test written: ${tests.map((file) => `\`${file}\``).join(", ")}`);
+    }
+    if (sources.length > 0 && next.phase === "red" && !next.implemented) {
+      next.implemented = true;
+      steps.push(`Implementation started: ${sources.map((file) => `\`${file}\``).join(", ")}`);
+    }
+  } else if (tool === "bash" && typeof args.command === "string" && isTestCommand(args.command)) {
+    const command = `\`${args.command.split("\n")[0].slice(0, 80)}\``;
+    if (!call.success && (next.phase === "test" || next.phase === "green")) {
+      steps.push(next.phase === "test" ? `Red: ${command} fails with the new test` : `Red: ${command} fails again`);
+      next = { ...next, phase: "red", implemented: false };
+    } else if (call.success && next.phase === "red") {
+      steps.push(`Green: ${command} passes`);
+      next = { ...next, phase: "green" };
+    } else if (call.success && next.phase === "test") {
+      steps.push(`⚠️ ${command} passed before any implementation; check that the new test can fail`);
+    }
+  }
+
+  return { cycle: next, steps, violation };
+}
@@ -0,0 +1,106 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, unlinkSync } from "fs";
+import { join } from "path";
+import { differenceInCalendarDays, parseISO, isValid } from "date-fns";
+import { type BacklogEntry } from "./backlog";
+import { writeFileAtomic } from "./files";
+
+/**
+ * Soft delete for task folders
+ *
+ * Deleted tasks are moved to <tasksDir>/.trash/<TASK-ID>--<time>/ together with
+ * a .trashed.json file holding their backlog entry, so they can be restored
+ * exactly. Trashed tasks are purged once they are older than the retention period.
+ */
+
+export interface TrashedTask {
+  taskId: string;
+  trashedAt: string;
+  /** Folder name inside the trash directory */
+  folder: string;
+  /** Backlog entry at the time of deletion, if the task was in the backlog */
+  entry: BacklogEntry | null;
+}
+
+const METADATA_FILE = ".trashed.json";
+
+export function trashDir(tasksDir: string): string {
+  return join(tasksDir, ".trash");
+}
+
+/**
+ * Trashed tasks, most recently deleted first
+ */
+export function listTrash(tasksDir: string): TrashedTask[] {
+  const dir = trashDir(tasksDir);
+  if (!existsSync(dir)) return [];
+
+  const items: TrashedTask[] = [];
+  for (const item of readdirSync(dir, { withFileTypes: true })) {
+    if (!item.isDirectory()) continue;
+    const metadataPath = join(dir, item.name, METADATA_FILE);
+    try {
+      const metadata = JSON.parse(readFileSync(metadataPath, "utf-8"));
+      items.push({ taskId: metadata.taskId, trashedAt: metadata.trashedAt, folder: item.name, entry: metadata.entry ?? null });
+    } catch (error) {
+      // Not a trashed task (or metadata lost); recover the ID from the folder name
+      const taskId = item.name.split("--")[0];
+      items.push({ taskId, trashedAt: "", folder: item.name, entry: null });
+    }
+  }
+  return items.sort((a, b) => b.trashedAt.localeCompare(a.trashedAt));
+}
+
+/**
+ * Move a task folder into the trash
+ */
+export function moveToTrash(tasksDir: string, taskId: string, entry: BacklogEntry | null, now: Date = new Date()): TrashedTask {
+  const dir = trashDir(tasksDir);
+  mkdirSync(dir, { recursive: true });
+
+  const trashedAt = now.toISOString();
+  const folder = `${taskId}--${trashedAt.replace(/[:.]/g, "-")}`;
+  const destination = join(dir, folder);
+
+  renameSync(join(tasksDir, taskId), destination);
+  writeFileAtomic(join(destination, METADATA_FILE), JSON.stringify({ taskId, trashedAt, entry }, null, 2) + "\n");
+  return { taskId, trashedAt, folder, entry };
+}
+
+/**
+ * Move a trashed task back to its task folder. Fails if the folder exists again.
+ */
+export function restoreFromTrash(tasksDir: string, item: TrashedTask): void {
+  const destination = join(tasksDir, item.taskId);
+  if (existsSync(destination)) {
+    throw new Error(`Cannot restore ${item.taskId}: ${destination} already exists. Nothing was restored.`);
+  }
+
+  renameSync(join(trashDir(tasksDir), item.folder), destination);
+  try {
+    unlinkSync(join(destination, METADATA_FILE));
+  } catch (error) {
+    // Metadata was missing
+  }
+}
+
+/**
+ * Permanently delete one trashed task
+ */
+export function deleteFromTrash(tasksDir: string, item: TrashedTask): void {
+  rmSync(join(trashDir(tasksDir), item.folder), { recursive: true, force: true });
+}
+
+/**
+ * Permanently delete tasks trashed more than retentionDays ago. Returns what was purged.
+ */
+export function purgeTrash(tasksDir: string, retentionDays: number, now: Date = new Date()): TrashedTask[] {
+  const purged: TrashedTask[] = [];
+  for (const item of listTrash(tasksDir)) {
+    const trashedAt = parseISO(item.trashedAt);
+    if (isValid(trashedAt) && differenceInCalendarDays(now, trashedAt) > retentionDays) {
+      deleteFromTrash(tasksDir, item);
+      purged.push(item);
+    }
+  }
+  return purged;
+}
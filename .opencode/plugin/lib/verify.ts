@@ -0,0 +1,128 @@
+import { spawn } from "child_process";
+import { redactText } from "./redact";
+
+/**
+ * Runs a task's validation.commands for task-verify
+ *
+ * Commands run one after another through the shell, each with a time limit.
+ * Only the end of the output is kept, where test runners and compilers print
+ * their failures. The result is stored in the brief's `verification` block,
+ * which task-status checks before a task can be marked done.
+ */
+
+export interface CommandResult {
+  command: string;
+  /** null when the command was killed */
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  output: string;
+}
+
+/** `verification` block written to TASK-###.yaml */
+export interface VerificationRecord {
+  at: string;
+  result: "passed" | "failed";
+  commands: { command: string; exit_code: number | null; timed_out?: boolean; duration_s: number }[];
+}
+
+const KILL_GRACE_MS = 5000;
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+function tail(text: string, maxChars: number): string {
+  return text.length > maxChars ? `…${text.slice(-(maxChars - 1))}` : text;
+}
+
+/**
+ * Run one shell command in cwd. Never rejects; failures are reported in the result.
+ */
+export function runCommand(command: string, cwd: string, timeoutMs: number, maxChars: number): Promise<CommandResult> {
+  const started = Date.now();
+
+  return new Promise((resolve) => {
+    let output = "";
+    let timedOut = false;
+    let settled = false;
+
+    const child = spawn(command, {
+      cwd,
+      shell: true,
+      // Own process group, so a timeout also stops the processes the command started
+      detached: process.platform !== "win32",
+      stdio: ["ignore", "pipe", "pipe"],
+      env: { ...process.env, CI: process.env.CI ?? "true", FORCE_COLOR: "0" },
+    });
+
+    const collect = (chunk: Buffer) => {
+      // Keep a margin so a cut ANSI sequence at the front does not matter
+      output = (output + chunk.toString("utf-8")).slice(-maxChars * 2);
+    };
+    child.stdout?.on("data", collect);
+    child.stderr?.on("data", collect);
+
+    const kill = (signal: NodeJS.Signals) => {
+      try {
+        if (child.pid && process.platform !== "win32") process.kill(-child.pid, signal);
+        else child.kill(signal);
+      } catch (error) {
+        // Already exited
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill("SIGTERM");
+      setTimeout(() => kill("SIGKILL"), KILL_GRACE_MS).unref();
+    }, timeoutMs);
+
+    const finish = (exitCode: number | null, extra = "") => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      const text = redactText((output + extra).replace(ANSI_PATTERN, "")).trim();
+      resolve({ command, exitCode: timedOut ? null : exitCode, timedOut, durationMs: Date.now() - started, output: tail(text, maxChars) });
+    };
+
+    child.on("error", (error) => finish(null, `\n${error.message}`));
+    child.on("close", (code) => finish(code));
+  });
+}
+
+export function isPassing(result: CommandResult): boolean {
+  return !result.timedOut && result.exitCode === 0;
+}
+
+export function toVerificationRecord(results: CommandResult[], at: string): VerificationRecord {
+  return {
+    at,
+    result: results.every(isPassing) ? "passed" : "failed",
+    commands: results.map((result) => ({
+      command: result.command,
+      exit_code: result.exitCode,
+      ...(result.timedOut ? { timed_out: true } : {}),
+      duration_s: Math.round(result.durationMs / 100) / 10,
+    })),
+  };
+}
+
+function describe(result: CommandResult): string {
+  const seconds = `${(result.durationMs / 1000).toFixed(1)}s`;
+  if (result.timedOut) return `⏱️ \`${result.command}\` timed out (${seconds})`;
+  if (isPassing(result)) return `✅ \`${result.command}\` (${seconds})`;
+  return `❌ \`${result.command}\` exit ${result.exitCode ?? "?"} (${seconds})`;
+}
+
+/**
+ * Timestamped section for TASK-###-context.md, with the output of failed commands
+ */
+export function formatVerificationSection(results: CommandResult[], at: string): string {
+  const passed = results.filter(isPassing).length;
+  const status = passed === results.length ? "✅ passed" : "❌ failed";
+  const lines = [`## ${at}`, `- Verification: ${status} (${passed}/${results.length} commands)`];
+  lines.push(...results.map((result) => `  - ${describe(result)}`));
+
+  for (const result of results.filter((r) => !isPassing(r) && r.output)) {
+    lines.push("", `Output of \`${result.command}\`:`, "```", result.output.replace(/```/g, "'''"), "```");
+  }
+  return `\n${lines.join("\n")}\n`;
+}
@@ -0,0 +1,966 @@
+import { readFileSync, existsSync, mkdirSync, readdirSync, renameSync } from "fs";
+import { join, relative } from "path";
+import { load } from "js-yaml";
+import {
+  type BacklogEntry,
+  type BacklogDocument,
+  type BacklogStatus,
+  BACKLOG_STATUSES,
+  readBacklog,
+  writeBacklog,
+  listBacklogEntries,
+  findBacklogEntry,
+  upsertBacklogEntry,
+  removeBacklogEntry,
+} from "./backlog";
+import { type MemoryEntry, type MemoryEvent, type ResolvedMemory, readMemoryLog, resolveMemory } from "./memory";
+import { type MeridianConfig, loadMeridianConfig } from "./config";
+import { withLock, writeFileAtomic, appendFileSynced } from "./files";
+import { listTrash, moveToTrash, purgeTrash } from "./trash";
+import { type GitCommit, type GitRef, currentGitRef, findTaskCommits } from "./git";
+import type { VerificationRecord } from "./verify";
+import { readTaskArchive } from "./task-archive";
+import { type MemoryIndex, type MemorySearchResult, createMemoryIndex, parseMemoryQuery } from "./memory-search";
+import { validateTaskBrief, formatBriefIssues } from "./task-schema";
+import { type TaskGraph, buildTaskGraph, validateTaskGraph } from "./graph";
+import {
+  type TaskBrief,
+  type RequirementProgress,
+  STATUS_TRANSITIONS,
+  listTaskIds,
+  LAST_TASK_ID_FILE,
+  readLastTaskNumber,
+  readTaskBrief,
+  requirementProgress,
+  openRequirements,
+  setBriefFields,
+  setBriefBlock,
+  taskBriefPath,
+} from "./tasks";
+
+/**
+ * Task and memory operations shared by the tools plugin and the meridian CLI
+ *
+ * A workspace is bound to one project directory. Operations that write take
+ * the same lock files as before (.memory.lock, .tasks.lock), so the CLI and
+ * running OpenCode sessions never interleave their writes. Results are plain
+ * data; the callers format them for the agent or the terminal.
+ */
+
+export interface MemoryInput {
+  summary: string;
+  tags?: string[];
+  links?: string[];
+  /** Memory IDs the new entry replaces */
+  supersedes?: string[];
+}
+
+export interface AddedMemory {
+  entry: MemoryEntry;
+  superseded: string[];
+}
+
+export interface MemorySearch {
+  /** Entries in the index (0 when memory.jsonl is missing or empty) */
+  indexed: number;
+  results: MemorySearchResult[];
+  bestScore: number;
+}
+
+export interface TaskInput {
+  /** YAML content for TASK-###.yaml */
+  taskBrief?: string;
+  planContent?: string;
+  contextContent?: string;
+  /** One-line title or a YAML mapping (title, priority, status) */
+  backlogEntry?: string;
+  dependsOn?: string[];
+  blockedBy?: string[];
+}
+
+export interface TaskWrite {
+  taskId: string;
+  path: string;
+  /** What was written: YAML brief, plan, context, backlog */
+  written: string[];
+}
+
+export interface StatusChange {
+  taskId: string;
+  from: BacklogStatus;
+  to: BacklogStatus;
+  /** Tasks whose blocked_by listed this task, now moved to depends_on */
+  unblocked: string[];
+  /** Dependencies that are not done yet */
+  pendingDependencies: string[];
+  verified: boolean;
+  git: GitRef | null;
+  linkedCommits: GitCommit[];
+  /** Why commits could not be linked, if they could not */
+  linkWarning: string | null;
+}
+
+export interface TaskFilter {
+  status?: string[];
+  priority?: string[];
+  /** Only tasks that depend on this task ID */
+  dependsOn?: string;
+  /** Case-insensitive match on ID and title */
+  search?: string;
+}
+
+export interface TaskRow {
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  dependsOn: string[];
+  blockedBy: string[];
+  inBacklog: boolean;
+  brief: TaskBrief | null;
+  /** Why TASK-###.yaml could not be read, when it could not */
+  briefError: string | null;
+}
+
+export interface TaskDetails extends TaskRow {
+  path: string;
+  progress: RequirementProgress | null;
+  files: string[];
+}
+
+export interface DeletedTask {
+  taskId: string;
+  trashPath: string;
+  removedFromBacklog: boolean;
+}
+
+export interface Workspace {
+  directory: string;
+  meridianDir: string;
+  memoryPath: string;
+  backlogPath: string;
+  archiveIndexPath: string;
+  auditPath: string;
+  memoryLockPath: string;
+  tasksLockPath: string;
+  /** Where git commands run (the worktree, or the project directory) */
+  gitDir: string;
+  config: MeridianConfig;
+  /** Config problems found while loading config.yaml */
+  configIssues: string[];
+  memoryIndex: MemoryIndex;
+
+  nextMemoryId(): string;
+  /** Effective memory state keyed by ID (lifecycle events applied) */
+  resolvedMemoryMap(): Map<string, ResolvedMemory>;
+  /** Throw unless the memory ID exists and is still active */
+  requireActiveMemory(byId: Map<string, ResolvedMemory>, memoryId: string): ResolvedMemory;
+  addMemory(input: MemoryInput): Promise<AddedMemory>;
+  searchMemory(query: string, options?: { limit?: number; minScore?: number }): MemorySearch;
+  findMemory(memoryId: string): ResolvedMemory | null;
+
+  nextTaskId(): string;
+  /** Apply a task's backlog changes in memory and validate its dependencies */
+  prepareBacklogUpdate(taskId: string, backlogEntry?: string, dependsOn?: string[], blockedBy?: string[], brief?: TaskBrief): BacklogDocument;
+  /** Validate a task brief, filling in a missing id and requiring the given status. Returns the content to write. */
+  prepareTaskBrief(taskId: string, content: string, status: BacklogStatus): string;
+  /** Backlog dependency graph, with archived prerequisites added as done */
+  buildGraphWithArchive(entries: BacklogEntry[]): TaskGraph;
+  /** Add commits to links.commits and the context file; returns the newly linked ones */
+  linkTaskCommits(taskId: string, commits: GitCommit[]): GitCommit[];
+  /** "TASK-### (title)" from the backlog or archive */
+  describeTask(taskId: string): string;
+  createTask(input: TaskInput): Promise<TaskWrite>;
+  updateTask(taskId: string, input: TaskInput): Promise<TaskWrite>;
+  setTaskStatus(taskId: string, status: BacklogStatus, note?: string): Promise<StatusChange>;
+  listTasks(filter?: TaskFilter): { rows: TaskRow[]; total: number };
+  showTask(taskId: string): TaskDetails;
+  deleteTask(taskId: string): Promise<DeletedTask>;
+  /** Recreate a missing task folder from TASK-000-template, filled in from the backlog entry */
+  restoreTaskFolder(taskId: string): Promise<string>;
+}
+
+/**
+ * Current UTC time in ISO format without milliseconds
+ */
+export function utcTimestamp(): string {
+  return new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+/**
+ * Split comma/space separated items and drop duplicates
+ */
+export function splitAndDedupe(items: string[]): string[] {
+  const result: string[] = [];
+  const seen = new Set<string>();
+
+  for (const item of items) {
+    const parts = item.split(/[,\s]+/).filter((p) => p.trim());
+    for (const part of parts) {
+      const trimmed = part.trim();
+      if (trimmed && !seen.has(trimmed)) {
+        seen.add(trimmed);
+        result.push(trimmed);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Requirement progress for a task row, e.g. "2/5 (1 active)"
+ */
+export function describeProgress(row: TaskRow): string {
+  if (row.briefError) return "invalid brief";
+  if (!row.brief) return "-";
+  const progress = requirementProgress(row.brief);
+  if (progress.total === 0) return "-";
+  return `${progress.done}/${progress.total}${progress.inProgress ? ` (${progress.inProgress} active)` : ""}`;
+}
+
+/**
+ * Read the last non-empty line from a file efficiently
+ */
+function tailLastLine(filePath: string): string | null {
+  if (!existsSync(filePath)) return null;
+
+  try {
+    const content = readFileSync(filePath, "utf-8");
+    const lines = content.split("\n").filter((line) => line.trim());
+    return lines.length > 0 ? lines[lines.length - 1] : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Turn a backlogEntry argument into backlog fields.
+ * Accepts a YAML mapping (optionally as a one-item list) or a plain one-line title.
+ * Status changes go through task-status, so a status field is rejected.
+ */
+function parseBacklogEntryArg(input: string): Partial<BacklogEntry> {
+  let parsed: unknown;
+  try {
+    parsed = load(input);
+  } catch (error) {
+    parsed = undefined;
+  }
+
+  if (Array.isArray(parsed) && parsed.length === 1) {
+    parsed = parsed[0];
+  }
+
+  if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+    const fields = parsed as Record<string, unknown>;
+    if (["id", "title", "priority", "status"].some((key) => key in fields)) {
+      if ("status" in fields) {
+        throw new Error(
+          `backlogEntry cannot set a status (got '${fields.status}'). Use task-status to change it, which checks the allowed transitions. Nothing was written.`
+        );
+      }
+      return fields as Partial<BacklogEntry>;
+    }
+  }
+
+  return { title: input.trim() };
+}
+
+/**
+ * Rename template files in a new task directory
+ */
+function renameTemplateFiles(destDir: string, taskId: string): void {
+  const exts = [".yaml", ".yml", ".md"];
+  const items = readdirSync(destDir, { withFileTypes: true });
+
+  for (const item of items) {
+    if (!item.isFile()) continue;
+
+    const ext = item.name.substring(item.name.lastIndexOf("."));
+    if (!exts.includes(ext.toLowerCase())) continue;
+
+    if (item.name.includes("TASK-000")) {
+      const newName = item.name.replace("TASK-000", taskId);
+      const oldPath = join(destDir, item.name);
+      const newPath = join(destDir, newName);
+
+      if (existsSync(newPath)) {
+        throw new Error(`Cannot rename '${item.name}' to '${newName}': target already exists.`);
+      }
+
+      renameSync(oldPath, newPath);
+    }
+  }
+}
+
+export function createWorkspace(directory: string, worktree?: string): Workspace {
+  const meridianDir = join(directory, ".meridian");
+  const memoryPath = join(meridianDir, "memory.jsonl");
+  const { config, issues: configIssues } = loadMeridianConfig(directory);
+  const { tasksDir, trashRetentionDays } = config;
+  const backlogPath = join(meridianDir, "task-backlog.yaml");
+  const archiveIndexPath = join(meridianDir, "task-archive.yaml");
+  const auditPath = join(meridianDir, "audit.jsonl");
+  // Held while reading and writing memory.jsonl, and task folders/backlog (incl. ID allocation)
+  const memoryLockPath = join(meridianDir, ".memory.lock");
+  const tasksLockPath = join(meridianDir, ".tasks.lock");
+  // OpenCode passes "/" as the worktree outside a git repository
+  const gitDir = worktree && worktree !== "/" ? worktree : directory;
+  const memoryIndex = createMemoryIndex(memoryPath);
+
+  function nextMemoryId(): string {
+    const lastLine = tailLastLine(memoryPath);
+    if (lastLine) {
+      try {
+        const obj = JSON.parse(lastLine);
+        const match = obj.id?.match(/^mem-(\d{4,})$/);
+        if (match) {
+          const nextNum = parseInt(match[1], 10) + 1;
+          return `mem-${nextNum.toString().padStart(4, "0")}`;
+        }
+      } catch (error) {
+        // Fall through to full scan
+      }
+    }
+
+    // Full scan fallback
+    let maxNum = 0;
+    if (existsSync(memoryPath)) {
+      try {
+        const content = readFileSync(memoryPath, "utf-8");
+        const lines = content.split("\n").filter((line) => line.trim());
+        for (const line of lines) {
+          try {
+            const obj = JSON.parse(line);
+            const match = obj.id?.match(/^mem-(\d{4,})$/);
+            if (match) {
+              maxNum = Math.max(maxNum, parseInt(match[1], 10));
+            }
+          } catch (error) {
+            continue;
+          }
+        }
+      } catch (error) {
+        // Ignore
+      }
+    }
+
+    return `mem-${(maxNum + 1).toString().padStart(4, "0")}`;
+  }
+
+  function resolvedMemoryMap(): Map<string, ResolvedMemory> {
+    return new Map(resolveMemory(readMemoryLog(memoryPath)).map((entry) => [entry.id, entry]));
+  }
+
+  function requireActiveMemory(byId: Map<string, ResolvedMemory>, memoryId: string): ResolvedMemory {
+    const entry = byId.get(memoryId);
+    if (!entry) {
+      throw new Error(`Memory '${memoryId}' not found in ${memoryPath}`);
+    }
+    if (entry.status !== "active") {
+      const detail = entry.supersededBy ? ` by ${entry.supersededBy}` : entry.reason ? ` (${entry.reason})` : "";
+      throw new Error(`Memory '${memoryId}' is already ${entry.status}${detail}`);
+    }
+    return entry;
+  }
+
+  function addMemory(input: MemoryInput): Promise<AddedMemory> {
+    return withLock(memoryLockPath, () => {
+      if (!input.summary || !input.summary.trim()) {
+        throw new Error("Summary is required and cannot be empty");
+      }
+
+      const supersedes = splitAndDedupe(input.supersedes || []);
+      if (supersedes.length > 0) {
+        const byId = resolvedMemoryMap();
+        for (const targetId of supersedes) {
+          requireActiveMemory(byId, targetId);
+        }
+      }
+
+      // Ensure parent directory exists
+      if (!existsSync(meridianDir)) {
+        mkdirSync(meridianDir, { recursive: true });
+      }
+
+      const entry: MemoryEntry = {
+        id: nextMemoryId(),
+        timestamp: utcTimestamp(),
+        summary: input.summary.trim(),
+        tags: splitAndDedupe(input.tags || []),
+        links: splitAndDedupe(input.links || []),
+      };
+
+      // Append the entry, followed by supersede events for replaced entries
+      const events: MemoryEvent[] = supersedes.map((target) => ({
+        event: "supersede",
+        target,
+        by: entry.id,
+        timestamp: entry.timestamp,
+      }));
+      appendFileSynced(memoryPath, [entry, ...events].map((record) => JSON.stringify(record) + "\n").join(""));
+
+      return { entry, superseded: supersedes };
+    });
+  }
+
+  function searchMemory(query: string, options: { limit?: number; minScore?: number } = {}): MemorySearch {
+    const indexed = memoryIndex.refresh();
+    if (indexed === 0) return { indexed, results: [], bestScore: 0 };
+
+    const results = memoryIndex.search(parseMemoryQuery(query), options.limit || 5);
+    const bestScore = results[0]?.score ?? 0;
+    const minScore = options.minScore || 0;
+    return {
+      indexed,
+      results: results.filter((result) => bestScore === 0 || result.score / bestScore >= minScore),
+      bestScore,
+    };
+  }
+
+  function findMemory(memoryId: string): ResolvedMemory | null {
+    return resolvedMemoryMap().get(memoryId) ?? null;
+  }
+
+  function nextTaskId(): string {
+    if (!existsSync(tasksDir)) {
+      throw new Error(`Tasks directory not found: ${tasksDir}`);
+    }
+
+    // IDs of archived, trashed and purged tasks are never reused
+    const usedIds = [
+      ...listTaskIds(tasksDir),
+      ...readTaskArchive(archiveIndexPath).tasks.map((task) => task.id),
+      ...listTrash(tasksDir).map((item) => item.taskId),
+    ];
+    const taskIds = usedIds.filter((id) => /^TASK-\d+$/.test(id)).map((id) => parseInt(id.slice(5), 10));
+    const nextId = Math.max(readLastTaskNumber(tasksDir), ...taskIds) + 1;
+    return `TASK-${nextId.toString().padStart(3, "0")}`;
+  }
+
+  function buildGraphWithArchive(entries: BacklogEntry[]): TaskGraph {
+    const ids = new Set(entries.map((entry) => entry.id));
+    const referenced = new Set(entries.flatMap((entry) => [...entry.depends_on, ...entry.blocked_by]));
+    const archived: BacklogEntry[] = readTaskArchive(archiveIndexPath).tasks
+      .filter((task) => referenced.has(task.id) && !ids.has(task.id))
+      .map((task) => ({
+        id: task.id,
+        title: task.title,
+        priority: task.priority,
+        status: "done",
+        path: task.path,
+        depends_on: [],
+        blocked_by: [],
+      }));
+    return buildTaskGraph([...entries, ...archived]);
+  }
+
+  /**
+   * Nothing is written, so callers can reject bad input before touching disk.
+   * A brief supplies the priority, and the title when backlogEntry has none.
+   */
+  function prepareBacklogUpdate(taskId: string, backlogEntry?: string, dependsOn?: string[], blockedBy?: string[], brief?: TaskBrief): BacklogDocument {
+    const doc = readBacklog(backlogPath);
+    const fields = backlogEntry ? parseBacklogEntryArg(backlogEntry) : {};
+    if (brief?.priority && fields.priority && fields.priority !== brief.priority) {
+      throw new Error(
+        `backlogEntry priority ${fields.priority} does not match priority ${brief.priority} in taskBrief. Give the same priority in both, or leave it out of backlogEntry. Nothing was written.`
+      );
+    }
+    const update: Partial<BacklogEntry> & { id: string } = {
+      ...(brief?.title ? { title: brief.title } : {}),
+      ...(brief?.priority ? { priority: brief.priority as BacklogEntry["priority"] } : {}),
+      ...fields,
+      id: taskId,
+    };
+
+    if (!findBacklogEntry(doc, taskId)) {
+      update.status ??= "todo";
+      update.path ??= `${relative(directory, join(tasksDir, taskId))}/`;
+    }
+
+    if (dependsOn) {
+      update.depends_on = splitAndDedupe(dependsOn);
+    }
+
+    if (blockedBy) {
+      update.blocked_by = splitAndDedupe(blockedBy);
+    }
+
+    upsertBacklogEntry(doc, update);
+
+    const knownIds = new Set([...listTaskIds(tasksDir), taskId]);
+    const issues = validateTaskGraph(buildGraphWithArchive(listBacklogEntries(doc)), knownIds)
+      .filter((issue) => issue.taskId === taskId);
+    if (issues.length > 0) {
+      throw new Error(
+        `Invalid dependencies for ${taskId}:\n${issues.map((issue) => `- ${issue.message}`).join("\n")}\nFix dependsOn/blockedBy and retry. Nothing was written.`
+      );
+    }
+
+    return doc;
+  }
+
+  /**
+   * Status a task is in: the brief's, else the backlog's, else todo
+   */
+  function currentStatus(taskId: string, brief: TaskBrief | null, backlog: BacklogDocument): BacklogStatus {
+    const briefStatus = BACKLOG_STATUSES.includes(brief?.status as BacklogStatus) ? brief?.status as BacklogStatus : undefined;
+    return briefStatus ?? findBacklogEntry(backlog, taskId)?.status ?? "todo";
+  }
+
+  /**
+   * A missing or placeholder id is filled in with the task's ID, since agents
+   * cannot know the next ID when creating a task. The status must stay as it
+   * is (todo for new tasks); task-status owns transitions.
+   */
+  function prepareTaskBrief(taskId: string, content: string, status: BacklogStatus): string {
+    let brief = content;
+    let data: unknown;
+    try {
+      data = load(content);
+    } catch (error) {
+      data = undefined;
+    }
+
+    if (data && typeof data === "object" && !Array.isArray(data)) {
+      const id = (data as TaskBrief).id;
+      if (id === undefined || id === null || String(id).includes("###")) {
+        brief = setBriefFields(content, { id: taskId });
+      }
+    }
+
+    const { issues } = validateTaskBrief(brief, taskId);
+    if (issues.length > 0) {
+      throw new Error(
+        `Invalid taskBrief for ${taskId} (${issues.length} issue(s)):\n${formatBriefIssues(`${taskId}.yaml`, issues)}\nFix the YAML and retry. Nothing was written.`
+      );
+    }
+
+    const requested = (load(brief) as TaskBrief).status;
+    if (requested !== status) {
+      throw new Error(
+        `taskBrief cannot change the status of ${taskId} (${status} → ${requested}). Keep status: ${status} and use task-status to move the task, which checks the allowed transitions. Nothing was written.`
+      );
+    }
+
+    return brief;
+  }
+
+  function linkTaskCommits(taskId: string, commits: GitCommit[]): GitCommit[] {
+    const briefPath = taskBriefPath(tasksDir, taskId);
+    const brief = readTaskBrief(tasksDir, taskId);
+    if (!brief || commits.length === 0) return [];
+
+    const links = brief.links ?? {};
+    if (typeof links !== "object" || Array.isArray(links)) {
+      throw new Error(`${taskId}.yaml: links must be a mapping (files, docs, commits) to record commits`);
+    }
+    const existing = Array.isArray((links as Record<string, unknown>).commits)
+      ? ((links as Record<string, unknown>).commits as unknown[]).map(String)
+      : [];
+    const isLinked = (commit: GitCommit) =>
+      existing.some((item) => {
+        const hash = item.split(" ")[0];
+        return hash.length >= 4 && commit.hash.startsWith(hash);
+      });
+
+    // git log is newest first; record oldest first
+    const added = commits.filter((commit) => !isLinked(commit)).reverse();
+    if (added.length === 0) return [];
+
+    const updatedLinks = { ...links, commits: [...existing, ...added.map((commit) => `${commit.shortHash} ${commit.subject}`)] };
+    writeFileAtomic(briefPath, setBriefBlock(readFileSync(briefPath, "utf-8"), "links", updatedLinks));
+
+    const contextPath = join(tasksDir, taskId, `${taskId}-context.md`);
+    const lines = added.map((commit) => `  - ${commit.shortHash} ${commit.subject} (${commit.date.slice(0, 10)})`);
+    appendFileSynced(contextPath, `\n## ${utcTimestamp()}\n- Commits:\n${lines.join("\n")}\n`);
+    return added;
+  }
+
+  function describeTask(taskId: string): string {
+    const title =
+      findBacklogEntry(readBacklog(backlogPath), taskId)?.title ??
+      readTaskArchive(archiveIndexPath).tasks.find((task) => task.id === taskId)?.title;
+    return title ? `${taskId} (${title})` : `${taskId} (not in the backlog or archive)`;
+  }
+
+  /**
+   * Write the provided task files; returns what was written
+   */
+  function writeTaskFiles(taskId: string, destDir: string, input: TaskInput, taskBrief?: string): string[] {
+    const written: string[] = [];
+
+    if (taskBrief) {
+      writeFileAtomic(join(destDir, `${taskId}.yaml`), taskBrief);
+      written.push("YAML brief");
+    }
+
+    if (input.planContent) {
+      writeFileAtomic(join(destDir, `${taskId}-plan.md`), input.planContent);
+      written.push("plan");
+    }
+
+    if (input.contextContent) {
+      writeFileAtomic(join(destDir, `${taskId}-context.md`), input.contextContent);
+      written.push("context");
+    }
+
+    return written;
+  }
+
+  function requireTemplate(): string {
+    const templateDir = join(tasksDir, "TASK-000-template");
+    if (!existsSync(templateDir)) {
+      throw new Error(
+        `Template directory not found at '${templateDir}'. Please create a 'TASK-000-template' folder with the desired contents, or run \`meridian doctor\` to restore the default one.`
+      );
+    }
+    return templateDir;
+  }
+
+  /**
+   * Create a task folder from TASK-000-template with the files renamed for taskId
+   */
+  function copyTemplate(taskId: string, destDir: string): void {
+    const templateDir = requireTemplate();
+    try {
+      mkdirSync(destDir, { recursive: true });
+      for (const item of readdirSync(templateDir, { withFileTypes: true })) {
+        if (item.isFile()) {
+          writeFileAtomic(join(destDir, item.name), readFileSync(join(templateDir, item.name), "utf-8"));
+        }
+      }
+    } catch (error) {
+      throw new Error(`Failed to copy template: ${error}`);
+    }
+
+    renameTemplateFiles(destDir, taskId);
+  }
+
+  /**
+   * Set id, title, status and priority of a freshly copied template brief from the backlog entry
+   */
+  function fillTemplateBrief(taskId: string, entry: BacklogEntry): void {
+    const briefPath = taskBriefPath(tasksDir, taskId);
+    if (!existsSync(briefPath)) return;
+    const fields: Record<string, string> = { id: taskId };
+    if (entry.title) fields.title = entry.title;
+    if (entry.status) fields.status = entry.status;
+    if (entry.priority) fields.priority = entry.priority;
+    writeFileAtomic(briefPath, setBriefFields(readFileSync(briefPath, "utf-8"), fields));
+  }
+
+  function createTask(input: TaskInput): Promise<TaskWrite> {
+    return withLock(tasksLockPath, () => {
+      const taskId = nextTaskId();
+      const destDir = join(tasksDir, taskId);
+      requireTemplate();
+
+      if (existsSync(destDir)) {
+        throw new Error(`Task '${taskId}' already exists at '${destDir}'. Use taskId parameter to update it.`);
+      }
+
+      // Validate brief and backlog changes before creating the task folder.
+      // The backlog entry takes its priority (and a missing title) from the brief.
+      const taskBrief = input.taskBrief ? prepareTaskBrief(taskId, input.taskBrief, "todo") : undefined;
+      const briefFields = taskBrief ? (load(taskBrief) as TaskBrief) : undefined;
+      const backlogDoc = input.backlogEntry || input.dependsOn || input.blockedBy || briefFields
+        ? prepareBacklogUpdate(taskId, input.backlogEntry, input.dependsOn, input.blockedBy, briefFields)
+        : null;
+
+      copyTemplate(taskId, destDir);
+      writeFileAtomic(join(tasksDir, LAST_TASK_ID_FILE), `${taskId}\n`);
+      // Without a brief, the template's placeholders are filled in from the backlog entry
+      const entry = backlogDoc ? findBacklogEntry(backlogDoc, taskId) : undefined;
+      if (!taskBrief && entry) fillTemplateBrief(taskId, entry);
+
+      // Populate files with provided content (if any), then add to the backlog
+      const written = writeTaskFiles(taskId, destDir, input, taskBrief);
+      if (backlogDoc) {
+        writeBacklog(backlogPath, backlogDoc);
+        written.push("backlog");
+      }
+
+      return { taskId, path: destDir, written };
+    });
+  }
+
+  function restoreTaskFolder(taskId: string): Promise<string> {
+    return withLock(tasksLockPath, () => {
+      const entry = findBacklogEntry(readBacklog(backlogPath), taskId);
+      if (!entry) throw new Error(`Task '${taskId}' is not in the backlog. Nothing was written.`);
+      const destDir = join(tasksDir, taskId);
+      if (existsSync(destDir)) throw new Error(`Task folder '${destDir}' already exists. Nothing was written.`);
+
+      copyTemplate(taskId, destDir);
+      fillTemplateBrief(taskId, entry);
+      return destDir;
+    });
+  }
+
+  function updateTask(taskId: string, input: TaskInput): Promise<TaskWrite> {
+    return withLock(tasksLockPath, () => {
+      const destDir = join(tasksDir, taskId);
+      if (!existsSync(destDir)) {
+        throw new Error(`Task '${taskId}' not found at '${destDir}'. Cannot update non-existent task.`);
+      }
+
+      // Validate brief and backlog changes before writing anything
+      let brief: TaskBrief | null;
+      try {
+        brief = readTaskBrief(tasksDir, taskId);
+      } catch (error) {
+        // A broken brief is being replaced
+        brief = null;
+      }
+      const status = currentStatus(taskId, brief, readBacklog(backlogPath));
+      const taskBrief = input.taskBrief ? prepareTaskBrief(taskId, input.taskBrief, status) : undefined;
+      const backlogDoc = input.backlogEntry || input.dependsOn || input.blockedBy
+        ? prepareBacklogUpdate(taskId, input.backlogEntry, input.dependsOn, input.blockedBy)
+        : null;
+
+      const written = writeTaskFiles(taskId, destDir, input, taskBrief);
+      if (backlogDoc) {
+        writeBacklog(backlogPath, backlogDoc);
+        written.push("backlog");
+        // Keep the brief's priority in step with a priority change made through the backlog entry
+        const priority = findBacklogEntry(backlogDoc, taskId)?.priority;
+        const briefPath = taskBriefPath(tasksDir, taskId);
+        if (!taskBrief && priority && existsSync(briefPath)) {
+          const content = readFileSync(briefPath, "utf-8");
+          const current = load(content) as TaskBrief | null;
+          if (current && typeof current === "object" && current.priority !== priority) {
+            writeFileAtomic(briefPath, setBriefFields(content, { priority }));
+            written.push("brief priority");
+          }
+        }
+      }
+
+      return { taskId, path: destDir, written };
+    });
+  }
+
+  function setTaskStatus(taskId: string, target: BacklogStatus, note?: string): Promise<StatusChange> {
+    return withLock(tasksLockPath, () => {
+      const briefPath = taskBriefPath(tasksDir, taskId);
+
+      if (!BACKLOG_STATUSES.includes(target)) {
+        throw new Error(`Unknown status '${target}'. Use one of: ${BACKLOG_STATUSES.join(", ")}.`);
+      }
+
+      if (!existsSync(briefPath)) {
+        throw new Error(`Task brief not found at '${briefPath}'. Cannot change status of a non-existent task.`);
+      }
+
+      let brief: TaskBrief | null;
+      try {
+        brief = readTaskBrief(tasksDir, taskId);
+      } catch (error) {
+        throw new Error(`Cannot read ${briefPath}: ${error instanceof Error ? error.message : error}. Fix the brief with task-manager first.`);
+      }
+
+      const backlog = readBacklog(backlogPath);
+      const current = currentStatus(taskId, brief, backlog);
+
+      if (current !== target && !STATUS_TRANSITIONS[current].includes(target)) {
+        throw new Error(
+          `Cannot move ${taskId} from ${current} to ${target}. Allowed from ${current}: ${STATUS_TRANSITIONS[current].join(", ")}.`
+        );
+      }
+
+      if (target === "done") {
+        const verification = brief?.verification as Partial<VerificationRecord> | undefined;
+        if (verification?.result === "failed") {
+          const failed = (verification.commands ?? []).filter((command) => command.exit_code !== 0).map((command) => command.command);
+          throw new Error(
+            `Cannot mark ${taskId} done: the latest verification (${verification.at}) failed${failed.length > 0 ? ` (${failed.join(", ")})` : ""}. Fix it and run task-verify again.`
+          );
+        }
+        const open = openRequirements(brief);
+        if (open.length > 0) {
+          throw new Error(
+            `Cannot mark ${taskId} done: ${open.length} requirement(s) still todo (${open.map((req) => req.id ?? "?").join(", ")}). Update requirements[].status in ${taskId}.yaml first.`
+          );
+        }
+      }
+
+      const timestamp = utcTimestamp();
+      const fields: Record<string, string | null> = { status: target, updated_at: timestamp };
+      if (target === "done") {
+        fields.completed_at = timestamp;
+      } else if (current === "done") {
+        fields.completed_at = null;
+      }
+
+      // Backlog first: it is the file most likely to fail validation
+      upsertBacklogEntry(backlog, { id: taskId, status: target });
+      const unblocked: string[] = [];
+      if (target === "done") {
+        for (const entry of listBacklogEntries(backlog)) {
+          if (!entry.blocked_by.includes(taskId)) continue;
+          upsertBacklogEntry(backlog, {
+            id: entry.id,
+            blocked_by: entry.blocked_by.filter((id) => id !== taskId),
+            depends_on: entry.depends_on.includes(taskId) ? entry.depends_on : [...entry.depends_on, taskId],
+          });
+          unblocked.push(entry.id);
+        }
+      }
+      writeBacklog(backlogPath, backlog);
+
+      // Starting and finishing work records where it happened
+      const ref = target === "in_progress" || target === "done" ? currentGitRef(gitDir) : null;
+      let content = setBriefFields(readFileSync(briefPath, "utf-8"), fields);
+      if (ref) {
+        const git = brief?.git && typeof brief.git === "object" && !Array.isArray(brief.git) ? brief.git : {};
+        content = setBriefBlock(content, "git", { ...git, [target]: { branch: ref.branch, head: ref.head, at: timestamp } });
+      }
+      writeFileAtomic(briefPath, content);
+
+      if (note?.trim() || ref) {
+        const contextPath = join(tasksDir, taskId, `${taskId}-context.md`);
+        const noteText = note?.trim() ? ` ${note.trim()}` : "";
+        const gitLine = ref ? `\n- Git: ${ref.branch ?? "detached HEAD"} @ ${ref.head}` : "";
+        appendFileSynced(contextPath, `\n## ${timestamp}\n- Status: ${current} → ${target}.${noteText}${gitLine}\n`);
+      }
+
+      let linkedCommits: GitCommit[] = [];
+      let linkWarning: string | null = null;
+      if (ref && target === "done") {
+        try {
+          linkedCommits = linkTaskCommits(taskId, findTaskCommits(gitDir, taskId));
+        } catch (error) {
+          linkWarning = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      const pendingDependencies = (findBacklogEntry(backlog, taskId)?.depends_on ?? [])
+        .filter((id) => findBacklogEntry(backlog, id)?.status !== "done");
+
+      return {
+        taskId,
+        from: current,
+        to: target,
+        unblocked,
+        pendingDependencies,
+        verified: !!brief?.verification,
+        git: ref,
+        linkedCommits,
+        linkWarning,
+      };
+    });
+  }
+
+  function taskRow(id: string, entry: BacklogEntry | undefined): TaskRow {
+    let brief: TaskBrief | null = null;
+    let briefError: string | null = null;
+    try {
+      brief = readTaskBrief(tasksDir, id);
+    } catch (error) {
+      briefError = error instanceof Error ? error.message : String(error);
+    }
+
+    return {
+      id,
+      title: entry?.title || (typeof brief?.title === "string" ? brief.title : ""),
+      status: entry?.status ?? brief?.status ?? "",
+      priority: entry?.priority ?? brief?.priority ?? "",
+      dependsOn: entry?.depends_on ?? [],
+      blockedBy: entry?.blocked_by ?? [],
+      inBacklog: !!entry,
+      brief,
+      briefError,
+    };
+  }
+
+  function listTasks(filter: TaskFilter = {}): { rows: TaskRow[]; total: number } {
+    const entries = listBacklogEntries(readBacklog(backlogPath));
+
+    // Task folders that are missing from the backlog still show up
+    const knownIds = new Set(entries.map((entry) => entry.id));
+    const rows = [
+      ...entries.map((entry) => taskRow(entry.id, entry)),
+      ...listTaskIds(tasksDir).filter((id) => !knownIds.has(id)).map((id) => taskRow(id, undefined)),
+    ];
+
+    const search = filter.search?.trim().toLowerCase();
+    const filtered = rows.filter((row) => {
+      if (filter.status?.length && !filter.status.includes(row.status)) return false;
+      if (filter.priority?.length && !filter.priority.includes(row.priority)) return false;
+      if (filter.dependsOn && !row.dependsOn.includes(filter.dependsOn)) return false;
+      if (search && !`${row.id} ${row.title}`.toLowerCase().includes(search)) return false;
+      return true;
+    });
+
+    return { rows: filtered, total: rows.length };
+  }
+
+  function showTask(taskId: string): TaskDetails {
+    const path = join(tasksDir, taskId);
+    const entry = findBacklogEntry(readBacklog(backlogPath), taskId);
+    if (!entry && !existsSync(path)) {
+      throw new Error(`Task '${taskId}' not found in the backlog or at '${path}'.`);
+    }
+
+    const row = taskRow(taskId, entry);
+    const files = existsSync(path)
+      ? readdirSync(path, { withFileTypes: true }).filter((item) => item.isFile()).map((item) => join(path, item.name))
+      : [];
+    return { ...row, path, progress: row.brief ? requirementProgress(row.brief) : null, files };
+  }
+
+  function deleteTask(taskId: string): Promise<DeletedTask> {
+    return withLock(tasksLockPath, () => {
+      const destDir = join(tasksDir, taskId);
+      if (!existsSync(destDir)) {
+        throw new Error(`Task '${taskId}' not found at '${destDir}'. Cannot delete non-existent task.`);
+      }
+
+      const doc = readBacklog(backlogPath);
+      const entry = findBacklogEntry(doc, taskId) ?? null;
+      const trashed = moveToTrash(tasksDir, taskId, entry);
+      const removedFromBacklog = removeBacklogEntry(doc, taskId);
+      if (removedFromBacklog) {
+        writeBacklog(backlogPath, doc);
+      }
+      purgeTrash(tasksDir, trashRetentionDays);
+
+      return { taskId, trashPath: join(tasksDir, ".trash", trashed.folder), removedFromBacklog };
+    });
+  }
+
+  return {
+    directory,
+    meridianDir,
+    memoryPath,
+    backlogPath,
+    archiveIndexPath,
+    auditPath,
+    memoryLockPath,
+    tasksLockPath,
+    gitDir,
+    config,
+    configIssues,
+    memoryIndex,
+    nextMemoryId,
+    resolvedMemoryMap,
+    requireActiveMemory,
+    addMemory,
+    searchMemory,
+    findMemory,
+    nextTaskId,
+    prepareBacklogUpdate,
+    prepareTaskBrief,
+    buildGraphWithArchive,
+    linkTaskCommits,
+    describeTask,
+    createTask,
+    updateTask,
+    setTaskStatus,
+    listTasks,
+    showTask,
+    deleteTask,
+    restoreTaskFolder,
+  };
+}
@@ -1,7 +1,22 @@
 import type { Plugin } from "@opencode-ai/plugin";
-import { readFileSync, existsSync, writeFileSync, unlinkSync, appendFileSync } from "fs";
-import { join } from "path";
+import { readFileSync, existsSync, unlinkSync } from "fs";
+import { join, relative } from "path";
 import { subDays, parseISO, isAfter } from "date-fns";
+import { type ResolvedMemory, loadActiveMemory } from "./lib/memory";
+import { type TaskFocus, buildTaskFocus, selectMemoryForInjection, formatOmittedNote } from "./lib/memory-context";
+import { readBacklog, listBacklogEntries } from "./lib/backlog";
+import { type TaskBrief, readTaskBrief } from "./lib/tasks";
+import { createSessionStore } from "./lib/session-state";
+import { type AuditRecord, sanitizeAuditArgs, isFailedCall, appendAuditLog } from "./lib/audit";
+import { redactText, redactValue } from "./lib/redact";
+import { EDIT_TOOLS, editedPaths, emptyActivity, recordActivity, buildIdleReminder } from "./lib/activity";
+import { evaluatePolicy, describeRule, policyCallKey, isApproval } from "./lib/policy";
+import { READ_TOOLS, buildReviewChecklist, tickReviewFile, remainingReviewFiles } from "./lib/context-review";
+import { type MeridianConfig, type LoadedConfig, loadMeridianConfig } from "./lib/config";
+import { UNLOCK_ENV, UNLOCK_PHRASE, managedPaths, findProtected, findProtectedInCommand, isUnlockMessage, projectRelative, shellWriteTargets } from "./lib/protected-paths";
+import { NO_TASK, emptyCycle, classifyEdit, checkSourceEdit, recordTddCall } from "./lib/tdd";
+import { withLock, appendFileSynced } from "./lib/files";
+import { codeGuideFiles } from "./lib/scaffold";
 
 /**
  * Meridian Plugin for OpenCode
@@ -20,113 +35,80 @@ import { subDays, parseISO, isAfter } from "date-fns";
  * - Context preservation on session reload
  * - Session idle/stop hooks for cleanup
  */
-// Session state interface
-interface SessionState {
-  lastAgent: string;
-  idleMessageInjected: boolean;
-  lastContextReview: string | null;
-  activeTask: string | null;
-  sessionStarted: string;
-}
-
 export const MeridianPlugin: Plugin = async ({ project, client, $, directory, worktree }) => {
   const meridianDir = join(directory, ".meridian");
   const configPath = join(meridianDir, "config.yaml");
-  const needsContextReviewFlag = join(meridianDir, ".needs-context-review");
+  const legacyContextReviewFlag = join(meridianDir, ".needs-context-review");
   const auditPath = join(meridianDir, "audit.jsonl");
-  const sessionStatePath = join(directory, ".opencode", ".meridian-session-state.json");
+  // Held while rotating and appending to the audit log, shared by all sessions
+  const auditLockPath = join(meridianDir, ".audit.lock");
+  // Same lock as the task tools, so hook notes never interleave with their writes
+  const tasksLockPath = join(meridianDir, ".tasks.lock");
+  const sessions = createSessionStore(join(directory, ".opencode", ".meridian-sessions"));
+  const legacySessionStatePath = join(directory, ".opencode", ".meridian-session-state.json");
+
+  // Session state untouched for this long is deleted
+  const STALE_SESSION_DAYS = 14;
+
+  // Drop stale per-session state, and the project-wide files used before it
+  sessions.cleanup(STALE_SESSION_DAYS);
+  try {
+    if (existsSync(legacySessionStatePath)) unlinkSync(legacySessionStatePath);
+    // Replaced by the per-session context review checklist
+    if (existsSync(legacyContextReviewFlag)) unlinkSync(legacyContextReviewFlag);
+  } catch (error) {
+    // Ignore errors
+  }
+
+  // Start time and args of tool calls in flight, keyed by callID
+  const pendingCalls = new Map<string, { startedAt: number; args: Record<string, unknown> | undefined }>();
+  const PENDING_CALL_TTL_MS = 60 * 60 * 1000;
 
   /**
-   * Load session state from disk
+   * Load .meridian/config.yaml (re-read on every use so edits apply without a restart)
    */
-  function loadSessionState(): SessionState {
-    if (existsSync(sessionStatePath)) {
-      try {
-        const content = readFileSync(sessionStatePath, "utf-8");
-        return JSON.parse(content);
-      } catch (error) {
-        // Invalid JSON, use defaults
-      }
-    }
-
-    // Default state
-    return {
-      lastAgent: "build",
-      idleMessageInjected: false,
-      lastContextReview: null,
-      activeTask: null,
-      sessionStarted: new Date().toISOString()
-    };
+  function getProjectConfig(): LoadedConfig {
+    return loadMeridianConfig(directory);
   }
 
   /**
-   * Save session state to disk
+   * Report config problems back into the session instead of swallowing them
    */
-  function saveSessionState(state: SessionState): void {
-    try {
-      writeFileSync(sessionStatePath, JSON.stringify(state, null, 2), "utf-8");
-    } catch (error) {
-      // Silently fail if can't save
-    }
+  function formatConfigIssues(issues: string[]): string {
+    if (issues.length === 0) return "";
+    return `**CONFIG WARNINGS** (\`${configPath}\`):\n${issues.map((issue) => `- ${issue}`).join("\n")}\nTell the user about these so they can fix the configuration.\n\n`;
   }
 
-  // Load or initialize session state
-  const sessionState = loadSessionState();
-
-  // Track current agent/mode for conditional behavior
-  let currentAgent: string = sessionState.lastAgent;
-
-  // Prevent duplicate idle message injection
-  let idleMessageInjected = sessionState.idleMessageInjected;
-
   /**
-   * Read and parse config.yaml to determine project type and TDD mode
+   * CODE_GUIDE files that apply to the project configuration
    */
-  function getProjectConfig(): { projectType: string; tddMode: boolean } {
-    let projectType = "standard";
-    let tddMode = false;
+  function buildCodeGuideFiles(): string[] {
+    return codeGuideFiles(meridianDir, getProjectConfig().config);
+  }
 
-    if (existsSync(configPath)) {
-      try {
-        const configContent = readFileSync(configPath, "utf-8");
-        for (const line of configContent.split("\n")) {
-          const stripped = line.trim();
-          if (stripped.startsWith("project_type:")) {
-            const value = stripped.split(":")[1]?.trim().toLowerCase();
-            if (["hackathon", "standard", "production"].includes(value)) {
-              projectType = value;
-            }
-          } else if (stripped.startsWith("tdd_mode:")) {
-            const value = stripped.split(":")[1]?.trim().toLowerCase();
-            tddMode = ["true", "yes", "on", "1"].includes(value);
-          }
-        }
-      } catch (error) {
-        // Keep defaults on parse error
-      }
-    }
+  /**
+   * Whether a bash call writes files inside the project (redirects, cp/mv destinations, rm, sed -i, ...)
+   */
+  function writesProjectFiles(tool: string, args: unknown): boolean {
+    if (tool !== "bash" || !args || typeof args !== "object") return false;
+    const command = (args as Record<string, unknown>).command;
+    return typeof command === "string" && shellWriteTargets(command).some((target) => projectRelative(target, directory) !== null);
+  }
 
-    return { projectType, tddMode };
+  /**
+   * How the hooks enforce TDD, for the session start and reload messages
+   */
+  function formatTddNote(config: MeridianConfig): string {
+    if (!config.tddMode) return "";
+    const effect = config.tdd.enforcement === "block" ? "are blocked" : "get a warning";
+    return `\nTDD mode is enforced by the tool hooks: source edits ${effect} until a test file was written or changed and a test run was seen failing. The steps are logged to the active task's context file.\n`;
   }
 
   /**
    * Build the list of CODE_GUIDE files based on project configuration
    */
   function buildCodeGuideFilesList(): string {
-    const { projectType, tddMode } = getProjectConfig();
-    let files = `- \`${directory}/.meridian/CODE_GUIDE.md\``;
-
-    if (projectType === "hackathon") {
-      files += `\n- \`${directory}/.meridian/CODE_GUIDE_ADDON_HACKATHON.md\``;
-    } else if (projectType === "production") {
-      files += `\n- \`${directory}/.meridian/CODE_GUIDE_ADDON_PRODUCTION.md\``;
-    }
-
-    if (tddMode) {
-      files += `\n- \`${directory}/.meridian/CODE_GUIDE_ADDON_TDD.md\``;
-    }
-
-    return files;
+    return buildCodeGuideFiles().map((file) => `- \`${file}\``).join("\n");
   }
 
   /**
@@ -140,61 +122,66 @@ export const MeridianPlugin: Plugin = async ({ project, client, $, directory, wo
   }
 
   /**
-   * Create the context review flag
+   * Tool args for an audit record: secrets masked (audit.redact), long values truncated
    */
-  function createContextReviewFlag(): void {
-    try {
-      writeFileSync(needsContextReviewFlag, "", "utf-8");
-    } catch (error) {
-      // Ignore errors
-    }
+  function auditArgs(args: unknown): Record<string, unknown> | null {
+    const { audit } = getProjectConfig().config;
+    return sanitizeAuditArgs(audit.redact ? redactValue(args) : args, audit.outputMaxChars);
   }
 
   /**
-   * Remove the context review flag
+   * Rotate the audit log when it is too large or too old, then append the record
    */
-  function removeContextReviewFlag(): void {
+  async function appendAuditRecord(record: AuditRecord): Promise<void> {
+    const { audit } = getProjectConfig().config;
     try {
-      if (existsSync(needsContextReviewFlag)) {
-        unlinkSync(needsContextReviewFlag);
-      }
+      await appendAuditLog(auditPath, auditLockPath, record, {
+        maxBytes: audit.maxSizeKb * 1024,
+        maxAgeDays: audit.maxAgeDays,
+        retentionDays: audit.retentionDays,
+      });
     } catch (error) {
-      // Ignore errors
+      // Silently fail if can't write audit log
     }
   }
 
   /**
-   * Load and filter memory entries by recency
-   * Returns recent (last 30 days) and old memory separately
+   * Start the read-before-edit checklist for a session (session start and compaction)
    */
-  function loadSmartMemory(recentDays: number = 30): { recent: any[]; old: any[] } {
+  function startContextReview(sessionID: string, extraFiles: string[] = []): void {
+    const { config } = getProjectConfig();
+    const pendingReads = config.hooks.contextReview
+      ? buildReviewChecklist({ meridianDir, tasksDir: config.tasksDir, codeGuideFiles: buildCodeGuideFiles(), extraFiles })
+      : [];
+    sessions.update(sessionID, { pendingReads });
+  }
+
+  /**
+   * Load and filter active memory entries by recency
+   * Returns recent (last memory.recent_days days) and old memory separately
+   */
+  function loadSmartMemory(recentDays: number): { recent: ResolvedMemory[]; old: ResolvedMemory[] } {
     const memoryPath = join(meridianDir, "memory.jsonl");
-    const recent: any[] = [];
-    const old: any[] = [];
+    const recent: ResolvedMemory[] = [];
+    const old: ResolvedMemory[] = [];
 
     if (!existsSync(memoryPath)) {
       return { recent, old };
     }
 
     try {
-      const content = readFileSync(memoryPath, "utf-8");
-      const lines = content.trim().split("\n").filter(line => line.trim());
+      // Only the effective state: superseded/deprecated entries are dropped, amendments applied
+      const entries = loadActiveMemory(memoryPath);
       const cutoffDate = subDays(new Date(), recentDays);
 
-      for (const line of lines) {
-        try {
-          const entry = JSON.parse(line);
-
-          // Parse timestamp from entry
-          const entryDate = entry.timestamp ? parseISO(entry.timestamp) : null;
+      for (const entry of entries) {
+        // Parse timestamp from entry
+        const entryDate = entry.timestamp ? parseISO(entry.timestamp) : null;
 
-          if (entryDate && isAfter(entryDate, cutoffDate)) {
-            recent.push(entry);
-          } else {
-            old.push(entry);
-          }
-        } catch (parseError) {
-          // Skip invalid JSON lines
+        if (entryDate && isAfter(entryDate, cutoffDate)) {
+          recent.push(entry);
+        } else {
+          old.push(entry);
         }
       }
     } catch (error) {
@@ -207,7 +194,7 @@ export const MeridianPlugin: Plugin = async ({ project, client, $, directory, wo
   /**
    * Summarize old memory entries into a compact format
    */
-  function summarizeOldMemory(oldMemory: any[]): string {
+  function summarizeOldMemory(oldMemory: ResolvedMemory[]): string {
     if (oldMemory.length === 0) {
       return "(No older memory entries)";
     }
@@ -255,47 +242,147 @@ export const MeridianPlugin: Plugin = async ({ project, client, $, directory, wo
   }
 
   /**
-   * Format recent memory entries for context injection
+   * Describe the tasks the session is focused on: the session's active task
+   * plus anything marked in_progress in the backlog
    */
-  function formatRecentMemory(recentMemory: any[]): string {
-    if (recentMemory.length === 0) {
-      return "(No recent memory entries)";
+  function loadTaskFocus(sessionID: string): TaskFocus {
+    const { tasksDir } = getProjectConfig().config;
+    const ids = new Set<string>();
+    const titles = new Map<string, string>();
+
+    const { activeTask } = sessions.get(sessionID);
+    if (activeTask) {
+      ids.add(activeTask);
     }
 
-    let formatted = `**Recent Memory** (last 30 days, ${recentMemory.length} entries):\n\n`;
-
-    for (const entry of recentMemory) {
-      formatted += `**${entry.id || "MEMORY"}** (${entry.timestamp || "unknown date"}):\n`;
-      formatted += `${entry.summary || "(no summary)"}\n`;
-
-      if (entry.tags && entry.tags.length > 0) {
-        formatted += `Tags: ${entry.tags.join(", ")}\n`;
+    try {
+      for (const entry of listBacklogEntries(readBacklog(join(meridianDir, "task-backlog.yaml")))) {
+        titles.set(entry.id, entry.title);
+        if (entry.status === "in_progress") ids.add(entry.id);
       }
+    } catch (error) {
+      // A malformed backlog only loses the focus boost
+    }
 
-      if (entry.links && entry.links.length > 0) {
-        formatted += `Links: ${entry.links.join(", ")}\n`;
+    return buildTaskFocus([...ids].map((id) => {
+      let brief: TaskBrief | null = null;
+      try {
+        brief = readTaskBrief(tasksDir, id);
+      } catch (error) {
+        // Invalid brief: rank by task ID only
       }
+      return { id, title: titles.get(id), brief };
+    }));
+  }
+
+  /**
+   * Format a single memory entry for context injection
+   */
+  function formatMemoryEntry(entry: ResolvedMemory): string {
+    let formatted = `**${entry.id || "MEMORY"}** (${entry.timestamp || "unknown date"}):\n`;
+    formatted += `${entry.summary || "(no summary)"}\n`;
+
+    if (entry.tags && entry.tags.length > 0) {
+      formatted += `Tags: ${entry.tags.join(", ")}\n`;
+    }
 
-      formatted += "\n";
+    if (entry.links && entry.links.length > 0) {
+      formatted += `Links: ${entry.links.join(", ")}\n`;
     }
 
+    return formatted + "\n";
+  }
+
+  /**
+   * Format memory for context injection: recent entries plus older entries linked
+   * to the active task, ranked by relevance and cut to the configured budget
+   */
+  function formatRecentMemory(sessionID: string, recentMemory: ResolvedMemory[], oldMemory: ResolvedMemory[]): string {
+    const { memory } = getProjectConfig().config;
+    const focus = loadTaskFocus(sessionID);
+    const linkedOld = oldMemory.filter((entry) =>
+      entry.links.some((link) => focus.taskIds.includes(link))
+    );
+    const candidates = [...recentMemory, ...linkedOld];
+
+    if (candidates.length === 0) {
+      return "(No recent memory entries)";
+    }
+
+    const { included, omitted } = selectMemoryForInjection(candidates, focus, memory.budgetChars, formatMemoryEntry);
+    const focusNote = focus.taskIds.length > 0 ? `, ranked for ${focus.taskIds.join(", ")}` : ", ranked by importance and recency";
+
+    let formatted = `**Recent Memory** (last ${memory.recentDays} days, ${included.length} of ${candidates.length} entries${focusNote}):\n\n`;
+    formatted += included.map(formatMemoryEntry).join("");
+    formatted += formatOmittedNote(omitted, memory.budgetChars);
+
     return formatted;
   }
 
+  /**
+   * Append TDD steps to the task's context file; without a task they are only tracked
+   */
+  async function logTddSteps(taskId: string | null, steps: string[]): Promise<void> {
+    if (!taskId || steps.length === 0) return;
+    const contextPath = join(getProjectConfig().config.tasksDir, taskId, `${taskId}-context.md`);
+    if (!existsSync(contextPath)) return;
+    const timestamp = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+    try {
+      await withLock(tasksLockPath, () => {
+        appendFileSynced(contextPath, `\n## ${timestamp}\n${steps.map((step) => `- TDD: ${step}`).join("\n")}\n`);
+      });
+    } catch (error) {
+      // The cycle is still tracked in the session state
+    }
+  }
+
+  /**
+   * Record a call stopped before it ran in the audit log, then reject it
+   */
+  async function rejectCall(
+    input: { tool: string; sessionID: string; callID: string },
+    args: unknown,
+    message: string,
+    policy: NonNullable<AuditRecord["policy"]>
+  ): Promise<never> {
+    const session = sessions.get(input.sessionID);
+    await appendAuditRecord({
+      timestamp: new Date().toISOString(),
+      sessionID: input.sessionID ?? null,
+      callID: input.callID ?? null,
+      agent: session.lastAgent,
+      tool: input.tool,
+      task: session.activeTask,
+      args: auditArgs(args),
+      durationMs: null,
+      success: false,
+      output: message.substring(0, getProjectConfig().config.audit.outputMaxChars),
+      policy,
+    });
+    throw new Error(message);
+  }
+
   return {
     /**
      * Track current agent/mode for conditional behavior
      * This allows Meridian to adapt its behavior based on which agent is active
+     *
+     * Each user message starts a new turn, so the idle reminder may fire again.
+     * Protected paths stay unlocked only for the turn whose message asked for it.
      */
     "chat.message": async (input, output) => {
-      if (input.agent) {
-        const previousAgent = currentAgent;
-        currentAgent = input.agent;
-
-        // Save agent change to session state
-        sessionState.lastAgent = currentAgent;
-        saveSessionState(sessionState);
-      }
+      // The user's reply answers calls stopped by an "ask" policy
+      const { pendingApprovals, approvedCalls } = sessions.get(input.sessionID);
+      const text = (output?.parts ?? []).map((part) => (part.type === "text" ? part.text : "")).join("\n");
+      const approved = pendingApprovals.length > 0 && isApproval(text);
+
+      sessions.update(input.sessionID, {
+        ...(input.agent ? { lastAgent: input.agent } : {}),
+        idleMessageInjected: false,
+        pendingApprovals: [],
+        approvedCalls: approved ? [...approvedCalls, ...pendingApprovals] : approvedCalls,
+        protectedPathsUnlocked: isUnlockMessage(text),
+      });
     },
 
     /**
@@ -309,7 +396,8 @@ export const MeridianPlugin: Plugin = async ({ project, client, $, directory, wo
       // Handle session created (startup)
       if (event.type === "session.created") {
         const sessionID = event.properties.info.id;
-        const { projectType, tddMode } = getProjectConfig();
+        sessions.update(sessionID, {});
+        const { config, issues } = getProjectConfig();
         const codeGuideFiles = buildCodeGuideFilesList();
 
         // Load agent operating manual
@@ -317,15 +405,15 @@ export const MeridianPlugin: Plugin = async ({ project, client, $, directory, wo
         const promptContent = readFileSafe(promptPath);
 
         // Load smart memory (recent vs old)
-        const { recent: recentMemory, old: oldMemory } = loadSmartMemory(30);
-        const recentMemoryText = formatRecentMemory(recentMemory);
+        const { recent: recentMemory, old: oldMemory } = loadSmartMemory(config.memory.recentDays);
+        const recentMemoryText = formatRecentMemory(sessionID, recentMemory, oldMemory);
         const oldMemorySummary = summarizeOldMemory(oldMemory);
 
         // Build initialization message with smart context loading
         const initMessage = `${promptContent}
 [SYSTEM]:
 
-**PROJECT MEMORY:**
+${formatConfigIssues(issues)}**PROJECT MEMORY:**
 
 ${recentMemoryText}
 
@@ -340,16 +428,18 @@ ${codeGuideFiles}
 
 2. Read all additional relevant documents listed in \`${directory}/.meridian/relevant-docs.md\`.
 
-3. Review all uncompleted tasks in \`${directory}/.meridian/tasks/\` — you MUST read ALL files within each task folder.
+3. Review all uncompleted tasks in \`${config.tasksDir}/\` — you MUST read ALL files within each task folder. Skip \`.archive/\`, \`.trash/\` and \`.meridian/task-archive.yaml\`: archived and deleted tasks are history, only open them if the user asks.
 
 4. Ask the user what they would like to work on.
 
+Edit tools and shell commands that write files stay blocked until you have read the files from steps 1-3 with the Read tool (the guides, the backlog, \`relevant-docs.md\` and the files of uncompleted tasks).
+${formatTddNote(config)}
 IMPORTANT:
 Claude must always complete all steps listed in this system message before doing anything else. Even if the user sends any message after this system message, Claude must first perform everything described above and only then handle the user's request.
 `;
 
-        // Create context review flag
-        createContextReviewFlag();
+        // Edit tools stay blocked until the listed files are read
+        startContextReview(sessionID);
 
         // Inject initialization message into session
         try {
@@ -368,16 +458,17 @@ Claude must always complete all steps listed in this system message before doing
       // Handle session compacted (context reload)
       if (event.type === "session.compacted") {
         const sessionID = event.properties.sessionID;
+        const { config, issues } = getProjectConfig();
         const codeGuideFiles = buildCodeGuideFilesList();
 
         // Load smart memory (recent vs old)
-        const { recent: recentMemory, old: oldMemory } = loadSmartMemory(30);
-        const recentMemoryText = formatRecentMemory(recentMemory);
+        const { recent: recentMemory, old: oldMemory } = loadSmartMemory(config.memory.recentDays);
+        const recentMemoryText = formatRecentMemory(sessionID, recentMemory, oldMemory);
         const oldMemorySummary = summarizeOldMemory(oldMemory);
 
         const reloadMessage = `This conversation was recently compacted. There are important files and documentation that must always remain in your context.
 
-**PROJECT MEMORY:**
+${formatConfigIssues(issues)}**PROJECT MEMORY:**
 
 ${recentMemoryText}
 
@@ -391,22 +482,22 @@ ${codeGuideFiles}
 - \`${directory}/.meridian/relevant-docs.md\`
 - \`${directory}/.meridian/task-backlog.yaml\`
 
-Check \`${directory}/.meridian/task-backlog.yaml\` for any uncompleted tasks. For each uncompleted task, go to the corresponding folder at \`${directory}/.meridian/tasks/TASK-###/\` and read **all** files within that folder.
-
+Check \`${directory}/.meridian/task-backlog.yaml\` for any uncompleted tasks. For each uncompleted task, go to the corresponding folder at \`${config.tasksDir}/TASK-###/\` and read **all** files within that folder. Edit tools and shell commands that write files stay blocked until these files have been read with the Read tool. Do not read archived or deleted tasks (\`.archive/\`, \`.trash/\`, \`.meridian/task-archive.yaml\`).
+${formatTddNote(config)}
 **Synchronize your current work before proceeding**
 To avoid losing context due to compaction, first persist any changes you made just before the conversation was compacted:
 
 1. Identify the current task.
-2. In \`${directory}/.meridian/tasks/TASK-###/\`, update **all three files**:
-   - \`TASK-###.yaml\` — ensure \`status\`, \`updated_at\`, acceptance criteria, deliverables, and \`links\` reflect the latest changes.
+2. In \`${config.tasksDir}/TASK-###/\`, update **all three files**:
+   - \`TASK-###.yaml\` — ensure acceptance criteria, deliverables, and \`links\` reflect the latest changes. Change \`status\` with the \`task-status\` tool so the backlog stays in sync.
    - \`TASK-###-plan.md\` — append an **"Amendment <ISO timestamp> — Session reload sync"** section capturing any newly approved steps or adjustments.
    - \`TASK-###-context.md\` — add a timestamped entry summarizing what changed right before compaction. Mark any durable insights with \`MEMORY:\` for later addition via \`memory-curator\`.
 
 After reviewing and synchronizing, also review all files referenced in \`${directory}/.meridian/relevant-docs.md\`. Once you have reviewed everything, you may continue your work.
 `;
 
-        // Create context review flag
-        createContextReviewFlag();
+        // Edit tools stay blocked until the listed files are read
+        startContextReview(sessionID, [join(meridianDir, "prompts", "agent-operating-manual.md")]);
 
         // Inject reload message into session
         try {
@@ -422,37 +513,36 @@ After reviewing and synchronizing, also review all files referenced in \`${direc
         }
       }
 
+      // Forget state of deleted sessions
+      if (event.type === "session.deleted") {
+        sessions.remove(event.properties.info.id);
+      }
+
       // Handle session idle/stop
       if (event.type === "session.idle") {
-        // Guard against duplicate idle messages
-        if (idleMessageInjected) {
+        const { config } = getProjectConfig();
+        if (!config.hooks.idleReminder) {
           return;
         }
-        idleMessageInjected = true;
-
-        // Save state
-        sessionState.idleMessageInjected = true;
-        saveSessionState(sessionState);
 
         const sessionID = event.properties.sessionID;
+        const session = sessions.get(sessionID);
 
-        const stopMessage = `[SYSTEM]: Before stopping, check whether you need to update task files or memory based on what you accomplished during this session:
-
-**Task File Updates (if you were working on a task):**
-- Update \`${directory}/.meridian/tasks/TASK-###/TASK-###.yaml\` with: current implementation step, key decisions made, issues discovered, complex problems solved, and next steps
-- Update \`${directory}/.meridian/tasks/TASK-###/TASK-###-context.md\` with session notes
-
-**Memory Documentation (if you made significant architectural decisions):**
-- Use \`memory-curator\` tool to document important patterns, decisions, or lessons learned
-
-**Code Quality (if you consider the work finished):**
-- Run the project's tests, lint, and build commands
-- Fix any failures before marking the task as complete
-- Review 'Definition of Done' in \`${directory}/.meridian/prompts/agent-operating-manual.md\`
-
-**If nothing significant happened:** Skip the updates and respond with the same message that was blocked.
+        // Guard against duplicate idle messages within one user turn
+        if (session.idleMessageInjected) {
+          return;
+        }
 
-**If you did update something:** Resend the same message you sent before this hook interrupted you.`;
+        // Only remind when the session changed something since the last reminder
+        const stopMessage = buildIdleReminder(session.activity, {
+          activeTask: session.activeTask,
+          tasksDir: relative(directory, config.tasksDir),
+          operatingManual: join(meridianDir, "prompts", "agent-operating-manual.md"),
+        });
+        if (!stopMessage) {
+          return;
+        }
+        sessions.update(sessionID, { idleMessageInjected: true, activity: emptyActivity() });
 
         // Inject idle/stop reminder into session
         // Note: noReply is FALSE here because we want Claude to respond and take action
@@ -479,23 +569,85 @@ After reviewing and synchronizing, also review all files referenced in \`${direc
      * - Other agents: No special restrictions
      */
     "tool.execute.before": async (input, output) => {
-      // Check if context review is needed (applies to ALL agents)
-      if (existsSync(needsContextReviewFlag)) {
-        removeContextReviewFlag();
+      const session = sessions.get(input.sessionID);
+      const { config } = getProjectConfig();
+
+      // Per-agent tool policies from config.yaml (applies to ALL agents)
+      const rule = evaluatePolicy(config.policies, { agent: session.lastAgent, tool: input.tool, args: output.args });
+      if (rule && rule.action !== "allow") {
+        const callKey = policyCallKey(input.tool, output.args);
+        if (rule.action === "ask" && session.approvedCalls.includes(callKey)) {
+          sessions.update(input.sessionID, { approvedCalls: session.approvedCalls.filter((key) => key !== callKey) });
+        } else {
+          const description = describeRule(rule, config.policies.indexOf(rule));
+          const reason = rule.reason ? ` Reason: ${rule.reason}.` : "";
+          const message = rule.action === "deny"
+            ? `[SYSTEM]: The ${input.tool} call was denied for agent '${session.lastAgent}' by ${description} in .meridian/config.yaml.${reason} Do not retry it; use another approach or ask the user to change the policy.`
+            : `[SYSTEM]: The ${input.tool} call needs the user's approval (${description} in .meridian/config.yaml).${reason} Ask the user whether to run it, explaining what it does. If they approve, retry the exact same call.`;
+          if (rule.action === "ask" && !session.pendingApprovals.includes(callKey)) {
+            sessions.update(input.sessionID, { pendingApprovals: [...session.pendingApprovals, callKey] });
+          }
 
-        throw new Error(
-          `[SYSTEM]: You were recently given a system message instructing you to review important files and documentation. This hook exists as a guardrail to ensure you complete that review before performing any tool actions.
+          await rejectCall(input, output.args, message, { action: rule.action, rule: description });
+        }
+      }
 
-If you triggered this hook *while already reviewing that system message* — that's okay. You did everything correctly. We're sorry for the interruption; this guardrail can occasionally activate while you are doing exactly what you should.
+      // Meridian state files are written through the tools only (applies to ALL agents).
+      // A person can unlock them for one turn with meridian:unlock, or per process with MERIDIAN_UNLOCK=1.
+      const tool = input.tool.toLowerCase();
+      if ((EDIT_TOOLS.includes(tool) || tool === "bash") && !session.protectedPathsUnlocked && process.env[UNLOCK_ENV] !== "1") {
+        const rules = [
+          ...managedPaths(relative(directory, config.tasksDir)),
+          ...config.protectedPaths.map((pattern) => ({ pattern, guidance: "Listed in protected_paths in .meridian/config.yaml; ask the user to change it" })),
+        ];
+        const args = (output.args && typeof output.args === "object" ? output.args : {}) as Record<string, unknown>;
+        const hit = tool === "bash"
+          ? typeof args.command === "string" ? findProtectedInCommand(args.command, rules, directory) : null
+          : findProtected(editedPaths(tool, args), rules, directory);
+        if (hit) {
+          await rejectCall(
+            input,
+            output.args,
+            `[SYSTEM]: \`${hit.path}\` is protected and cannot be changed with ${input.tool}. ${hit.rule.guidance}. Direct edits skip ID allocation, locking and formatting. If the user explicitly wants a manual edit, they can include \`${UNLOCK_PHRASE}\` in their message to allow it for that turn.`,
+            { action: "deny", rule: `protected path ${hit.rule.pattern}` }
+          );
+        }
+      }
 
-Please continue reviewing the files listed in the system message and disregard this warning. The guardrail has now been cleared, and you will not see this warning again during this review cycle.
+      // Edits, and shell commands that write project files, wait until the session has read its
+      // context review checklist (applies to ALL agents). Read-only tools always pass, so the agent can do the review.
+      if (session.pendingReads.length > 0 && (EDIT_TOOLS.includes(tool) || writesProjectFiles(tool, output.args))) {
+        const remaining = config.hooks.contextReview ? remainingReviewFiles(session.pendingReads) : [];
+        if (remaining.length === 0) {
+          sessions.update(input.sessionID, { pendingReads: [], lastContextReview: new Date().toISOString() });
+        } else {
+          throw new Error(
+            `[SYSTEM]: Read the project context before editing files. ${remaining.length} file(s) from the session start or reload message have not been read yet:
 
-After you finish reviewing the required files, you may automatically resume your work—no user confirmation is needed.`
-        );
+${remaining.map((file) => `- \`${file}\``).join("\n")}
+
+Read them with the Read tool, then retry this ${EDIT_TOOLS.includes(tool) ? "edit" : "command"}. Read-only tools and shell commands that do not write files are not blocked.`
+          );
+        }
+      }
+
+      // TDD mode: source edits wait for a test that was seen failing (tdd.enforcement: block)
+      if (config.tddMode && config.tdd.enforcement === "block" && EDIT_TOOLS.includes(tool)) {
+        const cycle = session.tdd[session.activeTask ?? NO_TASK] ?? emptyCycle();
+        const violation = checkSourceEdit(cycle, classifyEdit(tool, output.args, directory, config.tdd.testPatterns).sources);
+        if (violation) {
+          await logTddSteps(session.activeTask, [`Blocked: ${violation}`]);
+          await rejectCall(
+            input,
+            output.args,
+            `[SYSTEM]: TDD mode is on (Red → Green → Refactor): ${violation}. Test files, docs and config can still be edited. If the user wants to skip the test for this change, they can set \`tdd.enforcement: warn\` in .meridian/config.yaml.`,
+            { action: "deny", rule: "tdd.enforcement: block" }
+          );
+        }
       }
 
       // Meridian Plan mode exit reminder (ONLY when in meridian-plan agent)
-      if (input.tool === "ExitPlanMode" && currentAgent === "meridian-plan") {
+      if (input.tool === "ExitPlanMode" && session.lastAgent === "meridian-plan") {
         throw new Error(
           `[SYSTEM]: You are exiting Meridian Plan mode. If the user has approved the plan, you should create a formal task using the \`task-manager\` tool:
 
@@ -514,33 +666,57 @@ After creating the task (or if no task is needed), you may proceed to build mode
 
       // For all other agents (build, plan, custom): No ExitPlanMode restrictions
       // Memory, tasks, and context features remain fully active
+
+      // Remember when the call started so the after hook can record its duration.
+      // Calls that never finish (aborted sessions) are dropped after an hour.
+      const now = Date.now();
+      for (const [callID, call] of pendingCalls) {
+        if (now - call.startedAt > PENDING_CALL_TTL_MS) pendingCalls.delete(callID);
+      }
+      pendingCalls.set(input.callID, { startedAt: now, args: output.args });
     },
 
     /**
      * Post-tool execution hook
-     * Logs all tool executions to audit trail
+     * Logs all tool executions to audit trail (args, duration, session, active task)
      * Detects task transitions and updates session state
      */
-    "tool.execute.after": async (input: { tool: string; sessionID: string; callID: string }, output: { title: string; output: string; metadata: any }) => {
+    "tool.execute.after": async (input: { tool: string; sessionID: string; callID: string; args?: Record<string, unknown> }, output: { title: string; output: string; metadata: any }) => {
       const timestamp = new Date().toISOString();
+      const { config } = getProjectConfig();
 
-      // Determine success from output (no error in output typically means success)
-      const hasError = output.output?.includes("Error") || output.output?.includes("❌");
+      const hasError = isFailedCall(output.output, output.metadata);
 
-      // Create audit entry
-      const auditEntry = {
+      const session = sessions.get(input.sessionID);
+      const call = pendingCalls.get(input.callID);
+      pendingCalls.delete(input.callID);
+
+      // Create audit entry. Secrets are masked before truncation so a cut never exposes part of one.
+      const args = input.args ?? call?.args;
+      const auditEntry: AuditRecord = {
         timestamp,
-        agent: currentAgent,
+        sessionID: input.sessionID ?? null,
+        callID: input.callID ?? null,
+        agent: session.lastAgent,
         tool: input.tool,
+        task: session.activeTask,
+        args: auditArgs(args),
+        durationMs: call ? Date.now() - call.startedAt : null,
         success: !hasError,
-        output: output.output?.substring(0, 200) // First 200 chars
+        output: (config.audit.redact ? redactText(output.output ?? "") : output.output ?? "").substring(0, config.audit.outputMaxChars) // First N chars (audit.output_max_chars)
       };
 
-      // Append to audit log
-      try {
-        appendFileSync(auditPath, JSON.stringify(auditEntry) + "\n", "utf-8");
-      } catch (error) {
-        // Silently fail if can't write audit log
+      await appendAuditRecord(auditEntry);
+
+      // Tick off files from the context review checklist
+      if (READ_TOOLS.includes(input.tool.toLowerCase()) && !hasError && session.pendingReads.length > 0 && typeof args?.filePath === "string") {
+        const pendingReads = tickReviewFile(session.pendingReads, args.filePath, directory);
+        if (pendingReads.length !== session.pendingReads.length) {
+          sessions.update(input.sessionID, {
+            pendingReads,
+            ...(pendingReads.length === 0 ? { lastContextReview: timestamp } : {}),
+          });
+        }
       }
 
       // Detect active task from task-manager calls
@@ -548,20 +724,38 @@ After creating the task (or if no task is needed), you may proceed to build mode
         // Try to extract taskId from output
         const taskIdMatch = output.output?.match(/TASK-\d+/);
         if (taskIdMatch) {
-          sessionState.activeTask = taskIdMatch[0];
-          sessionState.lastContextReview = timestamp;
-          saveSessionState(sessionState);
+          sessions.update(input.sessionID, { activeTask: taskIdMatch[0], lastContextReview: timestamp });
+        }
+      }
+
+      // Starting a task makes it the active one
+      if (input.tool === "task-status" && !hasError && args?.status === "in_progress" && typeof args.taskId === "string") {
+        sessions.update(input.sessionID, { activeTask: args.taskId });
+      }
+
+      // TDD mode: follow the active task's Red → Green → Refactor cycle and warn about skipped steps
+      if (config.tddMode) {
+        const { activeTask, tdd } = sessions.get(input.sessionID);
+        const cycleKey = activeTask ?? NO_TASK;
+        const update = recordTddCall(tdd[cycleKey] ?? emptyCycle(), { tool: input.tool, args, success: !hasError }, directory, config.tdd.testPatterns);
+        if (update.violation) {
+          output.output = `${output.output ?? ""}\n\n⚠️ TDD mode: ${update.violation}.`;
+        }
+        await logTddSteps(activeTask, update.steps);
+        if (JSON.stringify(update.cycle) !== JSON.stringify(tdd[cycleKey])) {
+          sessions.update(input.sessionID, { tdd: { ...tdd, [cycleKey]: update.cycle } });
         }
       }
 
-      // Detect test completion - could suggest task update
-      if (input.tool === "Bash" &&
-          output.output?.includes("test") &&
-          !hasError &&
-          sessionState.activeTask) {
-        // Tests passed - this could mean task is ready to complete
-        // Note: We don't auto-inject here to avoid infinite loops
-        // The session.idle hook will prompt for updates
+      // Remember what changed for the idle reminder
+      const activity = recordActivity(
+        session.activity,
+        { tool: input.tool, args, success: !hasError, output: output.output ?? "" },
+        directory,
+        relative(directory, config.tasksDir)
+      );
+      if (JSON.stringify(activity) !== JSON.stringify(session.activity)) {
+        sessions.update(input.sessionID, { activity });
       }
     },
   };
@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "url";
+import { adrToSummary, listAdrs, parseSummarySections } from "../lib/adr";
+
+const [madr, nygard] = listAdrs(fileURLToPath(new URL("./fixtures/adr", import.meta.url)));
+
+test("MADR decision comes from Decision Outcome, not Decision Drivers", () => {
+  const sections = parseSummarySections(adrToSummary(madr));
+  assert.match(sections["decision"], /^Chosen option: "PostgreSQL"/);
+  assert.match(sections["problem"], /^We need a database/);
+  assert.equal(sections["alternatives"], "- PostgreSQL - MongoDB");
+  assert.equal(sections["trade-offs"], "- Bad, because joins are manual.");
+  assert.equal(madr.status, "accepted");
+});
+
+test("Nygard headings match whole, not by prefix", () => {
+  const sections = parseSummarySections(adrToSummary(nygard));
+  assert.equal(sections["decision"], "We expose a JSON REST API.");
+  assert.equal(sections["problem"], "Clients need to read project data over HTTP.");
+  assert.equal(sections["trade-offs"], "Clients can use any HTTP library.");
+  assert.equal(nygard.title, "Expose a REST API");
+  assert.equal(nygard.status, "Accepted");
+});
@@ -0,0 +1,204 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, statSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  type AuditRecord,
+  appendAuditLog,
+  auditArchiveDir,
+  filterAuditRecords,
+  isFailedCall,
+  parseAuditLog,
+  pruneAuditArchives,
+  readAuditHistory,
+  readAuditLog,
+  rotateAuditLog,
+  sanitizeAuditArgs,
+  summarizeAudit,
+} from "../lib/audit";
+import { MeridianPlugin } from "../meridian";
+import { MeridianToolsPlugin } from "../tools";
+import { withProject } from "./fixtures/project";
+
+function record(callID: string): AuditRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    sessionID: "ses-1",
+    callID,
+    agent: "build",
+    tool: "read",
+    task: null,
+    args: { filePath: "README.md" },
+    durationMs: 3,
+    success: true,
+    output: "ok",
+  };
+}
+
+test("the audit log rotates once it is past the size limit, not at it", async (t) => {
+  const dir = mkdtempSync(join(tmpdir(), "meridian-audit-"));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const auditPath = join(dir, "audit.jsonl");
+  const lockPath = join(dir, ".audit.lock");
+
+  const first = JSON.stringify(record("call-1")) + "\n";
+  writeFileSync(auditPath, first);
+  const options = { maxBytes: statSync(auditPath).size, maxAgeDays: 30, retentionDays: 30 };
+
+  // Exactly at the threshold: appended to the same file
+  assert.equal(await appendAuditLog(auditPath, lockPath, record("call-2"), options), null);
+  assert.deepEqual(readAuditLog(auditPath).map((entry) => entry.callID), ["call-1", "call-2"]);
+
+  // Now past it: archived first, then the record starts a fresh log
+  const archive = await appendAuditLog(auditPath, lockPath, record("call-3"), options);
+  assert.ok(archive && existsSync(archive));
+  assert.deepEqual(readdirSync(auditArchiveDir(auditPath)), [archive.split("/").pop()]);
+  assert.deepEqual(readAuditLog(auditPath).map((entry) => entry.callID), ["call-3"]);
+  assert.deepEqual(readAuditHistory(auditPath).map((entry) => entry.callID), ["call-1", "call-2", "call-3"]);
+  assert.ok(!existsSync(lockPath), "lock released");
+});
+
+test("back-to-back rotations keep every archive", async (t) => {
+  const dir = mkdtempSync(join(tmpdir(), "meridian-audit-"));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const auditPath = join(dir, "audit.jsonl");
+  const options = { maxBytes: 1, maxAgeDays: 30, retentionDays: 30 };
+
+  for (const id of ["call-1", "call-2", "call-3"]) {
+    await appendAuditLog(auditPath, join(dir, ".audit.lock"), record(id), options);
+  }
+  assert.equal(readdirSync(auditArchiveDir(auditPath)).length, 2);
+  assert.deepEqual(readAuditHistory(auditPath).map((entry) => entry.callID).sort(), ["call-1", "call-2", "call-3"]);
+  assert.equal(readFileSync(auditPath, "utf-8").split("\n").filter(Boolean).length, 1);
+});
+
+test("args are shortened but keep their keys", () => {
+  const args = sanitizeAuditArgs(
+    { filePath: "a.ts", content: "x".repeat(50), list: Array.from({ length: 25 }, (_, i) => i), deep: { a: { b: { c: { d: 1 } } } } },
+    10
+  );
+  assert.deepEqual(args, {
+    filePath: "a.ts",
+    content: "xxxxxxxxxx…(+40 chars)",
+    list: [...Array.from({ length: 20 }, (_, i) => i), "…(+5 items)"],
+    deep: { a: { b: "{…}" } },
+  });
+  assert.equal(sanitizeAuditArgs("not a mapping", 10), null);
+});
+
+test("shell calls fail by exit code, other tools by their output", () => {
+  assert.equal(isFailedCall("Error: nothing wrong really", { exit: 0 }), false);
+  assert.equal(isFailedCall("", { exit: 2 }), true);
+  assert.equal(isFailedCall("❌ Verification failed", undefined), true);
+  assert.equal(isFailedCall("ok", null), false);
+});
+
+test("old records are read with missing fields as null", () => {
+  const [legacy, current] = parseAuditLog(
+    [
+      '{"timestamp":"2025-01-01T00:00:00Z","agent":"build","tool":"edit","success":false,"output":"Error"}',
+      "not json",
+      JSON.stringify(record("call-9")),
+    ].join("\n")
+  );
+  assert.deepEqual(legacy, {
+    timestamp: "2025-01-01T00:00:00Z",
+    sessionID: null,
+    callID: null,
+    agent: "build",
+    tool: "edit",
+    task: null,
+    args: null,
+    durationMs: null,
+    success: false,
+    output: "Error",
+  });
+  assert.equal(current.callID, "call-9");
+});
+
+test("records are filtered and summarized per group", () => {
+  const records: AuditRecord[] = [
+    { ...record("c1"), tool: "bash", task: "TASK-001", durationMs: 100, success: false, timestamp: "2026-01-02T00:00:00Z" },
+    { ...record("c2"), tool: "bash", task: "TASK-001", durationMs: 300, timestamp: "2026-01-03T00:00:00Z" },
+    { ...record("c3"), tool: "read", durationMs: null, timestamp: "2026-01-04T00:00:00Z" },
+  ];
+  assert.deepEqual(filterAuditRecords(records, { tool: "BASH", failedOnly: true }).map((item) => item.callID), ["c1"]);
+  assert.deepEqual(filterAuditRecords(records, { task: "task-001", since: new Date("2026-01-03T00:00:00Z") }).map((item) => item.callID), ["c2"]);
+  assert.deepEqual(summarizeAudit(records, "task"), [
+    { key: "TASK-001", calls: 2, failures: 1, avgDurationMs: 200, lastFailure: "2026-01-02T00:00:00Z" },
+    { key: "(no task)", calls: 1, failures: 0, avgDurationMs: null, lastFailure: null },
+  ]);
+});
+
+test("the hooks write one record per call with session, call ID, args and duration", () =>
+  withProject(async (dir) => {
+    const plugin = await MeridianPlugin({ directory: dir, worktree: dir, client: {} } as any);
+    const input = { tool: "read", sessionID: "ses-1", callID: "call-1" };
+    await plugin["tool.execute.before"]!(input, { args: { filePath: "README.md" } });
+    // Args come from the before hook when the after hook is not given them
+    await plugin["tool.execute.after"]!({ ...input, args: undefined }, { title: "", output: "file contents", metadata: {} });
+
+    const [logged] = readAuditLog(join(dir, ".meridian", "audit.jsonl"));
+    assert.equal(logged.sessionID, "ses-1");
+    assert.equal(logged.callID, "call-1");
+    assert.deepEqual(logged.args, { filePath: "README.md" });
+    assert.equal(typeof logged.durationMs, "number");
+    assert.equal(logged.success, true);
+    assert.equal(logged.output, "file contents");
+  }));
+
+test("audit-query summarizes the matching calls and lists the latest", () =>
+  withProject(async (dir) => {
+    const auditPath = join(dir, ".meridian", "audit.jsonl");
+    writeFileSync(
+      auditPath,
+      [
+        { ...record("c1"), tool: "bash", success: false, timestamp: "2026-01-02T10:00:00Z", output: "Error: exit 1" },
+        { ...record("c2"), tool: "bash", timestamp: "2026-01-03T10:00:00Z" },
+        { ...record("c3"), timestamp: "2026-01-04T10:00:00Z" },
+      ].map((item) => JSON.stringify(item) + "\n").join("")
+    );
+    const plugin = await MeridianToolsPlugin({ directory: dir, worktree: dir } as any);
+    const query = (args: Record<string, unknown>) => plugin.tool!["audit-query"].execute(args as any, {} as any).then(String);
+
+    const output = await query({ tool: "bash", until: "2026-01-03", limit: 1 });
+    assert.match(output, /^# Audit: tool bash, until 2026-01-03\n\n2 calls, 1 failed/);
+    assert.match(output, /\| bash \| 2 \| 1 \| 3 ms \| 2026-01-02T10:00:00Z \|/);
+    assert.match(output, /- ✅ 2026-01-03T10:00:00Z \*\*bash\*\* \(3 ms\)/);
+    assert.doesNotMatch(output, /c1|2026-01-02T10:00:00Z \*\*bash/);
+    await assert.rejects(query({ since: "last week" }), /Invalid since 'last week'/);
+  }));
+
+test("a log whose oldest record passes max_age_days is rotated, and old archives are pruned", async (t) => {
+  const dir = mkdtempSync(join(tmpdir(), "meridian-audit-"));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const auditPath = join(dir, "audit.jsonl");
+  const options = { maxBytes: 1024 * 1024, maxAgeDays: 7, retentionDays: 30 };
+  writeFileSync(auditPath, JSON.stringify({ ...record("call-1"), timestamp: "2026-03-01T00:00:00Z" }) + "\n");
+
+  assert.equal(rotateAuditLog(auditPath, options, new Date("2026-03-07T00:00:00Z")), null);
+  const archive = rotateAuditLog(auditPath, options, new Date("2026-03-08T00:00:00Z"));
+  assert.ok(archive && existsSync(archive));
+  assert.equal(existsSync(auditPath), false);
+
+  const stale = join(auditArchiveDir(auditPath), "audit-2025-01-01T00-00-00-000Z.jsonl.gz");
+  writeFileSync(stale, "");
+  utimesSync(stale, new Date("2025-01-01T00:00:00Z"), new Date("2025-01-01T00:00:00Z"));
+  assert.deepEqual(pruneAuditArchives(auditArchiveDir(auditPath), 30), [stale]);
+  assert.ok(existsSync(archive), "recent archive kept");
+});
+
+test("secrets in args and output are masked before the record is written", () =>
+  withProject(async (dir) => {
+    const plugin = await MeridianPlugin({ directory: dir, worktree: dir, client: {} } as any);
+    const input = { tool: "bash", sessionID: "ses-1", callID: "call-1", args: { command: "API_TOKEN=abc123 ./deploy.sh" } };
+    await plugin["tool.execute.before"]!(input, { args: input.args });
+    await plugin["tool.execute.after"]!(input, { title: "", output: "using password: hunter2", metadata: { exit: 0 } });
+
+    const raw = readFileSync(join(dir, ".meridian", "audit.jsonl"), "utf-8");
+    assert.doesNotMatch(raw, /abc123|hunter2/);
+    const [logged] = readAuditLog(join(dir, ".meridian", "audit.jsonl"));
+    assert.deepEqual(logged.args, { command: "API_TOKEN=[REDACTED] ./deploy.sh" });
+    assert.equal(logged.output, "using password: [REDACTED]");
+  }));
@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { loadMeridianConfig } from "../lib/config";
+import { MeridianToolsPlugin } from "../tools";
+import { withProject } from "./fixtures/project";
+
+function writeConfig(dir: string, content: string): void {
+  writeFileSync(join(dir, ".meridian", "config.yaml"), content);
+}
+
+test("valid settings are applied and paths resolved", () =>
+  withProject((dir) => {
+    writeConfig(dir, "project_type: production\ntdd_mode: yes\nmemory:\n  budget_chars: 500\ntasks_dir: work/tasks\n");
+    const { config, issues } = loadMeridianConfig(dir);
+    assert.deepEqual(issues, []);
+    assert.equal(config.projectType, "production");
+    assert.equal(config.tddMode, true);
+    assert.equal(config.memory.budgetChars, 500);
+    assert.equal(config.tasksDir, join(dir, "work", "tasks"));
+  }));
+
+test("unknown keys and invalid values are reported and fall back to defaults", () =>
+  withProject((dir) => {
+    writeConfig(dir, "project_type: huge\nmemory:\n  recent_days: -2\nhooks: true\ncolour: blue\n");
+    const { config, issues } = loadMeridianConfig(dir);
+    assert.equal(config.projectType, "standard");
+    assert.equal(config.memory.recentDays, loadMeridianConfig(join(dir, "missing")).config.memory.recentDays);
+    assert.equal(issues.length, 4);
+    for (const expected of [
+      /^Invalid value for 'project_type': "huge" \(expected one of hackathon, standard, production\); using the default$/,
+      /^Invalid value for 'memory.recent_days': -2 \(expected a positive whole number\); using the default$/,
+      /^'hooks' must be a section of settings; ignored$/,
+      /^Unknown setting 'colour' ignored/,
+    ]) {
+      assert.ok(issues.some((issue) => expected.test(issue)), `${expected} in ${issues.join(" | ")}`);
+    }
+  }));
+
+test("a config that does not parse names the line and uses defaults", () =>
+  withProject((dir) => {
+    writeConfig(dir, "project_type: standard\ntdd_mode: [true\n");
+    const { config, issues } = loadMeridianConfig(dir);
+    assert.equal(config.tddMode, false);
+    assert.equal(issues.length, 1);
+    assert.match(issues[0], /could not be parsed \(line \d+: .+\); using defaults for every setting/);
+  }));
+
+test("the tools re-read config.yaml on every call and show its problems", () =>
+  withProject(async (dir) => {
+    const plugin = await MeridianToolsPlugin({ directory: dir, worktree: dir } as any);
+    const tools = plugin.tool!;
+    const ctx = {} as any;
+
+    const before = await tools["task-list"].execute({}, ctx);
+    assert.doesNotMatch(String(before), /config\.yaml/);
+
+    writeConfig(dir, "tasks_dir: work/tasks\nverify:\n  timeout_seconds: 0\n");
+    const after = String(await tools["task-list"].execute({}, ctx));
+    assert.match(after, /^⚠️ config\.yaml: Invalid value for 'verify.timeout_seconds'/);
+    await assert.rejects(tools["task-manager"].execute({ backlogEntry: "New task" }, ctx), /Tasks directory not found: .*work\/tasks/);
+  }));
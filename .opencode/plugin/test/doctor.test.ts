@@ -0,0 +1,134 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { findBacklogEntry, readBacklog } from "../lib/backlog";
+import { type DoctorFinding, diagnose } from "../lib/doctor";
+import { parseMemoryLog } from "../lib/memory";
+import { BUNDLED_DEFAULTS } from "../lib/scaffold";
+import { readTaskBrief } from "../lib/tasks";
+import { createWorkspace } from "../lib/workspace";
+import { brief, withProject } from "./fixtures/project";
+
+const memoryEntry = (id: string, summary: string) =>
+  JSON.stringify({ id, timestamp: "2026-01-01T00:00:00Z", summary, tags: ["decision"], links: [] });
+
+async function repairAll(findings: DoctorFinding[]): Promise<string[]> {
+  const results: string[] = [];
+  for (const finding of findings) if (finding.repair) results.push(await finding.repair());
+  return results;
+}
+
+test("a freshly initialized project has no findings", () =>
+  withProject((dir) => {
+    assert.deepEqual(diagnose(createWorkspace(dir), BUNDLED_DEFAULTS), []);
+  }));
+
+test("invalid memory lines are removed and duplicate IDs renumbered", () =>
+  withProject(async (dir) => {
+    const workspace = createWorkspace(dir);
+    writeFileSync(
+      workspace.memoryPath,
+      [
+        memoryEntry("mem-0001", "Use Postgres"),
+        "{truncated",
+        memoryEntry("mem-0002", "Cache in Redis"),
+        memoryEntry("mem-0001", "Deploy on Fridays"),
+        JSON.stringify({ timestamp: "2026-02-01T00:00:00Z", event: "deprecate", target: "mem-0001", reason: "moved" }),
+        memoryEntry("mem-0001", "Use pnpm"),
+        "",
+      ].join("\n")
+    );
+
+    const findings = diagnose(workspace, BUNDLED_DEFAULTS);
+    assert.deepEqual(findings.map((finding) => finding.problem), [
+      "memory.jsonl has 1 line(s) that are not valid JSON records (line 2)",
+      "mem-0001 is used by 3 entries (lines 1, 4, 6)",
+    ]);
+
+    assert.deepEqual(await repairAll(findings), [
+      "Removed 1 line(s) from memory.jsonl; the original is in memory.jsonl.bak",
+      "Renumbered 2 later mem-0001 entries to mem-0003, mem-0004",
+    ]);
+    assert.match(readFileSync(`${workspace.memoryPath}.bak`, "utf-8"), /\{truncated/);
+    const log = parseMemoryLog(readFileSync(workspace.memoryPath, "utf-8"));
+    assert.deepEqual(log.invalidLines, []);
+    assert.deepEqual(log.entries.map((entry) => [entry.id, entry.summary]), [
+      ["mem-0001", "Use Postgres"],
+      ["mem-0002", "Cache in Redis"],
+      ["mem-0003", "Deploy on Fridays"],
+      ["mem-0004", "Use pnpm"],
+    ]);
+    assert.equal(log.events[0].target, "mem-0001", "events keep pointing at the first entry");
+    assert.deepEqual(diagnose(workspace, BUNDLED_DEFAULTS), []);
+  }));
+
+test("backlog entries without a folder are restored and stray folders added to the backlog", () =>
+  withProject(async (dir) => {
+    const workspace = createWorkspace(dir);
+    const { tasksDir } = workspace.config;
+    const { taskId } = await workspace.createTask({ taskBrief: brief({ title: "Add login", priority: "P1" }) });
+    rmSync(join(tasksDir, taskId), { recursive: true });
+    mkdirSync(join(tasksDir, "TASK-007"));
+    writeFileSync(join(tasksDir, "TASK-007", "TASK-007.yaml"), `id: TASK-003\n${brief({ title: "Orphan", status: "in_progress", priority: "P0" })}`);
+
+    const findings = diagnose(workspace, BUNDLED_DEFAULTS);
+    assert.deepEqual(findings.map((finding) => [finding.check, finding.problem]), [
+      ["backlog", "TASK-001 (Add login) is in the backlog but has no folder in .meridian/tasks/"],
+      ["tasks", ".meridian/tasks/TASK-007/ is not in the backlog"],
+      ["tasks", ".meridian/tasks/TASK-007/TASK-007.yaml has id TASK-003, so two tasks may share an ID"],
+    ]);
+    assert.ok(findings.every((finding) => finding.repair));
+
+    assert.deepEqual(await repairAll(findings), [
+      "Created .meridian/tasks/TASK-001/",
+      "Added TASK-007 to the backlog as in_progress (Orphan)",
+      "Set id: TASK-007 in .meridian/tasks/TASK-007/TASK-007.yaml",
+    ]);
+    assert.equal(readTaskBrief(tasksDir, "TASK-001")?.title, "Add login");
+    assert.equal(readTaskBrief(tasksDir, "TASK-007")?.id, "TASK-007");
+    const entry = findBacklogEntry(readBacklog(workspace.backlogPath), "TASK-007");
+    assert.deepEqual([entry?.title, entry?.status, entry?.priority], ["Orphan", "in_progress", "P0"]);
+    assert.deepEqual(diagnose(workspace, BUNDLED_DEFAULTS), []);
+  }));
+
+test("duplicate backlog IDs are reported without a repair", () =>
+  withProject((dir) => {
+    const workspace = createWorkspace(dir);
+    writeFileSync(
+      workspace.backlogPath,
+      "tasks:\n  - id: TASK-001\n    title: One\n    status: todo\n  - id: TASK-001\n    title: Other\n    status: todo\n"
+    );
+    assert.deepEqual(diagnose(workspace, BUNDLED_DEFAULTS), [
+      {
+        check: "backlog",
+        problem: "TASK-001 appears more than once in task-backlog.yaml. Keep one entry and remove or renumber the others by hand",
+        fix: null,
+      },
+    ]);
+  }));
+
+test("missing guides and templates are restored from the defaults when there are any", () =>
+  withProject(async (dir) => {
+    const workspace = createWorkspace(dir);
+    const { meridianDir, config } = workspace;
+    rmSync(join(meridianDir, "CODE_GUIDE.md"));
+    rmSync(join(config.tasksDir, "TASK-000-template"), { recursive: true });
+    appendFileSync(join(meridianDir, "relevant-docs.md"), "\n- `docs/missing.md`\n");
+
+    const problems = (findings: DoctorFinding[]) => findings.map((finding) => [finding.problem, finding.fix !== null]);
+    const expected = [
+      [".meridian/CODE_GUIDE.md is missing; sessions are told to read it", true],
+      [".meridian/tasks/TASK-000-template/ is missing; new tasks cannot be created", true],
+      ["relevant-docs.md lists docs/missing.md, which does not exist. Remove the line or restore the file", false],
+    ];
+    assert.deepEqual(problems(diagnose(workspace, null)), expected.map(([problem]) => [problem, false]));
+    assert.deepEqual(problems(diagnose(workspace, join(dir, "no-such-defaults"))), expected.map(([problem]) => [problem, false]));
+
+    const findings = diagnose(workspace, BUNDLED_DEFAULTS);
+    assert.deepEqual(problems(findings), expected);
+    await repairAll(findings);
+    assert.equal(readFileSync(join(meridianDir, "CODE_GUIDE.md"), "utf-8"), readFileSync(join(BUNDLED_DEFAULTS, "CODE_GUIDE.md"), "utf-8"));
+    assert.ok(existsSync(join(config.tasksDir, "TASK-000-template", "TASK-000.yaml")));
+    assert.equal(diagnose(workspace, BUNDLED_DEFAULTS).length, 1);
+  }));
@@ -0,0 +1,132 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fork, spawnSync } from "node:child_process";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { acquireLock, appendFileSynced } from "../lib/files";
+import { readBacklog, listBacklogEntries } from "../lib/backlog";
+import { parseMemoryLog } from "../lib/memory";
+import { auditArchiveDir, readAuditHistory } from "../lib/audit";
+import { tempProject } from "./fixtures/project";
+
+const WRITER = fileURLToPath(new URL("./fixtures/lock-writer.ts", import.meta.url));
+const TSX = import.meta.resolve("tsx");
+
+function runWriter(directory: string, kind: "memory" | "task" | "audit", count: number): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const child = fork(WRITER, [directory, kind, String(count)], { execArgv: ["--import", TSX], stdio: "pipe" });
+    let stdout = "";
+    let stderr = "";
+    child.stdout!.on("data", (chunk) => (stdout += chunk));
+    child.stderr!.on("data", (chunk) => (stderr += chunk));
+    child.on("error", reject);
+    child.on("exit", (code) => (code === 0 ? resolve(JSON.parse(stdout)) : reject(new Error(`writer exited with ${code}: ${stderr}`))));
+  });
+}
+
+/** A pid that belonged to a process that has exited */
+function deadPid(): number {
+  const child = spawnSync(process.execPath, ["-e", "process.stdout.write(String(process.pid))"], { encoding: "utf-8" });
+  return Number(child.stdout);
+}
+
+function plantLock(lockPath: string, pid: number): void {
+  writeFileSync(lockPath, JSON.stringify({ pid, host: hostname(), token: "planted", acquiredAt: new Date().toISOString() }));
+}
+
+test("concurrent memory writers get unique IDs and leave memory.jsonl intact, past a dead owner's lock", async (t) => {
+  const directory = tempProject();
+  t.after(() => rmSync(directory, { recursive: true, force: true }));
+  const memoryPath = join(directory, ".meridian", "memory.jsonl");
+  plantLock(join(directory, ".meridian", ".memory.lock"), deadPid());
+
+  const results = await Promise.all([1, 2, 3, 4].map(() => runWriter(directory, "memory", 8)));
+  const ids = results.flat();
+
+  assert.equal(ids.length, 32);
+  assert.equal(new Set(ids).size, 32, `duplicate IDs: ${ids.sort().join(", ")}`);
+  const log = parseMemoryLog(readFileSync(memoryPath, "utf-8"));
+  assert.deepEqual(log.invalidLines, []);
+  assert.deepEqual(log.entries.map((entry) => entry.id).sort(), [...ids].sort());
+  assert.ok(!existsSync(join(directory, ".meridian", ".memory.lock")), "lock released");
+});
+
+test("concurrent task writers get unique IDs, folders and backlog entries", async (t) => {
+  const directory = tempProject();
+  t.after(() => rmSync(directory, { recursive: true, force: true }));
+
+  const results = await Promise.all([1, 2, 3].map(() => runWriter(directory, "task", 4)));
+  const ids = results.flat();
+
+  assert.equal(new Set(ids).size, 12, `duplicate IDs: ${ids.sort().join(", ")}`);
+  for (const id of ids) assert.ok(existsSync(join(directory, ".meridian", "tasks", id, `${id}.yaml`)), `${id} folder`);
+  const backlog = listBacklogEntries(readBacklog(join(directory, ".meridian", "task-backlog.yaml")));
+  assert.deepEqual(backlog.map((entry) => entry.id).sort(), [...ids].sort());
+});
+
+test("concurrent audit writers rotate the log without losing records", async (t) => {
+  const directory = tempProject();
+  t.after(() => rmSync(directory, { recursive: true, force: true }));
+  const auditPath = join(directory, ".meridian", "audit.jsonl");
+
+  const results = await Promise.all([1, 2, 3, 4].map(() => runWriter(directory, "audit", 40)));
+  const ids = results.flat();
+
+  const logged = readAuditHistory(auditPath).map((record) => record.callID);
+  assert.equal(logged.length, 160);
+  assert.deepEqual([...logged].sort(), [...ids].sort());
+  assert.ok(readdirSync(auditArchiveDir(auditPath)).length > 1, "rotated more than once");
+  assert.ok(!existsSync(join(directory, ".meridian", ".audit.lock")), "lock released");
+});
+
+test("a lock older than staleMs is taken over even when its owner is alive", async (t) => {
+  const directory = mkdtempSync(join(tmpdir(), "meridian-test-"));
+  t.after(() => rmSync(directory, { recursive: true, force: true }));
+  const lockPath = join(directory, "old.lock");
+  plantLock(lockPath, process.pid);
+  const old = new Date(Date.now() - 60_000);
+  utimesSync(lockPath, old, old);
+
+  const release = await acquireLock(lockPath, { staleMs: 1_000, timeoutMs: 2_000 });
+  assert.equal(JSON.parse(readFileSync(lockPath, "utf-8")).pid, process.pid);
+  assert.notEqual(JSON.parse(readFileSync(lockPath, "utf-8")).token, "planted");
+  release();
+  assert.ok(!existsSync(lockPath));
+});
+
+test("a fresh lock held by a live process is waited for, not taken", async (t) => {
+  const directory = mkdtempSync(join(tmpdir(), "meridian-test-"));
+  t.after(() => rmSync(directory, { recursive: true, force: true }));
+  const lockPath = join(directory, "busy.lock");
+  plantLock(lockPath, process.pid);
+
+  await assert.rejects(acquireLock(lockPath, { timeoutMs: 200 }), /Timed out/);
+  assert.equal(JSON.parse(readFileSync(lockPath, "utf-8")).token, "planted");
+});
+
+test("release() leaves a lock that another writer has taken over since", async (t) => {
+  const directory = mkdtempSync(join(tmpdir(), "meridian-test-"));
+  t.after(() => rmSync(directory, { recursive: true, force: true }));
+  const lockPath = join(directory, "taken.lock");
+
+  const release = await acquireLock(lockPath);
+  // Our lock was judged stale and replaced by someone else's
+  rmSync(lockPath);
+  plantLock(lockPath, process.pid);
+  release();
+
+  assert.ok(existsSync(lockPath));
+  assert.equal(JSON.parse(readFileSync(lockPath, "utf-8")).token, "planted");
+});
+
+test("appendFileSynced adds to the end without touching existing content", (t) => {
+  const directory = mkdtempSync(join(tmpdir(), "meridian-test-"));
+  t.after(() => rmSync(directory, { recursive: true, force: true }));
+  const path = join(directory, "log.jsonl");
+
+  appendFileSynced(path, '{"id":"a"}\n');
+  appendFileSynced(path, '{"id":"b"}\n{"id":"c"}\n');
+  assert.equal(readFileSync(path, "utf-8"), '{"id":"a"}\n{"id":"b"}\n{"id":"c"}\n');
+});
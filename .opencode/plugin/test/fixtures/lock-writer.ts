@@ -0,0 +1,46 @@
+/**
+ * Child process for the concurrency tests: allocates IDs in a project (or
+ * appends audit records) and prints them as JSON.
+ * Usage: lock-writer.ts <directory> memory|task|audit <count>
+ */
+import { join } from "path";
+import { type AuditRecord, appendAuditLog } from "../../lib/audit";
+import { createWorkspace } from "../../lib/workspace";
+
+/** Small enough that nearly every append rotates the audit log */
+const AUDIT_TEST_MAX_BYTES = 256;
+
+const [directory, kind, count] = process.argv.slice(2);
+const workspace = createWorkspace(directory);
+const ids: string[] = [];
+
+for (let i = 0; i < Number(count); i++) {
+  if (kind === "memory") {
+    const added = await workspace.addMemory({ summary: `Entry ${i} from pid ${process.pid}`, tags: ["test"] });
+    ids.push(added.entry.id);
+  } else if (kind === "audit") {
+    const record: AuditRecord = {
+      timestamp: new Date().toISOString(),
+      sessionID: `ses-${process.pid}`,
+      callID: `call-${process.pid}-${i}`,
+      agent: "build",
+      tool: "bash",
+      task: null,
+      args: { command: "npm test" },
+      durationMs: 1,
+      success: true,
+      output: "ok".repeat(40),
+    };
+    await appendAuditLog(workspace.auditPath, join(directory, ".meridian", ".audit.lock"), record, {
+      maxBytes: AUDIT_TEST_MAX_BYTES,
+      maxAgeDays: 30,
+      retentionDays: 30,
+    });
+    ids.push(record.callID!);
+  } else {
+    const created = await workspace.createTask({ backlogEntry: `Task ${i} from pid ${process.pid}` });
+    ids.push(created.taskId);
+  }
+}
+
+process.stdout.write(JSON.stringify(ids));
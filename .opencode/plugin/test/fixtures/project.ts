@@ -0,0 +1,44 @@
+/**
+ * Temporary projects for the tests, created with `meridian init`'s defaults
+ */
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BUNDLED_DEFAULTS, type InitOptions, initMeridian } from "../../lib/scaffold";
+
+export function tempProject(options: InitOptions = { projectType: "standard", tddMode: false }): string {
+  const directory = mkdtempSync(join(tmpdir(), "meridian-test-"));
+  initMeridian(directory, BUNDLED_DEFAULTS, options);
+  return directory;
+}
+
+/**
+ * Run fn against a temporary project and remove it afterwards
+ */
+export async function withProject(fn: (directory: string) => void | Promise<void>, options?: InitOptions): Promise<void> {
+  const directory = tempProject(options);
+  try {
+    await fn(directory);
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * A task brief that passes the schema
+ */
+export function brief(fields: { status?: string; priority?: string; title?: string; requirements?: string[] } = {}): string {
+  const requirements = (fields.requirements ?? ["todo"])
+    .map((status, i) => `  - id: R${i + 1}\n    description: Requirement ${i + 1}\n    status: ${status}\n`)
+    .join("");
+  return `title: ${fields.title ?? "Test task"}
+status: ${fields.status ?? "todo"}
+priority: ${fields.priority ?? "P2"}
+objective: Exercise the task tools.
+requirements:
+${requirements}links:
+  files: []
+  docs: []
+  commits: []
+`;
+}
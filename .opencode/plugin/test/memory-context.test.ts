@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { type ResolvedMemory } from "../lib/memory";
+import { buildTaskFocus, formatOmittedNote, scoreMemory, selectMemoryForInjection } from "../lib/memory-context";
+import { createWorkspace } from "../lib/workspace";
+import { MeridianPlugin } from "../meridian";
+import { withProject } from "./fixtures/project";
+
+const NOW = new Date("2026-06-01T00:00:00Z");
+
+function memory(id: string, fields: Partial<ResolvedMemory> = {}): ResolvedMemory {
+  return { id, timestamp: "2026-06-01T00:00:00Z", summary: `Entry ${id}`, tags: [], links: [], status: "active", ...fields };
+}
+
+const focus = buildTaskFocus([
+  {
+    id: "TASK-004",
+    title: "Add rate limiting",
+    brief: { objective: "Limit requests per API token", links: { files: ["src/api/limits.ts"], docs: [] }, tags: ["api"] },
+  },
+]);
+
+test("buildTaskFocus collects IDs, text, grouped links and tags", () => {
+  assert.deepEqual(focus.taskIds, ["TASK-004"]);
+  assert.match(focus.text, /rate limiting.*API token/);
+  assert.deepEqual(focus.links, ["src/api/limits.ts"]);
+  assert.deepEqual(focus.tags, ["api"]);
+});
+
+test("links, shared words and tags outrank unrelated entries", () => {
+  const old = "2025-06-01T00:00:00Z";
+  const linked = scoreMemory(memory("mem-1", { timestamp: old, links: ["TASK-004"] }), focus, NOW);
+  const fileLinked = scoreMemory(memory("mem-2", { timestamp: old, links: ["src/api/limits.ts"] }), focus, NOW);
+  const related = scoreMemory(memory("mem-3", { timestamp: old, summary: "API token requests are limited per minute", tags: ["api"] }), focus, NOW);
+  const unrelated = scoreMemory(memory("mem-4", { timestamp: old, summary: "Logo colours" }), focus, NOW);
+
+  assert.ok(Math.abs(linked - 3) < 0.01, `linked ${linked}`);
+  assert.ok(Math.abs(fileLinked - 3) < 0.01, `file linked ${fileLinked}`);
+  assert.ok(related > unrelated && unrelated < 0.01, `related ${related}, unrelated ${unrelated}`);
+});
+
+test("importance tags add one and recency halves every 30 days", () => {
+  const base = scoreMemory(memory("mem-1", { timestamp: "2026-06-01T00:00:00Z" }), focus, NOW);
+  const month = scoreMemory(memory("mem-2", { timestamp: "2026-05-02T00:00:00Z" }), focus, NOW);
+  const decision = scoreMemory(memory("mem-3", { timestamp: "2026-06-01T00:00:00Z", tags: ["decision"] }), focus, NOW);
+  assert.equal(base, 2);
+  assert.equal(month, 1);
+  assert.equal(decision, 3);
+});
+
+test("selection stays within the budget and fills it with smaller entries", () => {
+  const format = (entry: ResolvedMemory) => entry.summary;
+  const entries = [
+    memory("mem-1", { summary: "x".repeat(60), links: ["TASK-004"] }),
+    memory("mem-2", { summary: "y".repeat(50), tags: ["api"] }),
+    memory("mem-3", { summary: "z".repeat(30) }),
+  ];
+
+  const { included, omitted } = selectMemoryForInjection(entries, focus, 100, format);
+  assert.deepEqual(included.map((entry) => entry.id), ["mem-1", "mem-3"]);
+  assert.deepEqual(omitted.map((entry) => entry.id), ["mem-2"]);
+  assert.ok(included.reduce((sum, entry) => sum + format(entry).length, 0) <= 100);
+
+  assert.deepEqual(selectMemoryForInjection(entries, focus, 10, format).included, []);
+});
+
+test("the omitted note lists IDs, caps the list and points at memory-search", () => {
+  assert.equal(formatOmittedNote([], 100), "");
+  const omitted = Array.from({ length: 45 }, (_, i) => memory(`mem-${String(i + 1).padStart(4, "0")}`));
+  const note = formatOmittedNote(omitted, 4000);
+  assert.match(note, /^_45 lower-ranked entries omitted to stay within the 4000-character memory budget: mem-0001, /);
+  assert.match(note, /mem-0040 \(\+5 more\)/);
+  assert.doesNotMatch(note, /mem-0041/);
+  assert.match(note, /memory-search\(\{ query: "mem-0001" \}\)/);
+});
+
+test("session start injects only the memory that fits memory.budget_chars", () =>
+  withProject(async (dir) => {
+    writeFileSync(join(dir, ".meridian", "config.yaml"), "memory:\n  budget_chars: 600\n");
+    const workspace = createWorkspace(dir);
+    for (let i = 0; i < 10; i++) {
+      await workspace.addMemory({ summary: `Decision ${i}: ${"detail ".repeat(20)}`, tags: ["decision"] });
+    }
+
+    const prompts: string[] = [];
+    const client = { session: { prompt: async ({ body }: any) => prompts.push(body.parts[0].text) } };
+    const plugin = await MeridianPlugin({ directory: dir, worktree: dir, client } as any);
+    await plugin.event!({ event: { type: "session.created", properties: { info: { id: "ses-1" } } } as any });
+
+    const memory = prompts[0].split("**PROJECT MEMORY:**")[1].split("---")[0];
+    const shown = memory.match(/\*\*Recent Memory\*\* \(last \d+ days, (\d+) of 10 entries/);
+    assert.ok(shown, memory);
+    const included = Number(shown[1]);
+    assert.ok(included > 0 && included < 10, `${included} entries shown`);
+    assert.equal(memory.match(/Decision \d+:/g)?.length, included);
+    assert.match(memory, new RegExp(`_${10 - included} lower-ranked entries omitted to stay within the 600-character memory budget`));
+  }));
@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { appendFileSync, mkdtempSync, renameSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createMemoryIndex, parseMemoryQuery } from "../lib/memory-search";
+
+const line = (id: string, summary: string) =>
+  JSON.stringify({ id, timestamp: "2026-01-01T00:00:00Z", summary, tags: [], links: [] }) + "\n";
+
+function withMemoryFile(run: (path: string) => void): void {
+  const dir = mkdtempSync(join(tmpdir(), "meridian-search-"));
+  try {
+    run(join(dir, "memory.jsonl"));
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const ids = (index: ReturnType<typeof createMemoryIndex>, query: string) =>
+  index.search(parseMemoryQuery(query), 10).map((result) => result.entry.id);
+
+test("appended entries are picked up incrementally", () => {
+  withMemoryFile((path) => {
+    writeFileSync(path, line("mem-0001", "Use postgres pooling"));
+    const index = createMemoryIndex(path);
+    assert.equal(index.refresh(), 1);
+    appendFileSync(path, line("mem-0002", "Cache postgres queries"));
+    assert.equal(index.refresh(), 2);
+    assert.deepEqual(ids(index, "postgres").sort(), ["mem-0001", "mem-0002"]);
+  });
+});
+
+test("a rewrite in place with the same size is reindexed", () => {
+  withMemoryFile((path) => {
+    writeFileSync(path, line("mem-0001", "Use postgres pooling"));
+    const index = createMemoryIndex(path);
+    index.refresh();
+    writeFileSync(path, line("mem-0001", "Use redis++ caching!"));
+    index.refresh();
+    assert.deepEqual(ids(index, "redis"), ["mem-0001"]);
+    assert.deepEqual(ids(index, "postgres"), []);
+  });
+});
+
+test("a file replaced by rename is reindexed even when it grew", () => {
+  withMemoryFile((path) => {
+    writeFileSync(path, line("mem-0001", "Use postgres pooling"));
+    const index = createMemoryIndex(path);
+    index.refresh();
+    writeFileSync(`${path}.tmp`, line("mem-0001", "Use mysql pooling!!!") + line("mem-0002", "Cache queries"));
+    renameSync(`${path}.tmp`, path);
+    assert.equal(index.refresh(), 2);
+    assert.deepEqual(ids(index, "postgres"), []);
+    assert.deepEqual(ids(index, "mysql"), ["mem-0001"]);
+  });
+});
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { loadActiveMemory, parseMemoryLog, resolveMemory } from "../lib/memory";
+import { createWorkspace } from "../lib/workspace";
+import { MeridianToolsPlugin } from "../tools";
+import { withProject } from "./fixtures/project";
+
+const entry = (id: string, summary: string) =>
+  JSON.stringify({ id, timestamp: "2026-01-01T00:00:00Z", summary, tags: ["decision"], links: [] });
+const event = (fields: Record<string, unknown>) => JSON.stringify({ timestamp: "2026-02-01T00:00:00Z", ...fields });
+
+test("parseMemoryLog separates entries, events and invalid lines", () => {
+  const log = parseMemoryLog(
+    [entry("mem-0001", "Use Postgres"), "{not json", event({ event: "deprecate", target: "mem-0001", reason: "gone" }), "[1]", '{"summary":"no id"}', ""].join("\n")
+  );
+  assert.deepEqual(log.entries.map((item) => item.id), ["mem-0001"]);
+  assert.deepEqual(log.events.map((item) => item.event), ["deprecate"]);
+  assert.deepEqual(log.invalidLines, [2, 4, 5]);
+});
+
+test("events are applied in file order and unknown targets are ignored", () => {
+  const log = parseMemoryLog(
+    [
+      entry("mem-0001", "Use Postgres"),
+      entry("mem-0002", "Use Postgres 16"),
+      entry("mem-0003", "Cache in Redis"),
+      event({ event: "amend", target: "mem-0002", summary: "Use Postgres 16 with pgbouncer", tags: ["decision", "postgres"] }),
+      event({ event: "supersede", target: "mem-0001", by: "mem-0002", reason: "upgrade" }),
+      event({ event: "deprecate", target: "mem-0003", reason: "Redis removed" }),
+      event({ event: "deprecate", target: "mem-0099", reason: "not there" }),
+    ].join("\n")
+  );
+  const byId = new Map(resolveMemory(log).map((item) => [item.id, item]));
+  assert.equal(byId.size, 3);
+  assert.deepEqual(
+    [byId.get("mem-0001")?.status, byId.get("mem-0001")?.supersededBy, byId.get("mem-0001")?.reason],
+    ["superseded", "mem-0002", "upgrade"]
+  );
+  assert.equal(byId.get("mem-0002")?.summary, "Use Postgres 16 with pgbouncer");
+  assert.deepEqual(byId.get("mem-0002")?.tags, ["decision", "postgres"]);
+  assert.equal(byId.get("mem-0002")?.amendedAt, "2026-02-01T00:00:00Z");
+  assert.deepEqual([byId.get("mem-0003")?.status, byId.get("mem-0003")?.reason], ["deprecated", "Redis removed"]);
+});
+
+test("memory-lifecycle appends events and only acts on active entries", () =>
+  withProject(async (dir) => {
+    const workspace = createWorkspace(dir);
+    const plugin = await MeridianToolsPlugin({ directory: dir, worktree: dir } as any);
+    const lifecycle = (args: Record<string, unknown>) => plugin.tool!["memory-lifecycle"].execute(args as any, {} as any);
+
+    const first = (await workspace.addMemory({ summary: "Sessions live in Redis", tags: ["decision"] })).entry.id;
+    const second = (await workspace.addMemory({ summary: "Sessions live in Postgres", tags: ["decision"] })).entry.id;
+    const third = (await workspace.addMemory({ summary: "Tokens rotate daily", tags: ["security"] })).entry.id;
+    const before = readFileSync(workspace.memoryPath, "utf-8");
+
+    await assert.rejects(lifecycle({ action: "supersede", memoryId: first }), /supersededBy is required/);
+    await assert.rejects(lifecycle({ action: "supersede", memoryId: first, supersededBy: first }), /cannot supersede itself/);
+    await assert.rejects(lifecycle({ action: "supersede", memoryId: first, supersededBy: "mem-9999" }), /'mem-9999' not found/);
+    await assert.rejects(lifecycle({ action: "deprecate", memoryId: third }), /reason is required/);
+    await assert.rejects(lifecycle({ action: "amend", memoryId: third }), /needs a new summary and\/or tags/);
+    assert.equal(readFileSync(workspace.memoryPath, "utf-8"), before, "rejected calls append nothing");
+
+    assert.match(String(await lifecycle({ action: "supersede", memoryId: first, supersededBy: second })), new RegExp(`supersede recorded for ${first} by ${second}`));
+    await assert.rejects(lifecycle({ action: "deprecate", memoryId: first, reason: "old" }), new RegExp(`already superseded by ${second}`));
+    await lifecycle({ action: "amend", memoryId: third, tags: ["security", "auth", "auth"] });
+    await lifecycle({ action: "deprecate", memoryId: third, reason: "Tokens no longer expire" });
+
+    // History stays: the entries are still in the file, followed by one event each
+    const log = parseMemoryLog(readFileSync(workspace.memoryPath, "utf-8"));
+    assert.equal(log.entries.length, 3);
+    assert.deepEqual(log.events.map((item) => item.event), ["supersede", "amend", "deprecate"]);
+    assert.deepEqual(log.events[1].tags, ["security", "auth"]);
+    assert.deepEqual(loadActiveMemory(workspace.memoryPath).map((item) => item.id), [second]);
+    assert.deepEqual(workspace.searchMemory("sessions").results.map((result) => result.entry.id), [second]);
+  }));
+
+test("memory-curator's supersedes retires the old entries while adding the new one", () =>
+  withProject(async (dir) => {
+    const workspace = createWorkspace(dir);
+    const old = (await workspace.addMemory({ summary: "Deploy with Heroku", tags: ["release"] })).entry.id;
+    const added = await workspace.addMemory({ summary: "Deploy with Fly.io", tags: ["release"], supersedes: [old] });
+    assert.deepEqual(added.superseded, [old]);
+    assert.equal(workspace.resolvedMemoryMap().get(old)?.supersededBy, added.entry.id);
+    await assert.rejects(workspace.addMemory({ summary: "Deploy with Render", supersedes: [old] }), /already superseded/);
+  }));
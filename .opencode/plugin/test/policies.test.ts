@@ -0,0 +1,126 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { type PolicyRule, describeRule, evaluatePolicy, isApproval, parsePolicies, policyCallKey } from "../lib/policy";
+import { readAuditLog } from "../lib/audit";
+import { MeridianPlugin } from "../meridian";
+import { withProject } from "./fixtures/project";
+
+function rules(value: unknown): PolicyRule[] {
+  const result = parsePolicies(value);
+  assert.ok("rules" in result, "error" in result ? result.error : "");
+  return result.rules;
+}
+
+test("rules are parsed with defaults for agent and tool", () => {
+  assert.deepEqual(rules([{ tool: "bash", args: { command: "git push*", force: true }, action: "ASK" }]), [
+    { agents: ["*"], tools: ["bash"], args: { command: "git push*", force: "true" }, action: "ask" },
+  ]);
+  assert.deepEqual(rules([{ agent: [" plan "], tool: "*", action: "deny", reason: "read only" }]), [
+    { agents: ["plan"], tools: ["*"], args: {}, action: "deny", reason: "read only" },
+  ]);
+});
+
+test("invalid rules are reported with their position", () => {
+  assert.deepEqual(parsePolicies({ tool: "bash" }), { error: "a list of rules" });
+  assert.deepEqual(parsePolicies([{ tool: "bash", action: "block" }]), { error: "rule 1: action must be one of allow, deny, ask" });
+  assert.deepEqual(parsePolicies([{ action: "allow" }, { tool: "bash", action: "deny", when: "always" }]), { error: "rule 2: unknown key(s) when" });
+  assert.deepEqual(parsePolicies([{ agent: [], action: "deny" }]), { error: "rule 1: agent must be a name, a glob or a list of them" });
+  assert.deepEqual(parsePolicies([{ args: { command: ["git"] }, action: "ask" }]), { error: "rule 1: args.command must be a pattern string" });
+});
+
+test("the first matching rule wins and unmatched calls are allowed", () => {
+  const policies = rules([
+    { agent: "build", tool: "bash", args: { command: "git push --force*" }, action: "deny" },
+    { tool: "bash", args: { command: "git push*" }, action: "ask" },
+    { agent: "meridian-*", tool: ["edit", "write"], action: "deny" },
+    { tool: "bash", action: "allow" },
+  ]);
+  const match = (agent: string, tool: string, args: unknown) => evaluatePolicy(policies, { agent, tool, args })?.action ?? null;
+
+  assert.equal(match("build", "bash", { command: "git push --force origin main" }), "deny");
+  assert.equal(match("plan", "bash", { command: "git push --force origin main" }), "ask");
+  assert.equal(match("build", "bash", { command: "git push\norigin" }), "ask", "* spans newlines");
+  assert.equal(match("build", "bash", { command: "git status" }), "allow");
+  assert.equal(match("Meridian-Plan", "EDIT", { filePath: "a.ts" }), "deny", "names match case-insensitively");
+  assert.equal(match("build", "edit", { filePath: "a.ts" }), null);
+});
+
+test("argument patterns are case-sensitive, match non-strings as JSON and need the argument", () => {
+  const policies = rules([
+    { tool: "task-manager", args: { backlogEntry: '*"priority":"P0"*' }, action: "ask" },
+    { tool: "write", args: { filePath: "*.env" }, action: "deny" },
+  ]);
+  const match = (tool: string, args: unknown) => evaluatePolicy(policies, { agent: "build", tool, args })?.action ?? null;
+
+  assert.equal(match("task-manager", { backlogEntry: { title: "Ship", priority: "P0" } }), "ask");
+  assert.equal(match("task-manager", { backlogEntry: { priority: "P1" } }), null);
+  assert.equal(match("write", { filePath: "prod.env" }), "deny");
+  assert.equal(match("write", { filePath: "PROD.ENV" }), null);
+  assert.equal(match("write", { content: "x" }), null);
+  assert.equal(match("write", "prod.env"), null);
+});
+
+test("rules are described by position, and call keys cover the exact args", () => {
+  const [rule] = rules([{ agent: ["build", "plan"], tool: ["bash"], args: { command: "rm *" }, action: "ask" }]);
+  assert.equal(describeRule(rule, 3), "policies[3]: ask bash for build|plan when command=rm *");
+  assert.equal(policyCallKey("bash", { command: "ls" }), policyCallKey("bash", { command: "ls" }));
+  assert.notEqual(policyCallKey("bash", { command: "ls" }), policyCallKey("bash", { command: "ls -a" }));
+  assert.notEqual(policyCallKey("bash", { command: "ls" }), policyCallKey("shell", { command: "ls" }));
+});
+
+test("approvals need agreement without a refusal", () => {
+  assert.equal(isApproval("Yes, go ahead"), true);
+  assert.equal(isApproval("lgtm"), true);
+  assert.equal(isApproval("no, don't push yet"), false);
+  assert.equal(isApproval("yes but wait"), false);
+  assert.equal(isApproval("what does it do?"), false);
+});
+
+test("the hook denies, asks and runs an approved call once", () =>
+  withProject(async (dir) => {
+    writeFileSync(
+      join(dir, ".meridian", "config.yaml"),
+      [
+        "policies:",
+        "  - agent: meridian-plan",
+        "    tool: edit",
+        "    action: deny",
+        "    reason: planning only",
+        "  - tool: bash",
+        '    args: { command: "git push*" }',
+        "    action: ask",
+        "",
+      ].join("\n")
+    );
+    const plugin = await MeridianPlugin({ directory: dir, worktree: dir, client: {} } as any);
+    const message = (agent: string, text: string) =>
+      plugin["chat.message"]!({ sessionID: "ses-1", agent } as any, { message: {}, parts: [{ type: "text", text }] } as any);
+    const before = (tool: string, callID: string, args: Record<string, unknown>) =>
+      plugin["tool.execute.before"]!({ tool, sessionID: "ses-1", callID }, { args });
+    const push = { command: "git push origin main" };
+
+    await message("meridian-plan", "Plan the change");
+    await assert.rejects(before("edit", "call-1", { filePath: "a.ts" }), /denied for agent 'meridian-plan' by policies\[0\].*Reason: planning only\./);
+
+    await message("build", "Push it");
+    await assert.rejects(before("bash", "call-2", push), /needs the user's approval \(policies\[1\]: ask bash/);
+    await message("build", "No, not yet");
+    await assert.rejects(before("bash", "call-3", push), /needs the user's approval/, "a refusal approves nothing");
+
+    await message("build", "Yes, go ahead");
+    await assert.rejects(before("bash", "call-4", { command: "git push --force" }), /needs the user's approval/, "other args are not approved");
+    await before("bash", "call-5", push);
+    await assert.rejects(before("bash", "call-6", push), /needs the user's approval/, "an approval covers one call");
+
+    const logged = readAuditLog(join(dir, ".meridian", "audit.jsonl"));
+    assert.deepEqual(logged.map((record) => [record.callID, record.policy?.action]), [
+      ["call-1", "deny"],
+      ["call-2", "ask"],
+      ["call-3", "ask"],
+      ["call-4", "ask"],
+      ["call-6", "ask"],
+    ]);
+    assert.equal(logged[0].agent, "meridian-plan");
+  }));
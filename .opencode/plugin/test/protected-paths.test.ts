@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findProtectedInCommand, managedPaths, shellWriteTargets } from "../lib/protected-paths";
+
+const DIR = "/project";
+const RULES = managedPaths(".meridian/tasks");
+
+function blocked(command: string): string | null {
+  return findProtectedInCommand(command, RULES, DIR)?.path ?? null;
+}
+
+test("commands that only read protected files pass", () => {
+  for (const command of [
+    "npm install && cat .meridian/memory.jsonl",
+    "cp .meridian/memory.jsonl /tmp/x",
+    "grep -c install .meridian/task-backlog.yaml",
+    "sed -n '1,20p' .meridian/task-backlog.yaml",
+    "tail -5 .meridian/memory.jsonl | jq -s . > /tmp/recent.json",
+    "git diff -- .meridian/task-backlog.yaml 2>&1 | head",
+    "rm -rf node_modules && ls .meridian/tasks/.trash",
+    "mv build/out.js dist/ && wc -l .meridian/memory.jsonl",
+  ]) {
+    assert.equal(blocked(command), null, command);
+  }
+});
+
+test("commands that write protected files are caught", () => {
+  const cases: [string, string][] = [
+    ["echo '{}' >> .meridian/memory.jsonl", ".meridian/memory.jsonl"],
+    ["cat x | tee -a .meridian/memory.jsonl", ".meridian/memory.jsonl"],
+    ["sed -i 's/todo/done/' .meridian/task-backlog.yaml", ".meridian/task-backlog.yaml"],
+    ["cp /tmp/backlog.yaml .meridian/task-backlog.yaml", ".meridian/task-backlog.yaml"],
+    ["mv .meridian/memory.jsonl /tmp/", ".meridian/memory.jsonl"],
+    ["cp a.yaml b.yaml .meridian/tasks/.trash", ".meridian/tasks/.trash/a.yaml"],
+    ["rm -rf .meridian/tasks/.archive/TASK-001", ".meridian/tasks/.archive/TASK-001"],
+    ["dd if=/dev/zero of=.meridian/audit.jsonl bs=1 count=0", ".meridian/audit.jsonl"],
+    ["git checkout -- .meridian/task-backlog.yaml", ".meridian/task-backlog.yaml"],
+    ["cd . && sudo truncate -s 0 .meridian/memory.jsonl", ".meridian/memory.jsonl"],
+  ];
+  for (const [command, path] of cases) {
+    assert.equal(blocked(command), path, command);
+  }
+});
+
+test("shellWriteTargets lists destinations, not sources", () => {
+  assert.deepEqual(shellWriteTargets("cp src/a.ts dist/a.ts"), ["dist/a.ts", "dist/a.ts/a.ts"]);
+  assert.deepEqual(shellWriteTargets("install -t bin tool"), ["bin", "bin/tool"]);
+  assert.deepEqual(shellWriteTargets("npm test 2>&1 | grep install"), []);
+});
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import { formatBriefIssues, locateBriefPath, validateTaskBrief } from "../lib/task-schema";
+
+const TEMPLATE = readFileSync(
+  fileURLToPath(new URL("../../../.meridian/tasks/TASK-000-template/TASK-000.yaml", import.meta.url)),
+  "utf-8"
+);
+
+const VALID = `id: TASK-007
+title: Add pagination
+status: todo
+priority: P1
+objective: Page through long lists.
+requirements:
+  - id: R1
+    description: Pages of 20
+    status: todo
+  - id: R2
+    description: Next and previous links
+    status: in_progress
+validation:
+  commands:
+    - npm test
+`;
+
+test("a filled-in brief has no issues", () => {
+  const { brief, issues } = validateTaskBrief(VALID, "TASK-007");
+  assert.deepEqual(issues, []);
+  assert.equal(brief?.title, "Add pagination");
+});
+
+test("issues point at the line of the offending key", () => {
+  const content = VALID.replace("priority: P1", "priority: urgent")
+    .replace("    description: Next and previous links\n", "")
+    .replace("  - id: R2", "  - id: R1")
+    .replace("    - npm test", "    - 42");
+  const lines = Object.fromEntries(validateTaskBrief(content, "TASK-007").issues.map((issue) => [issue.path, issue.line]));
+  assert.deepEqual(lines, {
+    priority: 4,
+    "requirements[1].id": 10,
+    "requirements[1].description": 10,
+    "validation.commands[0]": 14,
+  });
+});
+
+test("template placeholders and the template's option lists are reported", () => {
+  const { issues } = validateTaskBrief(TEMPLATE, "TASK-003");
+  const byPath = new Map(issues.map((issue) => [issue.path, issue]));
+  assert.match(byPath.get("id")!.message, /placeholder "TASK-###"/);
+  assert.match(byPath.get("title")!.message, /placeholder/);
+  assert.match(byPath.get("status")!.message, /pick one value, not the template list/);
+  assert.equal(byPath.get("status")!.line, 3);
+  assert.equal(byPath.get("priority")!.line, 4);
+});
+
+test("invalid YAML reports the parser's line", () => {
+  const { brief, issues } = validateTaskBrief("id: TASK-001\ntitle: [unclosed\nstatus: todo\n", "TASK-001");
+  assert.equal(brief, null);
+  assert.equal(issues.length, 1);
+  assert.equal(issues[0].path, "(yaml)");
+  assert.ok(issues[0].line! >= 2, `line ${issues[0].line}`);
+});
+
+test("locateBriefPath falls back to the closest parent it can find", () => {
+  assert.equal(locateBriefPath(VALID, ["requirements", 1, "status"]), 12);
+  assert.equal(locateBriefPath(VALID, ["requirements", 1, "notes"]), 10);
+  assert.equal(locateBriefPath(VALID, ["links", "files"]), undefined);
+});
+
+test("formatBriefIssues renders file:line path: message", () => {
+  assert.equal(
+    formatBriefIssues("TASK-007.yaml", [
+      { path: "priority", line: 4, message: "must be one of P0, P1, P2, P3" },
+      { path: "links", message: "must be a mapping" },
+    ]),
+    "- TASK-007.yaml:4 priority: must be one of P0, P1, P2, P3\n- TASK-007.yaml links: must be a mapping"
+  );
+});
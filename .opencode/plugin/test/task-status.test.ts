@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync, writeFileSync } from "fs";
+import { findBacklogEntry, readBacklog } from "../lib/backlog";
+import { readTaskBrief, setBriefBlock, taskBriefPath } from "../lib/tasks";
+import { createWorkspace } from "../lib/workspace";
+import { brief, withProject } from "./fixtures/project";
+
+function statusOf(workspace: ReturnType<typeof createWorkspace>, taskId: string) {
+  return {
+    backlog: findBacklogEntry(readBacklog(workspace.backlogPath), taskId)?.status,
+    brief: readTaskBrief(workspace.config.tasksDir, taskId)?.status,
+  };
+}
+
+test("task-manager cannot set a status", () =>
+  withProject(async (dir) => {
+    const workspace = createWorkspace(dir);
+    await assert.rejects(workspace.createTask({ taskBrief: brief({ status: "in_progress" }), backlogEntry: "Test task" }), /task-status/);
+    await assert.rejects(workspace.createTask({ taskBrief: brief(), backlogEntry: "status: done" }), /task-status/);
+
+    const { taskId } = await workspace.createTask({ taskBrief: brief(), backlogEntry: "Test task" });
+    await assert.rejects(workspace.updateTask(taskId, { taskBrief: brief({ status: "done" }) }), /todo → done.*task-status/s);
+    await assert.rejects(workspace.updateTask(taskId, { backlogEntry: "status: done" }), /task-status/);
+    assert.deepEqual(statusOf(workspace, taskId), { backlog: "todo", brief: "todo" });
+
+    // Other fields still update, as long as the status stays
+    await workspace.setTaskStatus(taskId, "in_progress");
+    await workspace.updateTask(taskId, { taskBrief: brief({ status: "in_progress", title: "Renamed" }) });
+    assert.equal(readTaskBrief(workspace.config.tasksDir, taskId)?.title, "Renamed");
+  }));
+
+test("task-status follows the allowed transitions", () =>
+  withProject(async (dir) => {
+    const workspace = createWorkspace(dir);
+    const { taskId } = await workspace.createTask({ taskBrief: brief({ requirements: ["done"] }), backlogEntry: "Test task" });
+
+    await assert.rejects(workspace.setTaskStatus(taskId, "done"), /Cannot move TASK-001 from todo to done/);
+    const started = await workspace.setTaskStatus(taskId, "in_progress");
+    assert.equal(started.from, "todo");
+    await workspace.setTaskStatus(taskId, "done");
+    assert.deepEqual(statusOf(workspace, taskId), { backlog: "done", brief: "done" });
+    assert.ok(readTaskBrief(workspace.config.tasksDir, taskId)?.completed_at);
+
+    // Reopening clears completed_at
+    await workspace.setTaskStatus(taskId, "in_progress");
+    assert.equal(readTaskBrief(workspace.config.tasksDir, taskId)?.completed_at, null);
+  }));
+
+test("done is blocked by open requirements and failed verification", () =>
+  withProject(async (dir) => {
+    const workspace = createWorkspace(dir);
+    const { taskId } = await workspace.createTask({ taskBrief: brief({ requirements: ["done", "todo"] }), backlogEntry: "Test task" });
+    await workspace.setTaskStatus(taskId, "in_progress");
+    await assert.rejects(workspace.setTaskStatus(taskId, "done"), /1 requirement\(s\) still todo \(R2\)/);
+
+    await workspace.updateTask(taskId, { taskBrief: brief({ status: "in_progress", requirements: ["done", "done"] }) });
+    const path = taskBriefPath(workspace.config.tasksDir, taskId);
+    const verification = {
+      at: "2026-01-01T00:00:00Z",
+      result: "failed",
+      commands: [{ command: "npm test", exit_code: 1, duration_ms: 10 }],
+    };
+    writeFileSync(path, setBriefBlock(readFileSync(path, "utf-8"), "verification", verification));
+    await assert.rejects(workspace.setTaskStatus(taskId, "done"), /latest verification .* failed \(npm test\)/);
+    assert.deepEqual(statusOf(workspace, taskId), { backlog: "in_progress", brief: "in_progress" });
+  }));
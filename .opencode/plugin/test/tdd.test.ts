@@ -0,0 +1,126 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { type TddCycle, DEFAULT_TEST_PATTERNS, checkSourceEdit, classifyEdit, emptyCycle, isTestCommand, recordTddCall } from "../lib/tdd";
+import { MeridianPlugin } from "../meridian";
+import { withProject } from "./fixtures/project";
+
+const DIR = "/project";
+
+function step(cycle: TddCycle, tool: string, args: Record<string, unknown>, success = true) {
+  return recordTddCall(cycle, { tool, args, success }, DIR, DEFAULT_TEST_PATTERNS);
+}
+
+test("edits are split into tests and source; docs, config and Meridian files are neither", () => {
+  const classify = (tool: string, args: unknown) => classifyEdit(tool, args, DIR, DEFAULT_TEST_PATTERNS);
+  assert.deepEqual(classify("write", { filePath: "/project/src/cart.test.ts" }), { tests: ["src/cart.test.ts"], sources: [] });
+  assert.deepEqual(classify("Edit", { filePath: "src/cart.ts" }), { tests: [], sources: ["src/cart.ts"] });
+  assert.deepEqual(
+    classify("patch", { patchText: "*** Update File: lib/a.py\n*** Add File: tests/test_a.py\n*** Update File: README.md\n" }),
+    { tests: ["tests/test_a.py"], sources: ["lib/a.py"] }
+  );
+  assert.deepEqual(classify("write", { filePath: ".opencode/plugin/x.ts" }), { tests: [], sources: [] });
+  assert.deepEqual(classify("write", { filePath: "/elsewhere/x.ts" }), { tests: [], sources: [] });
+  assert.deepEqual(classify("read", { filePath: "src/cart.ts" }), { tests: [], sources: [] });
+});
+
+test("test commands are recognized", () => {
+  assert.equal(isTestCommand("npm test"), true);
+  assert.equal(isTestCommand("pnpm run test -- cart"), true);
+  assert.equal(isTestCommand("npx vitest run"), true);
+  assert.equal(isTestCommand("cargo test"), true);
+  assert.equal(isTestCommand("npm run build"), false);
+});
+
+test("source edits break the cycle until the new test was seen failing", () => {
+  assert.equal(checkSourceEdit(emptyCycle(), []), null);
+  assert.match(checkSourceEdit(emptyCycle(), ["src/cart.ts"])!, /^`src\/cart.ts`: no test was written or changed yet/);
+  assert.match(
+    checkSourceEdit({ phase: "test", testFiles: ["src/cart.test.ts"], implemented: false }, ["src/cart.ts"])!,
+    /the new test \(`src\/cart.test.ts`\) has not been seen failing yet/
+  );
+  assert.equal(checkSourceEdit({ phase: "red", testFiles: [], implemented: false }, ["src/cart.ts"]), null);
+  assert.equal(checkSourceEdit({ phase: "green", testFiles: [], implemented: true }, ["src/cart.ts"]), null);
+});
+
+test("a cycle goes test → red → green and the next test starts a new one", () => {
+  let update = step(emptyCycle(), "write", { filePath: "src/cart.test.ts" });
+  assert.deepEqual(update.cycle, { phase: "test", testFiles: ["src/cart.test.ts"], implemented: false });
+  assert.deepEqual(update.steps, ["Test written: `src/cart.test.ts`"]);
+
+  update = step(update.cycle, "bash", { command: "npm test" }, false);
+  assert.equal(update.cycle.phase, "red");
+  assert.deepEqual(update.steps, ["Red: `npm test` fails with the new test"]);
+
+  update = step(update.cycle, "edit", { filePath: "src/cart.ts" });
+  assert.equal(update.violation, null);
+  assert.deepEqual(update.cycle, { phase: "red", testFiles: ["src/cart.test.ts"], implemented: true });
+  assert.deepEqual(update.steps, ["Implementation started: `src/cart.ts`"]);
+
+  update = step(update.cycle, "bash", { command: "npm test" });
+  assert.equal(update.cycle.phase, "green");
+  assert.deepEqual(update.steps, ["Green: `npm test` passes"]);
+
+  // Refactoring while green is fine; a failing run turns it red again
+  assert.equal(step(update.cycle, "edit", { filePath: "src/cart.ts" }).violation, null);
+  assert.deepEqual(step(update.cycle, "bash", { command: "npm test" }, false).steps, ["Red: `npm test` fails again"]);
+
+  update = step(update.cycle, "write", { filePath: "src/checkout.test.ts" });
+  assert.deepEqual(update.cycle, { phase: "test", testFiles: ["src/checkout.test.ts"], implemented: false });
+});
+
+test("skipped steps are reported without changing the phase", () => {
+  const early = step(emptyCycle(), "edit", { filePath: "src/cart.ts" });
+  assert.match(early.violation!, /no test was written/);
+  assert.deepEqual(early.cycle, emptyCycle());
+  assert.equal(early.steps.length, 1);
+
+  const testing: TddCycle = { phase: "test", testFiles: ["src/cart.test.ts"], implemented: false };
+  assert.deepEqual(step(testing, "bash", { command: "npm test" }).steps, [
+    "⚠️ `npm test` passed before any implementation; check that the new test can fail",
+  ]);
+  assert.equal(step(testing, "bash", { command: "npm test" }).cycle.phase, "test");
+  // Failed edits and other commands are ignored
+  assert.deepEqual(step(testing, "edit", { filePath: "src/cart.ts" }, false), { cycle: testing, steps: [], violation: null });
+  assert.deepEqual(step(testing, "bash", { command: "npm run build" }, false), { cycle: testing, steps: [], violation: null });
+});
+
+function tddConfig(dir: string, enforcement: "warn" | "block"): void {
+  writeFileSync(join(dir, ".meridian", "config.yaml"), `tdd_mode: true\ntdd:\n  enforcement: ${enforcement}\n`);
+}
+
+test("with enforcement block, source edits are rejected until the test fails", () =>
+  withProject(async (dir) => {
+    tddConfig(dir, "block");
+    const plugin = await MeridianPlugin({ directory: dir, worktree: dir, client: {} } as any);
+    let call = 0;
+    const run = async (tool: string, args: Record<string, unknown>, result: { output: string; metadata?: unknown }) => {
+      const input = { tool, sessionID: "ses-1", callID: `call-${++call}` };
+      await plugin["tool.execute.before"]!(input, { args });
+      const output = { title: "", output: result.output, metadata: result.metadata ?? {} };
+      await plugin["tool.execute.after"]!({ ...input, args }, output);
+      return output.output;
+    };
+    const source = { filePath: join(dir, "src", "cart.ts") };
+
+    await assert.rejects(run("edit", source, { output: "" }), /TDD mode is on.*no test was written or changed yet.*tdd\.enforcement: warn/s);
+    await run("write", { filePath: join(dir, "src", "cart.test.ts") }, { output: "" });
+    await assert.rejects(run("edit", source, { output: "" }), /has not been seen failing yet/);
+    await run("write", { filePath: join(dir, "README.md") }, { output: "" });
+
+    await run("bash", { command: "npm test" }, { output: "1 failing", metadata: { exit: 1 } });
+    assert.doesNotMatch(await run("edit", source, { output: "Edited" }), /TDD mode/);
+  }));
+
+test("with enforcement warn, early source edits run with a warning", () =>
+  withProject(async (dir) => {
+    tddConfig(dir, "warn");
+    const plugin = await MeridianPlugin({ directory: dir, worktree: dir, client: {} } as any);
+    const input = { tool: "edit", sessionID: "ses-1", callID: "call-1" };
+    const args = { filePath: join(dir, "src", "cart.ts") };
+    await plugin["tool.execute.before"]!(input, { args });
+    const output = { title: "", output: "Edited", metadata: {} };
+    await plugin["tool.execute.after"]!({ ...input, args }, output);
+    assert.match(output.output, /^Edited\n\n⚠️ TDD mode: `src\/cart.ts`: no test was written or changed yet/);
+  }));
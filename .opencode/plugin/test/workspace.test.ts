@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync } from "fs";
+import { join } from "path";
+import { findBacklogEntry, readBacklog } from "../lib/backlog";
+import { readTaskBrief } from "../lib/tasks";
+import { deleteFromTrash, listTrash } from "../lib/trash";
+import { createWorkspace } from "../lib/workspace";
+import { brief, withProject } from "./fixtures/project";
+
+test("IDs of purged tasks are not handed out again", () =>
+  withProject(async (dir) => {
+    const workspace = createWorkspace(dir);
+    const { tasksDir } = workspace.config;
+
+    assert.equal((await workspace.createTask({})).taskId, "TASK-001");
+    assert.equal((await workspace.createTask({})).taskId, "TASK-002");
+    await workspace.deleteTask("TASK-002");
+    for (const item of listTrash(tasksDir)) deleteFromTrash(tasksDir, item);
+    assert.equal(existsSync(join(tasksDir, "TASK-002")), false);
+
+    assert.equal((await workspace.createTask({})).taskId, "TASK-003");
+  }));
+
+test("a new task's backlog entry and brief agree on title and priority", () =>
+  withProject(async (dir) => {
+    const workspace = createWorkspace(dir);
+    const { tasksDir } = workspace.config;
+    const entry = (taskId: string) => findBacklogEntry(readBacklog(workspace.backlogPath), taskId);
+
+    const fromBrief = await workspace.createTask({ taskBrief: brief({ title: "Add login", priority: "P1" }) });
+    assert.deepEqual(fromBrief.written, ["YAML brief", "backlog"]);
+    assert.equal(entry(fromBrief.taskId)?.title, "Add login");
+    assert.equal(entry(fromBrief.taskId)?.priority, "P1");
+
+    const withTitle = await workspace.createTask({ taskBrief: brief({ priority: "P0" }), backlogEntry: "Short backlog title" });
+    assert.equal(entry(withTitle.taskId)?.title, "Short backlog title");
+    assert.equal(entry(withTitle.taskId)?.priority, "P0");
+
+    await assert.rejects(
+      workspace.createTask({ taskBrief: brief({ priority: "P1" }), backlogEntry: "{ title: Clash, priority: P0 }" }),
+      /priority P0 does not match priority P1/
+    );
+    assert.equal(existsSync(join(tasksDir, "TASK-003")), false);
+    assert.equal(entry("TASK-003"), undefined);
+
+    const fromEntry = await workspace.createTask({ backlogEntry: "{ title: No brief yet, priority: P3 }" });
+    const filled = readTaskBrief(tasksDir, fromEntry.taskId);
+    assert.deepEqual([filled?.id, filled?.title, filled?.priority, filled?.status], [fromEntry.taskId, "No brief yet", "P3", "todo"]);
+  }));
@@ -1,240 +1,78 @@
-import type { Plugin } from "@opencode-ai/plugin";
+import type { Plugin, ToolDefinition } from "@opencode-ai/plugin";
 import { tool } from "@opencode-ai/plugin";
-import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, renameSync, rmSync } from "fs";
-import { join, basename } from "path";
-import { execSync } from "child_process";
-import Fuse from "fuse.js";
-import { sub, parseISO, isAfter } from "date-fns";
+import { isDeepStrictEqual } from "util";
+import { readFileSync, existsSync, mkdirSync, renameSync } from "fs";
+import { join, relative } from "path";
+import { parseISO, isValid, endOfDay } from "date-fns";
+import {
+  type BacklogStatus,
+  BACKLOG_STATUSES,
+  readBacklog,
+  writeBacklog,
+  listBacklogEntries,
+  findBacklogEntry,
+  upsertBacklogEntry,
+  removeBacklogEntry,
+} from "./lib/backlog";
+import { type MemoryEntry, type MemoryEvent, MEMORY_EVENT_TYPES, readMemoryLog, resolveMemory, loadActiveMemory } from "./lib/memory";
+import { withLock, writeFileAtomic, appendFileSynced } from "./lib/files";
+import { type TrashedTask, listTrash, restoreFromTrash, deleteFromTrash, purgeTrash } from "./lib/trash";
+import { type GitCommit, isGitRepository, findTaskCommits, resolveCommit, fileHistory } from "./lib/git";
+import { type CommandResult, runCommand, toVerificationRecord, formatVerificationSection } from "./lib/verify";
+import { archiveDir, readTaskArchive, writeTaskArchive, toArchivedTask } from "./lib/task-archive";
+import { ADR_TAGS, listAdrs, adrFileName, adrTitle, renderAdr, adrToSummary, adrTimestamp, isRetiredAdr } from "./lib/adr";
+import { loadMeridianConfig } from "./lib/config";
+import { createWorkspace, utcTimestamp, splitAndDedupe, describeProgress } from "./lib/workspace";
+import { buildProgressReport, renderReportMarkdown, renderReportHtml } from "./lib/report";
+import { type AuditGroupBy, AUDIT_GROUP_BY, readAuditHistory, filterAuditRecords, summarizeAudit } from "./lib/audit";
+import { validateTaskGraph, nextActionableTasks, toMermaid, toDot } from "./lib/graph";
+import { listTaskIds, readTaskBrief, setBriefBlock, taskBriefPath } from "./lib/tasks";
 
 /**
  * Meridian Tools Plugin
- * Provides memory-curator and task-manager custom tools
+ * Provides memory-curator, memory-lifecycle, task-manager, task-status, task-list, task-graph, task-report, task-deleter, task-archive, task-verify, task-git, adr-sync, memory-search and audit-query custom tools
  */
 export const MeridianToolsPlugin: Plugin = async ({ project, client, $, directory, worktree }) => {
-  const meridianDir = join(directory, ".meridian");
-  const memoryPath = join(meridianDir, "memory.jsonl");
-  const tasksDir = join(meridianDir, "tasks");
-  const backlogPath = join(meridianDir, "task-backlog.yaml");
+  let workspace = createWorkspace(directory, worktree);
+  const { meridianDir, memoryPath, backlogPath, archiveIndexPath, auditPath, memoryLockPath, tasksLockPath, gitDir } = workspace;
+  let { tasksDir, trashRetentionDays, adrDir, verify } = workspace.config;
 
   /**
-   * Read the last non-empty line from a file efficiently
+   * Re-read config.yaml before each tool call, as the hooks do, so changes apply
+   * without a restart. The workspace (and its memory index) is only rebuilt when
+   * the config changed. Returns the config problems to show with the output.
    */
-  function tailLastLine(filePath: string): string | null {
-    if (!existsSync(filePath)) return null;
-
-    try {
-      const content = readFileSync(filePath, "utf-8");
-      const lines = content.split("\n").filter((line) => line.trim());
-      return lines.length > 0 ? lines[lines.length - 1] : null;
-    } catch (error) {
-      return null;
+  function refreshConfig(): string[] {
+    const { config, issues } = loadMeridianConfig(directory);
+    if (!isDeepStrictEqual(config, workspace.config)) {
+      workspace = createWorkspace(directory, worktree);
+      ({ tasksDir, trashRetentionDays, adrDir, verify } = workspace.config);
     }
+    return issues;
   }
 
   /**
-   * Generate the next memory ID
+   * Run every tool with the current config, putting its problems in front of the output
    */
-  function getNextMemoryId(): string {
-    const lastLine = tailLastLine(memoryPath);
-    if (lastLine) {
-      try {
-        const obj = JSON.parse(lastLine);
-        const match = obj.id?.match(/^mem-(\d{4,})$/);
-        if (match) {
-          const nextNum = parseInt(match[1], 10) + 1;
-          return `mem-${nextNum.toString().padStart(4, "0")}`;
-        }
-      } catch (error) {
-        // Fall through to full scan
-      }
+  function withCurrentConfig<T extends Record<string, ToolDefinition>>(tools: T): T {
+    for (const definition of Object.values(tools)) {
+      const execute = definition.execute;
+      definition.execute = async (args, ctx) => {
+        const issues = refreshConfig();
+        const result = await execute(args, ctx);
+        if (issues.length === 0) return result;
+        const warnings = issues.map((issue) => `⚠️ config.yaml: ${issue}`).join("\n") + "\n\n";
+        return typeof result === "string" ? warnings + result : { ...result, output: warnings + result.output };
+      };
     }
-
-    // Full scan fallback
-    let maxNum = 0;
-    if (existsSync(memoryPath)) {
-      try {
-        const content = readFileSync(memoryPath, "utf-8");
-        const lines = content.split("\n").filter((line) => line.trim());
-        for (const line of lines) {
-          try {
-            const obj = JSON.parse(line);
-            const match = obj.id?.match(/^mem-(\d{4,})$/);
-            if (match) {
-              maxNum = Math.max(maxNum, parseInt(match[1], 10));
-            }
-          } catch (error) {
-            continue;
-          }
-        }
-      } catch (error) {
-        // Ignore
-      }
-    }
-
-    return `mem-${(maxNum + 1).toString().padStart(4, "0")}`;
-  }
-
-  /**
-   * Get current UTC timestamp in ISO format
-   */
-  function getUtcTimestamp(): string {
-    return new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
-  }
-
-  /**
-   * Split and deduplicate tags/links
-   */
-  function splitAndDedupe(items: string[]): string[] {
-    const result: string[] = [];
-    const seen = new Set<string>();
-
-    for (const item of items) {
-      const parts = item.split(/[,\s]+/).filter((p) => p.trim());
-      for (const part of parts) {
-        const trimmed = part.trim();
-        if (trimmed && !seen.has(trimmed)) {
-          seen.add(trimmed);
-          result.push(trimmed);
-        }
-      }
-    }
-
-    return result;
-  }
-
-  /**
-   * Update or add task entry in backlog
-   */
-  function updateBacklog(taskId: string, entry: string, dependsOn?: string[], blockedBy?: string[]): void {
-    // Add dependency fields to entry if provided
-    let finalEntry = entry;
-
-    if (dependsOn && dependsOn.length > 0) {
-      const depsYaml = `    depends_on: [${dependsOn.join(", ")}]`;
-      finalEntry = finalEntry.trim() + "\n" + depsYaml;
-    }
-
-    if (blockedBy && blockedBy.length > 0) {
-      const blockedYaml = `    blocked_by: [${blockedBy.join(", ")}]`;
-      finalEntry = finalEntry.trim() + "\n" + blockedYaml;
-    }
-
-    if (!existsSync(backlogPath)) {
-      // Create initial backlog if missing
-      writeFileSync(backlogPath, `tasks:\n${finalEntry}\n`, "utf-8");
-      return;
-    }
-
-    const backlogContent = readFileSync(backlogPath, "utf-8");
-    const lines = backlogContent.split("\n");
-
-    // Find if task already exists
-    const taskIdPattern = new RegExp(`^\\s*-\\s*id:\\s*${taskId}\\s*$`, 'm');
-    const match = backlogContent.match(taskIdPattern);
-
-    if (match) {
-      // Replace existing entry
-      // Find the start and end of this task entry
-      const startIdx = lines.findIndex(line => line.match(new RegExp(`^\\s*-\\s*id:\\s*${taskId}\\s*$`)));
-      if (startIdx === -1) return;
-
-      // Find next task or end of file
-      let endIdx = startIdx + 1;
-      while (endIdx < lines.length && !lines[endIdx].match(/^\s*-\s*id:/)) {
-        endIdx++;
-      }
-
-      // Replace the entry
-      const before = lines.slice(0, startIdx).join("\n");
-      const after = lines.slice(endIdx).join("\n");
-      const newContent = before + (before ? "\n" : "") + finalEntry + (after ? "\n" + after : "");
-      writeFileSync(backlogPath, newContent, "utf-8");
-    } else {
-      // Append new entry
-      const content = backlogContent.trim();
-      writeFileSync(backlogPath, content + "\n" + finalEntry + "\n", "utf-8");
-    }
-  }
-
-  /**
-   * Remove task entry from backlog
-   */
-  function removeFromBacklog(taskId: string): void {
-    if (!existsSync(backlogPath)) return;
-
-    const backlogContent = readFileSync(backlogPath, "utf-8");
-    const lines = backlogContent.split("\n");
-
-    // Find the task entry
-    const startIdx = lines.findIndex(line => line.match(new RegExp(`^\\s*-\\s*id:\\s*${taskId}\\s*$`)));
-    if (startIdx === -1) return;
-
-    // Find next task or end of file
-    let endIdx = startIdx + 1;
-    while (endIdx < lines.length && !lines[endIdx].match(/^\s*-\s*id:/)) {
-      endIdx++;
-    }
-
-    // Remove the entry
-    const before = lines.slice(0, startIdx).join("\n");
-    const after = lines.slice(endIdx).join("\n");
-    const newContent = (before + (after ? "\n" + after : "")).trim();
-    writeFileSync(backlogPath, newContent + "\n", "utf-8");
-  }
-
-  /**
-   * Get the next task ID
-   */
-  function getNextTaskId(): string {
-    if (!existsSync(tasksDir)) {
-      throw new Error(`Tasks directory not found: ${tasksDir}`);
-    }
-
-    const taskIds: number[] = [];
-    const items = readdirSync(tasksDir, { withFileTypes: true });
-
-    for (const item of items) {
-      if (item.isDirectory() && item.name.startsWith("TASK-")) {
-        const match = item.name.match(/^TASK-(\d+)$/);
-        if (match) {
-          taskIds.push(parseInt(match[1], 10));
-        }
-      }
-    }
-
-    const nextId = taskIds.length === 0 ? 1 : Math.max(...taskIds) + 1;
-    return `TASK-${nextId.toString().padStart(3, "0")}`;
+    return tools;
   }
 
-  /**
-   * Rename template files in the task directory
-   */
-  function renameTemplateFiles(destDir: string, taskId: string): void {
-    const exts = [".yaml", ".yml", ".md"];
-    const items = readdirSync(destDir, { withFileTypes: true });
-
-    for (const item of items) {
-      if (!item.isFile()) continue;
-
-      const ext = item.name.substring(item.name.lastIndexOf("."));
-      if (!exts.includes(ext.toLowerCase())) continue;
-
-      if (item.name.includes("TASK-000")) {
-        const newName = item.name.replace("TASK-000", taskId);
-        const oldPath = join(destDir, item.name);
-        const newPath = join(destDir, newName);
-
-        if (existsSync(newPath)) {
-          throw new Error(`Cannot rename '${item.name}' to '${newName}': target already exists.`);
-        }
-
-        renameSync(oldPath, newPath);
-      }
-    }
-  }
+  // Timed purge of deleted tasks, under the lock so it cannot race a restore; retried on the next delete
+  withLock(tasksLockPath, () => purgeTrash(tasksDir, trashRetentionDays)).catch(() => {});
 
   return {
-    tool: {
+    tool: withCurrentConfig({
       /**
        * Memory Curator Tool
        * Adds structured memory entries to memory.jsonl
@@ -264,30 +102,79 @@ Keep to ~6–10 lines total.`,
           summary: tool.schema.string().describe("Short markdown summary of the memory item using the format above"),
           tags: tool.schema.array(tool.schema.string()).describe("Tags (kebab-case): architecture, data-model, api, contracts, security, performance, reliability, observability, testing, tooling, build, release, i18n, a11y, cost, decision, pattern, lesson, tradeoff, deprecation, migration, nextjs, react, node, prisma, postgres, redis, s3, graphql, openapi"),
           links: tool.schema.array(tool.schema.string()).describe("Links: TASK IDs, critical file paths, PR URLs, or design docs. Prefer relative repo paths."),
+          supersedes: tool.schema.array(tool.schema.string()).optional().describe("Memory IDs this entry replaces (e.g., ['mem-0012']). They stop being injected and searched."),
         },
         async execute(args, ctx) {
-          if (!args.summary || !args.summary.trim()) {
-            throw new Error("Summary is required and cannot be empty");
-          }
+          const { entry, superseded } = await workspace.addMemory(args);
+          const supersededMsg = superseded.length > 0 ? `\nSuperseded: ${superseded.join(", ")}` : "";
+          return `Added ${entry.id} at ${entry.timestamp} → ${memoryPath}${supersededMsg}\n${JSON.stringify(entry, null, 2)}`;
+        },
+      }),
 
-          // Ensure parent directory exists
-          if (!existsSync(meridianDir)) {
-            mkdirSync(meridianDir, { recursive: true });
-          }
+      /**
+       * Memory Lifecycle Tool
+       * Supersedes, deprecates or amends existing memory entries via append-only events
+       */
+      "memory-lifecycle": tool({
+        description: `Retire or correct existing memory entries without rewriting history.
 
-          const entry = {
-            id: getNextMemoryId(),
-            timestamp: getUtcTimestamp(),
-            summary: args.summary.trim(),
-            tags: splitAndDedupe(args.tags || []),
-            links: splitAndDedupe(args.links || []),
-          };
+memory.jsonl stays append-only: each action appends an event line, and session context, summaries and memory-search only show the resulting current state.
+
+Actions:
+- supersede: Mark memoryId as replaced by supersededBy (an existing, newer entry). Tip: memory-curator's supersedes argument does this while adding the new entry.
+- deprecate: Mark memoryId as no longer valid, with a reason
+- amend: Replace the summary and/or tags of memoryId (e.g., to fix a mistake or add detail)
 
-          // Append to file
-          const jsonLine = JSON.stringify(entry) + "\n";
-          writeFileSync(memoryPath, jsonLine, { flag: "a", encoding: "utf-8" });
+Superseded and deprecated entries are no longer injected into sessions or returned by memory-search.
 
-          return `Added ${entry.id} at ${entry.timestamp} → ${memoryPath}\n${JSON.stringify(entry, null, 2)}`;
+Examples:
+- memory-lifecycle({ action: "supersede", memoryId: "mem-0012", supersededBy: "mem-0040" })
+- memory-lifecycle({ action: "deprecate", memoryId: "mem-0007", reason: "Redis cache removed in TASK-021" })
+- memory-lifecycle({ action: "amend", memoryId: "mem-0015", tags: ["architecture", "api"] })`,
+        args: {
+          action: tool.schema.enum(MEMORY_EVENT_TYPES).describe("supersede, deprecate or amend"),
+          memoryId: tool.schema.string().describe("Memory entry to change (e.g., 'mem-0012')"),
+          supersededBy: tool.schema.string().optional().describe("For supersede: the memory ID that replaces it"),
+          reason: tool.schema.string().optional().describe("Why the entry is superseded or deprecated (required for deprecate)"),
+          summary: tool.schema.string().optional().describe("For amend: the corrected summary"),
+          tags: tool.schema.array(tool.schema.string()).optional().describe("For amend: the corrected tag list"),
+        },
+        async execute(args, ctx) {
+          return withLock(memoryLockPath, () => {
+            const byId = workspace.resolvedMemoryMap();
+            const target = workspace.requireActiveMemory(byId, args.memoryId);
+            const event: MemoryEvent = { event: args.action, target: target.id, timestamp: utcTimestamp() };
+
+            if (args.action === "supersede") {
+              if (!args.supersededBy) {
+                throw new Error("supersededBy is required for action 'supersede'");
+              }
+              if (args.supersededBy === target.id) {
+                throw new Error(`Memory '${target.id}' cannot supersede itself`);
+              }
+              workspace.requireActiveMemory(byId, args.supersededBy);
+              event.by = args.supersededBy;
+            } else if (args.action === "deprecate") {
+              if (!args.reason?.trim()) {
+                throw new Error("reason is required for action 'deprecate'");
+              }
+            } else {
+              if (!args.summary?.trim() && !args.tags) {
+                throw new Error("amend needs a new summary and/or tags");
+              }
+              if (args.summary?.trim()) event.summary = args.summary.trim();
+              if (args.tags) event.tags = splitAndDedupe(args.tags);
+            }
+
+            if (args.reason?.trim()) {
+              event.reason = args.reason.trim();
+            }
+
+            appendFileSynced(memoryPath, JSON.stringify(event) + "\n");
+
+            const detail = args.action === "supersede" ? ` by ${event.by}` : event.reason ? ` (${event.reason})` : "";
+            return `✅ ${args.action} recorded for ${target.id}${detail} at ${event.timestamp}`;
+          });
         },
       }),
 
@@ -317,10 +204,16 @@ Parameters:
 - taskBrief: YAML content for TASK-###.yaml (objective, scope, constraints, etc.)
 - planContent: Markdown content for TASK-###-plan.md (the approved plan)
 - contextContent: Markdown content for TASK-###-context.md (initial context notes)
-- backlogEntry: Brief summary for task-backlog.yaml entry
+- backlogEntry: Brief one-line title for the task-backlog.yaml entry, or a YAML mapping (title, priority). A new task's entry takes its priority (and its title, if backlogEntry gives none) from taskBrief; a different priority is rejected. To change an existing task's priority, pass taskId and backlogEntry "priority: P0"; TASK-###.yaml is updated to match
 - dependsOn: (optional) Array of task IDs this task depends on (e.g., ["TASK-001", "TASK-002"])
 - blockedBy: (optional) Array of task IDs blocking this task (e.g., ["TASK-003"])
 
+taskBrief is validated against the TASK-000 template schema: id (filled in automatically when omitted), title (≤80 chars), status (todo for new tasks; on update keep the current one), priority (P0-P3), objective, and a non-empty requirements list with unique ids, description and status. validation.commands must be a list of strings. Errors reference the offending line.
+
+Status changes are rejected here: use task-status to move a task, which checks the allowed transitions, requirements and verification.
+
+Dependencies are validated: every ID must be an existing task, cycles are rejected, and blockedBy must not list tasks that are already done.
+
 Examples:
 - Create new: task-manager({ taskBrief: "...", planContent: "..." })
 - Update existing: task-manager({ taskId: "TASK-002", taskBrief: "...", planContent: "..." })
@@ -335,170 +228,800 @@ Examples:
           blockedBy: tool.schema.array(tool.schema.string()).optional().describe("Task IDs blocking this task (e.g., ['TASK-003'])"),
         },
         async execute(args, ctx) {
-          // Determine if we're creating or updating
-          const isUpdate = !!args.taskId;
-          const taskId = isUpdate ? args.taskId! : getNextTaskId();
-          const templateDir = join(tasksDir, "TASK-000-template");
-          const destDir = join(tasksDir, taskId);
-
-          if (isUpdate) {
-            // UPDATE MODE: Task must exist
-            if (!existsSync(destDir)) {
-              throw new Error(`Task '${taskId}' not found at '${destDir}'. Cannot update non-existent task.`);
+          if (args.taskId) {
+            const { taskId, path, written } = await workspace.updateTask(args.taskId, args);
+            if (written.length === 0) {
+              return `⚠️  Task ${taskId} not modified (no content provided).\nPath: ${path}`;
             }
+            return `✅ Task updated successfully: ${taskId}\nUpdated: ${written.join(", ")}\nPath: ${path}`;
+          }
+
+          const { taskId, path, written } = await workspace.createTask(args);
+          const populatedMsg = written.length > 0
+            ? `\nPopulated: ${written.join(", ")}`
+            : "\nUsing template defaults";
+          return `✅ Task created successfully: ${taskId}${populatedMsg}\nPath: ${path}`;
+        },
+      }),
+
+      /**
+       * Task Status Tool
+       * Moves a task through its status state machine
+       */
+      "task-status": tool({
+        description: `Change a task's status. Updates TASK-###.yaml and the backlog entry together so they never drift apart.
+
+Allowed transitions:
+- todo → in_progress, blocked
+- in_progress → blocked, done, todo
+- blocked → in_progress, todo
+- done → in_progress (reopen)
+
+Rules:
+- Stamps updated_at on every change and completed_at when the task becomes done (cleared on reopen)
+- Refuses done while any requirements[].status is still todo, or while the latest task-verify run failed
+- When a task becomes done, it is moved from other tasks' blocked_by into their depends_on
+- Setting the current status again just re-syncs the brief and backlog
+- Moving to in_progress or done records the git branch and HEAD under git.<status> in TASK-###.yaml and in the context file; done also links commits that mention the task (see task-git)
+
+Parameters:
+- taskId: Task ID (e.g., "TASK-002")
+- status: Target status (todo, in_progress, blocked, done)
+- note: (optional) One-line note appended to TASK-###-context.md (e.g., why it is blocked)
+
+Examples:
+- task-status({ taskId: "TASK-002", status: "in_progress" })
+- task-status({ taskId: "TASK-002", status: "blocked", note: "Waiting for API keys" })`,
+        args: {
+          taskId: tool.schema.string().describe("Task ID (e.g., 'TASK-002')"),
+          status: tool.schema.enum(BACKLOG_STATUSES).describe("Target status"),
+          note: tool.schema.string().optional().describe("Optional note appended to the task context file"),
+        },
+        async execute(args, ctx) {
+          const change = await workspace.setTaskStatus(args.taskId, args.status as BacklogStatus, args.note);
+          const { taskId, from, to } = change;
+
+          let result = from === to
+            ? `✅ ${taskId} already ${to}; brief and backlog re-synced`
+            : `✅ ${taskId}: ${from} → ${to}`;
+          if (change.unblocked.length > 0) {
+            result += `\nNo longer blocked by ${taskId}: ${change.unblocked.join(", ")}`;
+          }
+          if (to === "in_progress" && change.pendingDependencies.length > 0) {
+            result += `\n⚠️  Dependencies not done yet: ${change.pendingDependencies.join(", ")}`;
+          }
+          if (to === "done" && !change.verified) {
+            result += `\n⚠️  Never verified; task-verify runs the task's validation.commands`;
+          }
+          if (change.git) {
+            result += `\nGit: ${change.git.branch ?? "detached HEAD"} @ ${change.git.head}`;
+          }
+          if (change.linkedCommits.length > 0) {
+            result += `\nLinked ${change.linkedCommits.length} commit(s) mentioning ${taskId}`;
+          }
+          if (change.linkWarning) {
+            result += `\n⚠️  Commits not linked: ${change.linkWarning}`;
+          }
+          return result;
+        },
+      }),
+
+      /**
+       * Task List Tool
+       * Lists backlog tasks with filters and requirement progress
+       */
+      "task-list": tool({
+        description: `List tasks from the backlog and task folders as a compact table, with optional filters.
+
+Use this instead of reading task-backlog.yaml and every TASK-### folder when you need to pick work or check what is open.
+
+Each row shows status, priority, title, dependencies and requirement progress (done/total from requirements[].status in TASK-###.yaml).
+
+Parameters:
+- status: (optional) Only tasks with these statuses (todo, in_progress, blocked, done)
+- priority: (optional) Only tasks with these priorities (P0, P1, P2, P3)
+- dependsOn: (optional) Only tasks that depend on this task ID
+- search: (optional) Case-insensitive text match on task ID and title
+
+Examples:
+- task-list({})
+- task-list({ status: ["todo", "in_progress"], priority: ["P0", "P1"] })
+- task-list({ dependsOn: "TASK-001" })
+- task-list({ search: "pagination" })`,
+        args: {
+          status: tool.schema.array(tool.schema.string()).optional().describe("Statuses to include (todo, in_progress, blocked, done)"),
+          priority: tool.schema.array(tool.schema.string()).optional().describe("Priorities to include (P0-P3)"),
+          dependsOn: tool.schema.string().optional().describe("Only tasks that depend on this task ID"),
+          search: tool.schema.string().optional().describe("Text to match against task ID and title"),
+        },
+        async execute(args, ctx) {
+          const { rows, total } = workspace.listTasks(args);
+
+          if (rows.length === 0) {
+            return `No tasks match the given filters (${total} task(s) total).`;
+          }
+
+          const cell = (value: string) => value.replace(/\|/g, "\\|") || "-";
+          const table = rows.map((row) => {
+            const title = row.inBacklog ? row.title : `${row.title} (not in backlog)`.trim();
+            return `| ${row.id} | ${cell(row.status)} | ${cell(row.priority)} | ${cell(title)} | ${cell(row.dependsOn.join(", "))} | ${describeProgress(row)} |`;
+          });
+
+          return `Found ${rows.length} of ${total} task(s):
+
+| ID | Status | Pri | Title | Depends on | Reqs done |
+|----|--------|-----|-------|------------|-----------|
+${table.join("\n")}`;
+        },
+      }),
+
+      /**
+       * Task Graph Tool
+       * Dependency graph checks, next actionable tasks and diagram export
+       */
+      "task-graph": tool({
+        description: `Work with the task dependency graph built from depends_on/blocked_by in task-backlog.yaml.
+
+Formats:
+- next (default): Open tasks whose dependencies are all done, in priority order, plus tasks still waiting and what they wait on
+- check: Report unknown IDs, cycles and inconsistent blocked_by entries across the whole backlog
+- mermaid: Mermaid flowchart to paste into Markdown docs
+- dot: Graphviz DOT source
 
-            // Update only the files that have new content
-            const filesUpdated = [];
+Examples:
+- task-graph({})
+- task-graph({ format: "mermaid" })`,
+        args: {
+          format: tool.schema.enum(["next", "check", "mermaid", "dot"]).optional().describe("Output format (default: next)"),
+        },
+        async execute(args, ctx) {
+          const graph = workspace.buildGraphWithArchive(listBacklogEntries(readBacklog(backlogPath)));
+          const format = args.format || "next";
 
-            if (args.taskBrief) {
-              const taskBriefPath = join(destDir, `${taskId}.yaml`);
-              writeFileSync(taskBriefPath, args.taskBrief, "utf-8");
-              filesUpdated.push("YAML brief");
+          if (graph.entries.size === 0) {
+            return `No tasks in backlog: ${backlogPath}`;
+          }
+
+          if (format === "mermaid") {
+            return "```mermaid\n" + toMermaid(graph) + "\n```";
+          }
+
+          if (format === "dot") {
+            return "```dot\n" + toDot(graph) + "\n```";
+          }
+
+          if (format === "check") {
+            const issues = validateTaskGraph(graph, new Set(listTaskIds(tasksDir)));
+            const messages = [...new Set(issues.map((issue) => issue.message))];
+            if (messages.length === 0) {
+              return `✅ Dependency graph is valid (${graph.entries.size} tasks)`;
             }
+            return `❌ Found ${messages.length} dependency issue(s):\n${messages.map((message) => `- ${message}`).join("\n")}`;
+          }
+
+          const actionable = nextActionableTasks(graph);
+          const actionableIds = new Set(actionable.map((entry) => entry.id));
+          const waiting = [...graph.entries.values()].filter(
+            (entry) => entry.status !== "done" && !actionableIds.has(entry.id)
+          );
+
+          const describe = (id: string) => `${id} (${graph.entries.get(id)?.status ?? "unknown"})`;
+          const actionableText = actionable.length > 0
+            ? actionable.map((entry, index) =>
+                `${index + 1}. ${entry.id} [${entry.priority ?? "-"}] ${entry.title} (${entry.status ?? "unknown"})`
+              ).join("\n")
+            : "(none)";
+          const waitingText = waiting.length > 0
+            ? waiting.map((entry) => {
+                const pending = (graph.prerequisites.get(entry.id) ?? [])
+                  .filter((dep) => graph.entries.get(dep)?.status !== "done");
+                const reason = pending.length > 0 ? `waiting on ${pending.map(describe).join(", ")}` : `status ${entry.status}`;
+                return `- ${entry.id} ${entry.title}: ${reason}`;
+              }).join("\n")
+            : "(none)";
+
+          return `**Next actionable tasks** (${actionable.length}):
+${actionableText}
+
+**Waiting** (${waiting.length}):
+${waitingText}`;
+        },
+      }),
+
+      /**
+       * Task Report Tool
+       * Writes a Markdown/HTML progress report across all tasks
+       */
+      "task-report": tool({
+        description: `Generate a project progress report for stand-ups and stakeholders, without reading every task folder.
+
+Walks task-backlog.yaml and every TASK-###/TASK-###.yaml and reports:
+- Completion per task and per requirement (requirements[].status)
+- Blocked chains: open tasks waiting on unfinished prerequisites, down to what holds them up
+- Stale tasks: in_progress or blocked tasks without an update (updated_at, or the newest file in the folder) for staleDays
+- Memories added in the last memoryDays
+
+The report is written to .meridian/reports/progress-YYYY-MM-DD.md and/or .html (self-contained, no external assets). The Markdown version is returned.
+
+Parameters:
+- format: "markdown", "html" or "both" (default: "both")
+- staleDays: Days without update before an open task counts as stale (default: 14)
+- memoryDays: How far back to list new memories (default: 7)
+
+Examples:
+- task-report({})
+- task-report({ format: "html", staleDays: 7 })`,
+        args: {
+          format: tool.schema.enum(["markdown", "html", "both"]).optional().describe("Report files to write (default: both)"),
+          staleDays: tool.schema.number().optional().describe("Days without update before a task is stale (default: 14)"),
+          memoryDays: tool.schema.number().optional().describe("Days of new memories to include (default: 7)"),
+        },
+        async execute(args, ctx) {
+          const reportFormat = args.format || "both";
+          const entries = listBacklogEntries(readBacklog(backlogPath));
+          const backlogIds = new Set(entries.map((entry) => entry.id));
+
+          const report = buildProgressReport({
+            tasksDir,
+            entries,
+            orphanIds: listTaskIds(tasksDir).filter((id) => !backlogIds.has(id)),
+            graph: workspace.buildGraphWithArchive(entries),
+            loadBrief: (taskId) => readTaskBrief(tasksDir, taskId),
+            memory: loadActiveMemory(memoryPath),
+            staleDays: args.staleDays ?? 14,
+            memoryDays: args.memoryDays ?? 7,
+          });
+          const markdown = renderReportMarkdown(report);
+
+          const reportsDir = join(meridianDir, "reports");
+          mkdirSync(reportsDir, { recursive: true });
+          const baseName = `progress-${utcTimestamp().slice(0, 10)}`;
+          const written: string[] = [];
+
+          if (reportFormat !== "html") {
+            writeFileAtomic(join(reportsDir, `${baseName}.md`), markdown);
+            written.push(join(reportsDir, `${baseName}.md`));
+          }
+          if (reportFormat !== "markdown") {
+            writeFileAtomic(join(reportsDir, `${baseName}.html`), renderReportHtml(report));
+            written.push(join(reportsDir, `${baseName}.html`));
+          }
+
+          return `✅ Report written:\n${written.map((path) => `- ${path}`).join("\n")}\n\n${markdown}`;
+        },
+      }),
+
+      /**
+       * Task Deleter Tool
+       * Moves tasks to the trash, restores them, and purges the trash
+       */
+      "task-deleter": tool({
+        description: `Delete a task (move it to the trash), restore it, or purge the trash.
 
-            if (args.planContent) {
-              const planPath = join(destDir, `${taskId}-plan.md`);
-              writeFileSync(planPath, args.planContent, "utf-8");
-              filesUpdated.push("plan");
+Use this to clean up:
+- Accidentally created tasks (like TASK-003 created by mistake)
+- Abandoned or obsolete tasks
+- Duplicate tasks
+
+Deleted tasks are moved to ${relative(directory, tasksDir)}/.trash/ with their backlog entry and removed from the backlog. They can be restored until they are purged automatically after ${trashRetentionDays} days (trash_retention_days in config.yaml). Finished tasks should be archived with task-archive instead.
+
+Actions:
+- delete (default): Move taskId to the trash
+- restore: Put the most recently deleted copy of taskId back, including its backlog entry
+- list: Show the trash
+- purge: Permanently delete taskId from the trash, or everything past the retention period if taskId is omitted
+
+Examples:
+- task-deleter({ taskId: "TASK-003" })
+- task-deleter({ action: "restore", taskId: "TASK-003" })
+- task-deleter({ action: "list" })`,
+        args: {
+          taskId: tool.schema.string().optional().describe("Task ID (e.g., 'TASK-003'); required for delete and restore"),
+          action: tool.schema.enum(["delete", "restore", "list", "purge"]).optional().describe("delete (default), restore, list or purge"),
+        },
+        async execute(args, ctx) {
+          const action = args.action || "delete";
+          const taskId = args.taskId;
+
+          if (action === "delete") {
+            if (!taskId) {
+              throw new Error(`taskId is required for action '${action}'`);
             }
+            const deleted = await workspace.deleteTask(taskId);
+            return `✅ Task moved to trash: ${taskId}\nTrash: ${deleted.trashPath}${deleted.removedFromBacklog ? "\nRemoved from backlog" : ""}\nRestore with task-deleter({ action: "restore", taskId: "${taskId}" }) within ${trashRetentionDays} days.`;
+          }
 
-            if (args.contextContent) {
-              const contextPath = join(destDir, `${taskId}-context.md`);
-              writeFileSync(contextPath, args.contextContent, "utf-8");
-              filesUpdated.push("context");
+          return withLock(tasksLockPath, () => {
+            if (action === "list") {
+              const items = listTrash(tasksDir);
+              if (items.length === 0) {
+                return "Trash is empty.";
+              }
+              const lines = items.map((item) =>
+                `- ${item.taskId} ${item.entry?.title ? `"${item.entry.title}" ` : ""}— deleted ${item.trashedAt || "at an unknown time"}`
+              );
+              return `**Trash** (${items.length}, purged after ${trashRetentionDays} days):\n${lines.join("\n")}`;
             }
 
-            // Update backlog if entry provided (do this BEFORE the early return check)
-            if (args.backlogEntry) {
-              updateBacklog(taskId, args.backlogEntry, args.dependsOn, args.blockedBy);
-              filesUpdated.push("backlog");
+            if (action === "purge") {
+              const purged: TrashedTask[] = taskId
+                ? listTrash(tasksDir).filter((item) => item.taskId === taskId)
+                : purgeTrash(tasksDir, trashRetentionDays);
+              if (taskId) {
+                if (purged.length === 0) {
+                  throw new Error(`Task '${taskId}' is not in the trash.`);
+                }
+                purged.forEach((item) => deleteFromTrash(tasksDir, item));
+              }
+              return purged.length > 0
+                ? `✅ Permanently deleted ${purged.length} trashed task(s): ${purged.map((item) => item.taskId).join(", ")}`
+                : `Nothing to purge (no trashed task is older than ${trashRetentionDays} days).`;
             }
 
-            if (filesUpdated.length === 0) {
-              return `⚠️  Task ${taskId} not modified (no content provided).\nPath: ${destDir}`;
+            if (!taskId) {
+              throw new Error(`taskId is required for action '${action}'`);
             }
 
-            return `✅ Task updated successfully: ${taskId}\nUpdated: ${filesUpdated.join(", ")}\nPath: ${destDir}`;
-          } else {
-            // CREATE MODE: Task must NOT exist
-            if (!existsSync(templateDir)) {
-              throw new Error(
-                `Template directory not found at '${templateDir}'. Please create a 'TASK-000-template' folder with the desired contents.`
-              );
+            // restore
+            const item = listTrash(tasksDir).find((candidate) => candidate.taskId === taskId);
+            if (!item) {
+              throw new Error(`Task '${taskId}' is not in the trash. Use task-deleter({ action: "list" }) to see deleted tasks.`);
             }
 
-            if (existsSync(destDir)) {
-              throw new Error(`Task '${taskId}' already exists at '${destDir}'. Use taskId parameter to update it.`);
+            // Validate the backlog change before moving anything
+            const doc = readBacklog(backlogPath);
+            if (item.entry && !findBacklogEntry(doc, taskId)) {
+              upsertBacklogEntry(doc, item.entry);
+            }
+            restoreFromTrash(tasksDir, item);
+            if (item.entry) {
+              writeBacklog(backlogPath, doc);
             }
 
-            // Copy template directory
-            try {
-              mkdirSync(destDir, { recursive: true });
-              const items = readdirSync(templateDir, { withFileTypes: true });
+            return `✅ Task restored: ${taskId}\nPath: ${join(tasksDir, taskId)}${item.entry ? "\nBacklog entry restored" : ""}`;
+          });
+        },
+      }),
 
-              for (const item of items) {
-                const srcPath = join(templateDir, item.name);
-                const dstPath = join(destDir, item.name);
+      /**
+       * Task Archive Tool
+       * Moves finished tasks out of the active tree and backlog
+       */
+      "task-archive": tool({
+        description: `Archive finished tasks, or bring an archived task back.
 
-                if (item.isFile()) {
-                  const content = readFileSync(srcPath, "utf-8");
-                  writeFileSync(dstPath, content, "utf-8");
-                }
+Archiving moves done tasks out of the backlog and into ${relative(directory, tasksDir)}/.archive/, listed in .meridian/task-archive.yaml. Sessions do not load the archive, which keeps finished work out of the context. Tasks that depend on an archived task still see it as done.
+
+Actions:
+- archive (default): Archive taskIds, or every done task in the backlog if taskIds is omitted. Only done tasks can be archived.
+- restore: Move taskIds back to the tasks folder and backlog (status done)
+- list: Show archived tasks
+
+Examples:
+- task-archive({})
+- task-archive({ taskIds: ["TASK-004", "TASK-007"] })
+- task-archive({ action: "restore", taskIds: ["TASK-004"] })`,
+        args: {
+          action: tool.schema.enum(["archive", "restore", "list"]).optional().describe("archive (default), restore or list"),
+          taskIds: tool.schema.array(tool.schema.string()).optional().describe("Task IDs (default for archive: all done tasks)"),
+        },
+        async execute(args, ctx) {
+          return withLock(tasksLockPath, () => {
+            const action = args.action || "archive";
+            const archive = readTaskArchive(archiveIndexPath);
+
+            if (action === "list") {
+              if (archive.tasks.length === 0) {
+                return "No archived tasks.";
               }
-            } catch (error) {
-              throw new Error(`Failed to copy template: ${error}`);
+              const lines = archive.tasks.map((task) =>
+                `- ${task.id} [${task.priority ?? "-"}] ${task.title} — archived ${task.archived_at}${task.completed_at ? `, completed ${task.completed_at}` : ""}`
+              );
+              return `**Archived tasks** (${archive.tasks.length}):\n${lines.join("\n")}`;
             }
 
-            // Rename template files
-            renameTemplateFiles(destDir, taskId);
+            const doc = readBacklog(backlogPath);
+            const requested = splitAndDedupe(args.taskIds || []);
+
+            if (action === "restore") {
+              if (requested.length === 0) {
+                throw new Error("taskIds is required for action 'restore'");
+              }
+              for (const taskId of requested) {
+                if (!archive.tasks.some((task) => task.id === taskId)) {
+                  throw new Error(`Task '${taskId}' is not archived. Nothing was restored.`);
+                }
+                if (existsSync(join(tasksDir, taskId)) || findBacklogEntry(doc, taskId)) {
+                  throw new Error(`Task '${taskId}' already exists in the tasks folder or backlog. Nothing was restored.`);
+                }
+              }
+
+              for (const taskId of requested) {
+                const task = archive.tasks.find((candidate) => candidate.id === taskId)!;
+                const archivedDir = join(archiveDir(tasksDir), taskId);
+                let path = task.path;
+                if (existsSync(archivedDir)) {
+                  renameSync(archivedDir, join(tasksDir, taskId));
+                  path = `${relative(directory, join(tasksDir, taskId))}/`;
+                }
+                upsertBacklogEntry(doc, {
+                  id: taskId,
+                  title: task.title,
+                  priority: task.priority,
+                  status: "done",
+                  path,
+                  depends_on: task.depends_on ?? [],
+                });
+              }
+              writeBacklog(backlogPath, doc);
+              writeTaskArchive(archiveIndexPath, { tasks: archive.tasks.filter((task) => !requested.includes(task.id)) });
 
-            // Populate files with provided content (if any)
-            if (args.taskBrief) {
-              const taskBriefPath = join(destDir, `${taskId}.yaml`);
-              writeFileSync(taskBriefPath, args.taskBrief, "utf-8");
+              return `✅ Restored from archive: ${requested.join(", ")}`;
             }
 
-            if (args.planContent) {
-              const planPath = join(destDir, `${taskId}-plan.md`);
-              writeFileSync(planPath, args.planContent, "utf-8");
+            const entries = requested.length > 0
+              ? requested.map((taskId) => {
+                  const entry = findBacklogEntry(doc, taskId);
+                  if (!entry) {
+                    throw new Error(`Task '${taskId}' not found in backlog. Nothing was archived.`);
+                  }
+                  if (entry.status !== "done") {
+                    throw new Error(`Task '${taskId}' is ${entry.status ?? "without a status"}; only done tasks can be archived. Nothing was archived.`);
+                  }
+                  return entry;
+                })
+              : listBacklogEntries(doc).filter((entry) => entry.status === "done");
+
+            if (entries.length === 0) {
+              return "No done tasks to archive.";
             }
 
-            if (args.contextContent) {
-              const contextPath = join(destDir, `${taskId}-context.md`);
-              writeFileSync(contextPath, args.contextContent, "utf-8");
+            for (const entry of entries) {
+              if (existsSync(join(tasksDir, entry.id)) && existsSync(join(archiveDir(tasksDir), entry.id))) {
+                throw new Error(`Cannot archive ${entry.id}: ${join(archiveDir(tasksDir), entry.id)} already exists. Nothing was archived.`);
+              }
             }
 
-            const filesPopulated = [];
-            if (args.taskBrief) filesPopulated.push("YAML brief");
-            if (args.planContent) filesPopulated.push("plan");
-            if (args.contextContent) filesPopulated.push("context");
+            mkdirSync(archiveDir(tasksDir), { recursive: true });
+            const archivedAt = utcTimestamp();
+            for (const entry of entries) {
+              let completedAt: string | undefined;
+              try {
+                const completed = readTaskBrief(tasksDir, entry.id)?.completed_at;
+                completedAt = completed instanceof Date ? completed.toISOString() : typeof completed === "string" ? completed : undefined;
+              } catch (error) {
+                // Brief unreadable; archive without completed_at
+              }
+
+              const taskDir = join(tasksDir, entry.id);
+              const archivedDir = join(archiveDir(tasksDir), entry.id);
+              let path = entry.path ?? "";
+              if (existsSync(taskDir)) {
+                renameSync(taskDir, archivedDir);
+                path = `${relative(directory, archivedDir)}/`;
+              }
 
-            // Add to backlog if entry provided
-            if (args.backlogEntry) {
-              updateBacklog(taskId, args.backlogEntry, args.dependsOn, args.blockedBy);
-              filesPopulated.push("backlog");
+              archive.tasks = archive.tasks.filter((task) => task.id !== entry.id);
+              archive.tasks.push(toArchivedTask(entry, path, archivedAt, completedAt));
+              removeBacklogEntry(doc, entry.id);
             }
 
-            const populatedMsg = filesPopulated.length > 0
-              ? `\nPopulated: ${filesPopulated.join(", ")}`
-              : "\nUsing template defaults";
+            writeTaskArchive(archiveIndexPath, archive);
+            writeBacklog(backlogPath, doc);
 
-            return `✅ Task created successfully: ${taskId}${populatedMsg}\nPath: ${destDir}`;
-          }
+            return `✅ Archived ${entries.length} task(s): ${entries.map((entry) => entry.id).join(", ")}\nIndex: ${archiveIndexPath}`;
+          });
         },
       }),
 
       /**
-       * Task Deleter Tool
-       * Deletes tasks and removes them from backlog
+       * Task Verify Tool
+       * Runs a task's validation commands and records the result
        */
-      "task-deleter": tool({
-        description: `Delete a task folder and remove it from the backlog.
+      "task-verify": tool({
+        description: `Run a task's validation.commands (from TASK-###.yaml) and record the result.
 
-Use this to clean up:
-- Accidentally created tasks (like TASK-003 created by mistake)
-- Abandoned or obsolete tasks
-- Duplicate tasks
+Commands run one after another from the project root, each with a time limit (verify.timeout_seconds in config.yaml, default 600). Exit codes, durations and the end of each failing command's output are reported.
 
-WARNING: This permanently deletes the task folder and all its contents!
+The result is stored in the brief's verification block and appended as a timestamped section to TASK-###-context.md. task-status refuses done while the latest verification failed; run task-verify again after fixing the failures.
 
 Parameters:
-- taskId: Task ID to delete (e.g., "TASK-003")
+- taskId: Task ID (e.g., "TASK-002")
+- timeoutSeconds: (optional) Override the per-command time limit
 
-Example:
-- task-deleter({ taskId: "TASK-003" })`,
+Examples:
+- task-verify({ taskId: "TASK-002" })
+- task-verify({ taskId: "TASK-002", timeoutSeconds: 1200 })`,
         args: {
-          taskId: tool.schema.string().describe("Task ID to delete (e.g., 'TASK-003')"),
+          taskId: tool.schema.string().describe("Task ID (e.g., 'TASK-002')"),
+          timeoutSeconds: tool.schema.number().optional().describe("Per-command time limit in seconds"),
         },
         async execute(args, ctx) {
           const taskId = args.taskId;
-          const destDir = join(tasksDir, taskId);
+          const briefPath = taskBriefPath(tasksDir, taskId);
+          if (!existsSync(briefPath)) {
+            throw new Error(`Task brief not found at '${briefPath}'. Nothing was run.`);
+          }
 
-          if (!existsSync(destDir)) {
-            throw new Error(`Task '${taskId}' not found at '${destDir}'. Cannot delete non-existent task.`);
+          const brief = readTaskBrief(tasksDir, taskId);
+          const validation = brief?.validation as { commands?: unknown } | undefined;
+          const commands = (Array.isArray(validation?.commands) ? validation!.commands : [])
+            .filter((command): command is string => typeof command === "string" && !!command.trim())
+            .map((command) => command.trim());
+          if (commands.length === 0) {
+            throw new Error(`${taskId} has no validation.commands. Add them to ${taskId}.yaml (e.g., "pnpm test") and retry. Nothing was run.`);
           }
 
-          // Remove from backlog first
-          removeFromBacklog(taskId);
+          // Commands can run for minutes, so the tasks lock is only taken to record the result
+          const timeoutMs = (args.timeoutSeconds && args.timeoutSeconds > 0 ? args.timeoutSeconds : verify.timeoutSeconds) * 1000;
+          const results: CommandResult[] = [];
+          for (const command of commands) {
+            results.push(await runCommand(command, directory, timeoutMs, verify.outputMaxChars));
+          }
 
-          // Delete the task folder
-          rmSync(destDir, { recursive: true, force: true });
+          const timestamp = utcTimestamp();
+          const record = toVerificationRecord(results, timestamp);
+          const section = formatVerificationSection(results, timestamp);
+          await withLock(tasksLockPath, () => {
+            writeFileAtomic(briefPath, setBriefBlock(readFileSync(briefPath, "utf-8"), "verification", record));
+            appendFileSynced(join(tasksDir, taskId, `${taskId}-context.md`), section);
+          });
 
-          return `✅ Task deleted successfully: ${taskId}\nRemoved from: ${destDir}\nRemoved from backlog`;
+          const next = record.result === "passed"
+            ? `${taskId} can be marked done with task-status.`
+            : `${taskId} cannot be marked done until task-verify passes.`;
+          return `${section.trim().replace(/^## .*\n/, `## ${taskId} verification\n`)}\n\n${next}`;
+        },
+      }),
+
+      /**
+       * Task Git Tool
+       * Links commits that mention TASK-### to their tasks and finds the task behind a file or commit
+       */
+      "task-git": tool({
+        description: `Connect tasks with the local git history. Commits belong to a task when their message mentions its ID (e.g., "TASK-012: add rate limiter").
+
+Actions:
+- sync: Scan git log (HEAD and local branches) for commits mentioning TASK-### and append new ones to each task's links.commits in TASK-###.yaml and to TASK-###-context.md. Already linked commits are skipped. task-status does this automatically when a task becomes done.
+- find: Which task introduced a file or commit. For a file, the commit that added it (following renames) and every task that changed it since; for a commit, the tasks its message mentions.
+
+task-status also records the branch and HEAD under git.in_progress / git.done in TASK-###.yaml when a task starts or finishes.
+
+Parameters:
+- action: sync or find
+- taskId: (sync, optional) Only link commits for this task
+- file: (find) Path relative to the repository root
+- commit: (find) Commit hash or other revision
+
+Examples:
+- task-git({ action: "sync" })
+- task-git({ action: "find", file: "src/api/rate-limit.ts" })
+- task-git({ action: "find", commit: "a1b2c3d" })`,
+        args: {
+          action: tool.schema.enum(["sync", "find"]).describe("sync or find"),
+          taskId: tool.schema.string().optional().describe("For sync: only this task"),
+          file: tool.schema.string().optional().describe("For find: file path relative to the repository root"),
+          commit: tool.schema.string().optional().describe("For find: commit hash or revision"),
+        },
+        async execute(args, ctx) {
+          if (!isGitRepository(gitDir)) {
+            throw new Error(`${gitDir} is not a git repository (or git is not installed). Nothing was written.`);
+          }
+
+          if (args.action === "find") {
+            if (!args.file && !args.commit) {
+              throw new Error("find needs a file or a commit");
+            }
+            const sections: string[] = [];
+
+            if (args.commit) {
+              const commit = resolveCommit(gitDir, args.commit);
+              if (!commit) {
+                throw new Error(`Commit '${args.commit}' not found in ${gitDir}`);
+              }
+              const tasks = commit.taskIds.length > 0 ? commit.taskIds.map((id) => `- ${workspace.describeTask(id)}`).join("\n") : "- No TASK-### in the commit message";
+              sections.push(`## Commit ${commit.shortHash} (${commit.date.slice(0, 10)})\n${commit.subject}\n\n${tasks}`);
+            }
+
+            if (args.file) {
+              const { introducedBy, commits } = fileHistory(gitDir, args.file);
+              if (!introducedBy) {
+                throw new Error(`No git history for '${args.file}' (paths are relative to ${gitDir})`);
+              }
+              const introducedTasks = introducedBy.taskIds.length > 0
+                ? introducedBy.taskIds.map(workspace.describeTask).join(", ")
+                : "no TASK-### in the commit message";
+              const changedBy = new Map<string, number>();
+              for (const commit of commits) {
+                for (const id of commit.taskIds) changedBy.set(id, (changedBy.get(id) ?? 0) + 1);
+              }
+              const changes = [...changedBy].map(([id, count]) => `- ${workspace.describeTask(id)}: ${count} commit(s)`);
+              sections.push(
+                `## ${args.file}\nIntroduced by ${introducedBy.shortHash} (${introducedBy.date.slice(0, 10)}) ${introducedBy.subject}\n→ ${introducedTasks}\n\n` +
+                  `Tasks that changed it (${commits.length} commit(s) total):\n${changes.join("\n") || "- none mention a task"}`
+              );
+            }
+
+            return sections.join("\n\n");
+          }
+
+          return withLock(tasksLockPath, () => {
+            const byTask = new Map<string, GitCommit[]>();
+            for (const commit of findTaskCommits(gitDir, args.taskId)) {
+              for (const id of commit.taskIds) {
+                if (args.taskId && id !== args.taskId) continue;
+                byTask.set(id, [...(byTask.get(id) ?? []), commit]);
+              }
+            }
+
+            const folders = new Set(listTaskIds(tasksDir));
+            const linked: string[] = [];
+            const upToDate: string[] = [];
+            const missing: string[] = [];
+            const failed: string[] = [];
+            for (const [taskId, commits] of [...byTask].sort(([a], [b]) => a.localeCompare(b))) {
+              if (!folders.has(taskId)) {
+                missing.push(taskId);
+                continue;
+              }
+              try {
+                const added = workspace.linkTaskCommits(taskId, commits);
+                if (added.length > 0) {
+                  linked.push(`- ${taskId}: ${added.map((commit) => commit.shortHash).join(", ")}`);
+                } else {
+                  upToDate.push(taskId);
+                }
+              } catch (error) {
+                failed.push(`- ${taskId}: ${error instanceof Error ? error.message : error}`);
+              }
+            }
+
+            if (byTask.size === 0) {
+              return `No commits mention ${args.taskId ?? "a TASK-### ID"}.`;
+            }
+            const parts = [
+              linked.length > 0 ? `✅ Linked commits:\n${linked.join("\n")}` : "✅ No new commits to link",
+            ];
+            if (upToDate.length > 0) parts.push(`Already up to date: ${upToDate.join(", ")}`);
+            if (missing.length > 0) parts.push(`Mentioned in commits but no task folder (archived, deleted or unknown): ${missing.join(", ")}`);
+            if (failed.length > 0) parts.push(`❌ Not linked:\n${failed.join("\n")}`);
+            return parts.join("\n\n");
+          });
+        },
+      }),
+
+      /**
+       * ADR Sync Tool
+       * Exports decision memories as Architecture Decision Records and imports existing ADRs into memory
+       */
+      "adr-sync": tool({
+        description: `Keep memory.jsonl and the Architecture Decision Records in ${relative(directory, adrDir) || "."}/ in sync.
+
+Actions:
+- export: Write each memory entry tagged decision or architecture as a numbered ADR (NNNN-title.md). Summary labels map to sections: Problem → Context, Decision → Decision, Alternatives → Alternatives Considered, Trade-offs and Impact/Scope → Consequences. Superseded and deprecated entries get that status. Exported ADRs carry a "Memory: mem-####" line; exporting again updates the same files.
+- import: Add a memory entry (tags: decision, adr) for each hand-written ADR, linking back to the ADR file. ADRs that were exported from memory or are already linked from an entry are skipped, so importing again adds nothing. Superseded, deprecated or rejected ADRs are imported as deprecated entries.
+- both: import, then export
+
+Parameters:
+- action: export, import or both
+- dryRun: Report what would change without writing (default: false)
+
+Examples:
+- adr-sync({ action: "export" })
+- adr-sync({ action: "import", dryRun: true })`,
+        args: {
+          action: tool.schema.enum(["export", "import", "both"]).describe("export, import or both"),
+          dryRun: tool.schema.boolean().optional().describe("Only report what would change (default: false)"),
+        },
+        async execute(args, ctx) {
+          return withLock(memoryLockPath, () => {
+            const adrRelDir = relative(directory, adrDir);
+            const adrLink = (fileName: string) => join(adrRelDir, fileName);
+            const lines: string[] = [];
+
+            if (args.action === "import" || args.action === "both") {
+              const byId = workspace.resolvedMemoryMap();
+              const linked = new Set([...byId.values()].flatMap((entry) => entry.links));
+              const records: (MemoryEntry | MemoryEvent)[] = [];
+              const imported: string[] = [];
+              let nextNum = parseInt(workspace.nextMemoryId().slice(4), 10);
+
+              for (const adr of listAdrs(adrDir)) {
+                if ((adr.memoryId && byId.has(adr.memoryId)) || linked.has(adrLink(adr.fileName))) continue;
+
+                const entry = {
+                  id: `mem-${(nextNum++).toString().padStart(4, "0")}`,
+                  timestamp: adrTimestamp(adr) ?? utcTimestamp(),
+                  summary: adrToSummary(adr),
+                  tags: ["decision", "adr"],
+                  links: [adrLink(adr.fileName)],
+                };
+                records.push(entry);
+                if (isRetiredAdr(adr)) {
+                  records.push({ event: "deprecate", target: entry.id, timestamp: utcTimestamp(), reason: `ADR status: ${adr.status}` });
+                }
+                imported.push(`${entry.id} ← ${adrLink(adr.fileName)}${isRetiredAdr(adr) ? " (deprecated)" : ""}`);
+              }
+
+              if (imported.length > 0 && !args.dryRun) {
+                mkdirSync(meridianDir, { recursive: true });
+                appendFileSynced(memoryPath, records.map((record) => JSON.stringify(record) + "\n").join(""));
+              }
+              lines.push(
+                imported.length > 0
+                  ? `${args.dryRun ? "Would import" : "✅ Imported"} ${imported.length} ADR(s):\n${imported.map((line) => `- ${line}`).join("\n")}`
+                  : "✅ Import: every ADR is already in memory"
+              );
+            }
+
+            if (args.action === "export" || args.action === "both") {
+              const entries = resolveMemory(readMemoryLog(memoryPath));
+              const adrs = listAdrs(adrDir);
+              const byMemory = new Map(adrs.filter((adr) => adr.memoryId).map((adr) => [adr.memoryId!, adr]));
+              const byLink = new Map(adrs.map((adr) => [adrLink(adr.fileName), adr]));
+
+              // Entries imported from an ADR are represented by that ADR, not exported again
+              const adrNumbers = new Map<string, number>();
+              for (const entry of entries) {
+                const source = entry.links.map((link) => byLink.get(link)).find((adr) => adr && !adr.memoryId);
+                if (source) adrNumbers.set(entry.id, source.number);
+              }
+              const candidates = entries.filter(
+                (entry) => !adrNumbers.has(entry.id) && entry.tags.some((tag) => ADR_TAGS.includes(tag))
+              );
+
+              let nextNumber = Math.max(0, ...adrs.map((adr) => adr.number)) + 1;
+              const files = new Map<string, string>();
+              for (const entry of candidates) {
+                const existing = byMemory.get(entry.id);
+                const number = existing ? existing.number : nextNumber++;
+                adrNumbers.set(entry.id, number);
+                files.set(entry.id, existing ? existing.fileName : adrFileName(number, adrTitle(entry)));
+              }
+
+              const created: string[] = [];
+              const updated: string[] = [];
+              for (const entry of candidates) {
+                const fileName = files.get(entry.id)!;
+                const content = renderAdr(entry, adrNumbers.get(entry.id)!, adrNumbers);
+                const existing = byMemory.get(entry.id);
+                if (existing?.content === content) continue;
+
+                (existing ? updated : created).push(`${adrLink(fileName)} ← ${entry.id}`);
+                if (!args.dryRun) {
+                  mkdirSync(adrDir, { recursive: true });
+                  writeFileAtomic(join(adrDir, fileName), content);
+                }
+              }
+
+              const verb = args.dryRun ? "Would export" : "✅ Exported";
+              if (created.length + updated.length === 0) {
+                lines.push(`✅ Export: ${candidates.length} ADR(s) already up to date`);
+              } else {
+                const changes = [...created.map((line) => `- new ${line}`), ...updated.map((line) => `- updated ${line}`)];
+                lines.push(`${verb} ${candidates.length} decision(s): ${created.length} new, ${updated.length} updated, ${candidates.length - created.length - updated.length} unchanged\n${changes.join("\n")}`);
+              }
+            }
+
+            return lines.join("\n\n");
+          });
         },
       }),
 
       /**
        * Memory Search Tool
-       * Searches memory.jsonl using fuzzy search on summary, tags, and links
+       * Ranked full-text search over memory.jsonl with structured filters
        */
       "memory-search": tool({
         description: `Search memory.jsonl for relevant past decisions, patterns, and lessons learned.
 
-Uses fuzzy search to find memories by:
-- Summary text (supports partial matches)
-- Tags (architecture, decision, pattern, etc.)
-- Linked TASK IDs or file paths
+Free text is ranked with BM25 over summaries, tags and links (exact words, not fuzzy). Combine it with filters:
+- tag:<tag> — entry must have this tag (repeat for several)
+- link:<text> — a link must contain this text (TASK ID or file path)
+- since:YYYY-MM-DD / until:YYYY-MM-DD — timestamp range (inclusive)
+- status:active|superseded|deprecated|all — lifecycle state (default: active)
+
+With filters only, results are listed newest first. Each result has a snippet with the matching words in bold.
 
 Perfect for:
 - Finding past architectural decisions
@@ -507,94 +1030,155 @@ Perfect for:
 - Discovering relevant patterns for current work
 
 Parameters:
-- query: Search query (text, tags, or TASK ID)
+- query: Search query (text and/or filters)
 - limit: Maximum results to return (default: 5)
-- minScore: Minimum relevance score 0-1 (default: 0.3)
+- minScore: Minimum score relative to the best match, 0-1 (default: 0)
 
 Examples:
 - memory-search({ query: "authentication" })
-- memory-search({ query: "TASK-001", limit: 10 })
-- memory-search({ query: "database migration", minScore: 0.5 })`,
+- memory-search({ query: "link:TASK-014", limit: 10 })
+- memory-search({ query: "tag:security since:2026-01-01 token rotation" })
+- memory-search({ query: "postgres status:all" })`,
         args: {
-          query: tool.schema.string().describe("Search query - text, tags, or TASK ID"),
+          query: tool.schema.string().describe("Search text and/or filters (tag:, link:, since:, until:, status:)"),
           limit: tool.schema.number().optional().describe("Max results (default: 5)"),
-          minScore: tool.schema.number().optional().describe("Min relevance score 0-1 (default: 0.3)")
+          minScore: tool.schema.number().optional().describe("Min score relative to the best match, 0-1 (default: 0)")
         },
         async execute(args, ctx) {
-          const limit = args.limit || 5;
-          const minScore = args.minScore || 0.3;
-
           // Load all memory entries
           if (!existsSync(memoryPath)) {
             return `No memories found. The memory file doesn't exist yet.\n\nCreate memories using the memory-curator tool when you make significant decisions.`;
           }
 
-          const content = readFileSync(memoryPath, "utf-8");
-          const lines = content.split("\n").filter(line => line.trim());
-
-          if (lines.length === 0) {
-            return `No memories found. The memory file is empty.\n\nCreate memories using the memory-curator tool.`;
-          }
-
-          const memories = lines.map((line, index) => {
-            try {
-              return JSON.parse(line);
-            } catch (error) {
-              return null;
-            }
-          }).filter(m => m !== null);
-
-          if (memories.length === 0) {
-            return `No valid memories found. The memory file may be corrupted.`;
+          const { indexed, results, bestScore } = workspace.searchMemory(args.query, args);
+          if (indexed === 0) {
+            return `No memories found. The memory file is empty or contains no valid entries.\n\nCreate memories using the memory-curator tool.`;
           }
 
-          // Configure Fuse.js for fuzzy search
-          const fuse = new Fuse(memories, {
-            keys: [
-              { name: "summary", weight: 0.5 },
-              { name: "tags", weight: 0.3 },
-              { name: "links", weight: 0.2 },
-              { name: "id", weight: 0.1 }
-            ],
-            threshold: 1 - minScore, // Fuse uses inverse: lower = more strict
-            includeScore: true,
-            minMatchCharLength: 2
-          });
-
-          // Search
-          const results = fuse.search(args.query);
-
-          // Filter by score and limit
-          const filtered = results
-            .filter(r => r.score !== undefined && (1 - r.score) >= minScore)
-            .slice(0, limit);
-
-          if (filtered.length === 0) {
+          if (results.length === 0) {
             return `No memories found matching "${args.query}".\n\nTry:
-- Broader search terms
-- Lower minScore (currently ${minScore})
+- Fewer or broader words (matching is on whole words)
+- Removing filters, or status:all to include superseded/deprecated entries
 - Check available tags: architecture, decision, pattern, etc.`;
           }
 
           // Format results
-          const formatted = filtered.map((result, index) => {
-            const mem = result.item;
-            const score = ((1 - (result.score || 0)) * 100).toFixed(0);
-
-            return `## ${index + 1}. ${mem.id} (${score}% match)
+          const formatted = results.map((result, index) => {
+            const mem = result.entry;
+            const score = bestScore > 0 ? ` (score ${result.score.toFixed(2)})` : "";
+            const lifecycle = mem.status === "active"
+              ? ""
+              : `\n**Status:** ${mem.status}${mem.supersededBy ? ` by ${mem.supersededBy}` : ""}${mem.reason ? ` — ${mem.reason}` : ""}`;
+
+            return `## ${index + 1}. ${mem.id}${score}
 **Timestamp:** ${mem.timestamp}
-**Tags:** ${mem.tags?.join(", ") || "none"}
-**Links:** ${mem.links?.join(", ") || "none"}
+**Tags:** ${mem.tags.join(", ") || "none"}
+**Links:** ${mem.links.join(", ") || "none"}${lifecycle}
+**Match:** ${result.snippet}
 
 ${mem.summary}
 `;
           }).join("\n---\n\n");
 
-          return `Found ${filtered.length} memor${filtered.length === 1 ? "y" : "ies"} matching "${args.query}":\n\n${formatted}
+          return `Found ${results.length} memor${results.length === 1 ? "y" : "ies"} matching "${args.query}":\n\n${formatted}`;
+        },
+      }),
+
+      /**
+       * Audit Query Tool
+       * Filters and summarizes the tool audit log
+       */
+      "audit-query": tool({
+        description: `Query the tool audit log (.meridian/audit.jsonl and the rotated archives in .meridian/audit/) and summarize it.
+
+Every tool call is recorded with its session, agent, active task, sanitized args, duration and a success flag. Use this to answer questions like "which tools failed most in TASK-012" or "what did this session run".
+
+Parameters:
+- sessionID: Only calls from this session
+- tool: Only calls to this tool (e.g. "bash", "task-manager")
+- taskId: Only calls made while this task was active (e.g. "TASK-012")
+- since / until: Time window, ISO date or timestamp (until a date is inclusive)
+- failedOnly: Only failed calls (default: false)
+- groupBy: Summarize by "tool", "task", "session" or "agent" (default: "tool")
+- limit: Number of matching calls to list, newest first (default: 10, 0 for summary only)
+
+Examples:
+- audit-query({ taskId: "TASK-012", failedOnly: true })
+- audit-query({ since: "2026-03-01", groupBy: "task", limit: 0 })
+- audit-query({ sessionID: "ses_abc123", limit: 30 })`,
+        args: {
+          sessionID: tool.schema.string().optional().describe("Only calls from this session"),
+          tool: tool.schema.string().optional().describe("Only calls to this tool"),
+          taskId: tool.schema.string().optional().describe("Only calls made while this task was active"),
+          since: tool.schema.string().optional().describe("Start of time window (ISO date or timestamp)"),
+          until: tool.schema.string().optional().describe("End of time window (ISO date or timestamp, dates inclusive)"),
+          failedOnly: tool.schema.boolean().optional().describe("Only failed calls (default: false)"),
+          groupBy: tool.schema.enum(AUDIT_GROUP_BY).optional().describe("Summary grouping (default: tool)"),
+          limit: tool.schema.number().optional().describe("Matching calls to list (default: 10, 0 for summary only)")
+        },
+        async execute(args, ctx) {
+          const parseBound = (value: string | undefined, name: string, endOfDayIfDate: boolean) => {
+            if (!value) return undefined;
+            const date = parseISO(value);
+            if (!isValid(date)) {
+              throw new Error(`Invalid ${name} '${value}'. Use an ISO date (2026-03-01) or timestamp.`);
+            }
+            return endOfDayIfDate && /^\d{4}-\d{2}-\d{2}$/.test(value) ? endOfDay(date) : date;
+          };
+
+          const groupBy: AuditGroupBy = args.groupBy ?? "tool";
+          const limit = args.limit ?? 10;
+          const filter = {
+            sessionID: args.sessionID,
+            tool: args.tool,
+            task: args.taskId,
+            since: parseBound(args.since, "since", false),
+            until: parseBound(args.until, "until", true),
+            failedOnly: args.failedOnly,
+          };
+
+          const all = readAuditHistory(auditPath, filter.since);
+          if (all.length === 0) {
+            return `No audit records found. The audit log is written as tools run: ${auditPath}`;
+          }
+
+          const matching = filterAuditRecords(all, filter);
+          const criteria = [
+            args.sessionID && `session ${args.sessionID}`,
+            args.tool && `tool ${args.tool}`,
+            args.taskId && `task ${args.taskId}`,
+            args.since && `since ${args.since}`,
+            args.until && `until ${args.until}`,
+            args.failedOnly && "failed only",
+          ].filter(Boolean).join(", ") || "all calls";
+
+          if (matching.length === 0) {
+            return `No audit records match (${criteria}). ${all.length} records in total.`;
+          }
+
+          const failures = matching.filter((record) => !record.success).length;
+          const rows = summarizeAudit(matching, groupBy).map((row) =>
+            `| ${row.key} | ${row.calls} | ${row.failures} | ${row.avgDurationMs === null ? "-" : `${row.avgDurationMs} ms`} | ${row.lastFailure ?? "-"} |`
+          );
+
+          let result = `# Audit: ${criteria}\n\n${matching.length} calls, ${failures} failed\n\n`;
+          result += `| ${groupBy} | calls | failed | avg duration | last failure |\n|---|---|---|---|---|\n${rows.join("\n")}\n`;
+
+          if (limit > 0) {
+            const recent = matching.slice(-limit).reverse().map((record) => {
+              const status = record.success ? "✅" : "❌";
+              const duration = record.durationMs === null ? "" : ` (${record.durationMs} ms)`;
+              const context = [record.task, record.agent, record.sessionID].filter(Boolean).join(" · ");
+              const argsText = record.args ? `\n  args: ${JSON.stringify(record.args)}` : "";
+              const outputText = record.output ? `\n  output: ${record.output.replace(/\s+/g, " ").trim()}` : "";
+              return `- ${status} ${record.timestamp} **${record.tool}**${duration}${context ? ` — ${context}` : ""}${argsText}${outputText}`;
+            });
+            result += `\n## Most recent ${recent.length} of ${matching.length}\n\n${recent.join("\n")}\n`;
+          }
 
-**Tip:** Use lower minScore to see more results, higher minScore for more precise matches.`;
+          return result;
         },
       }),
-    },
+    }),
   };
 };